@@ -0,0 +1,124 @@
+// Подтверждение инструментов: право в режиме "ask" (/settings) ставит цикл Председателя на паузу,
+// пока пользователь не разрешит, не отклонит или не исправит вызов.
+// Шаблоны "всегда разрешать" хранятся в конфиге отдельно для каждой папки проекта.
+import path from 'node:path';
+import { AppPermissions, ParsedTool, ParsedToolType } from './types.js';
+import { isInside, realPath } from './workspace.js';
+
+export type PermissionKey = keyof AppPermissions;
+
+// Короткие имена прав: hause ask --allow/--deny и префикс шаблонов ("command:npm test*")
+export const PERMISSION_NAMES: Record<string, PermissionKey> = {
+  read: 'allow_file_read',
+  write: 'allow_file_write',
+  edit: 'allow_file_edit',
+  command: 'allow_command',
+  browser: 'allow_browser',
+  desktop: 'allow_desktop'
+};
+
+const TOOL_PERMISSIONS: Record<ParsedToolType, PermissionKey[]> = {
+  command: ['allow_command'],
+  file: ['allow_file_write'],
+  edit: ['allow_file_edit'],
+  ios_config: ['allow_file_edit'],
+  read: ['allow_file_read'],
+  tree: ['allow_file_read'],
+  search: ['allow_file_read', 'allow_command'],
+  browser_open: ['allow_browser'],
+  browser_search: ['allow_browser'],
+  browser_act: ['allow_browser'],
+  desktop_screenshot: ['allow_desktop'],
+  desktop_act: ['allow_desktop'],
+  system_diagnostics: ['allow_command']
+};
+
+export interface ApprovalRequest {
+  tool: ParsedToolType;
+  permission: PermissionKey; // Право в режиме "ask", по которому спрашиваем
+  target: string; // Команда, путь, URL или действие
+  patternTarget?: string; // С чем сравниваются шаблоны (путь — относительно проекта); нет — шаблон не подойдет
+  preview?: string; // Unified diff для file: и edit:
+  reason?: string; // Почему спрашиваем, если не из-за права (правило /policy)
+}
+
+export type ApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'reject'; reason?: string }
+  | { action: 'edit'; target: string } // Исправленная команда
+  | { action: 'always'; pattern: string };
+
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+export function requiredPermissions(type: ParsedToolType): PermissionKey[] {
+  return TOOL_PERMISSIONS[type] || [];
+}
+
+// Право в режиме "ask", из-за которого вызов нужно подтвердить (undefined — не нужно)
+export function askPermission(type: ParsedToolType, perms: AppPermissions): PermissionKey | undefined {
+  return requiredPermissions(type).find(p => perms[p] === 'ask');
+}
+
+// Что показать пользователю и с чем сравнивать шаблоны
+export function toolTarget(tool: ParsedTool): string {
+  if (tool.type === 'file' || tool.type === 'edit') return tool.arg;
+  if (tool.type === 'tree') return tool.content || '.';
+  if (tool.type === 'system_diagnostics') return 'system_diagnostics';
+  return tool.content.trim();
+}
+
+export function permissionName(permission: PermissionKey): string {
+  return Object.keys(PERMISSION_NAMES).find(name => PERMISSION_NAMES[name] === permission) || permission;
+}
+
+// Права, у которых цель — путь: шаблон сравнивается по сегментам
+const PATH_PERMISSIONS: PermissionKey[] = ['allow_file_read', 'allow_file_write', 'allow_file_edit'];
+
+// Для путей * и ? не переходят через "/", ** — любые папки; для команд и URL * — любые символы
+function wildcardToRegExp(glob: string, segments: boolean): RegExp {
+  const any = segments ? '[^/]*' : '.*';
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*|\*|\?/g, token => token === '**' ? '.*' : token === '*' ? any : segments ? '[^/]' : '.');
+  return new RegExp(`^${escaped}$`, 's');
+}
+
+// Путь для шаблонов: относительно папки проекта, после раскрытия "..", ~ и ссылок (realTarget —
+// PathCheck.path). undefined — путь вне проекта, такой вызов шаблоном не разрешается
+export function projectRelativePath(realTarget: string, projectDir: string): string | undefined {
+  const root = realPath(projectDir);
+  if (!isInside(realTarget, root)) return undefined;
+  return path.relative(root, realTarget).split(path.sep).join('/') || '.';
+}
+
+// Шаблон "<право>:<маска>", * — любые символы (в путях — в пределах папки), ? — один символ
+export function patternMatches(pattern: string, request: Pick<ApprovalRequest, 'permission' | 'target'>): boolean {
+  const sep = pattern.indexOf(':');
+  if (sep === -1 || PERMISSION_NAMES[pattern.substring(0, sep)] !== request.permission) return false;
+  const glob = pattern.substring(sep + 1);
+  // "npm test*" не должен разрешать "npm test; rm -rf ~": цепочки и подстановки — только если они есть в самом шаблоне
+  const shellMeta = /[;&|`$<>\n]/;
+  if (request.permission === 'allow_command' && shellMeta.test(request.target) && !shellMeta.test(glob)) return false;
+  const segments = PATH_PERMISSIONS.includes(request.permission);
+  // Путь должен прийти уже относительным к проекту (projectRelativePath): "..", ~ и абсолютные не совпадают никогда
+  if (segments && (path.isAbsolute(request.target) || request.target.startsWith('~') || request.target.split(/[\\/]/).includes('..'))) return false;
+  return wildcardToRegExp(glob, segments).test(request.target);
+}
+
+// Предлагаемый шаблон: команда — первые два слова, файл — его папка, URL — сайт
+export function suggestPattern(request: ApprovalRequest): string {
+  const name = permissionName(request.permission);
+  const target = (request.patternTarget ?? request.target).trim();
+  if (request.permission === 'allow_command') {
+    return `${name}:${target.split(/\s+/).slice(0, 2).join(' ')}*`;
+  }
+  if (request.permission === 'allow_browser') {
+    try {
+      return `${name}:${new URL(target).origin}/*`;
+    } catch {
+      return `${name}:${target}`;
+    }
+  }
+  if (request.permission === 'allow_desktop') return `${name}:${target}`;
+  const dir = path.posix.dirname(path.posix.normalize(target.replace(/\\/g, '/')));
+  return `${name}:${dir === '.' ? '' : `${dir}/`}*`;
+}
@@ -0,0 +1,125 @@
+// Журнал аудита: одна JSON-строка на каждый вызов инструмента агентом.
+// ~/.council-ai/audit/YYYY-MM-DD.jsonl — только дозапись, файл на каждый день (/audit)
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import crypto from 'node:crypto';
+import { ParsedToolType } from './types.js';
+
+export const AUDIT_DIR = path.join(os.homedir(), '.council-ai', 'audit');
+
+// Аргументы длиннее этого (содержимое file:, edit:) обрезаются; полный хэш остается
+const MAX_ARG_CHARS = 2000;
+
+// Чем закончилась проверка прав перед выполнением
+export type AuditDecision =
+  | 'allowed' // Право включено
+  | 'approved' // Пользователь разрешил в режиме "ask"
+  | 'pattern' // Разрешено сохраненным шаблоном
+  | 'edited' // Пользователь исправил команду
+  | 'rejected' // Пользователь отклонил
+  | 'denied_permission' // Право выключено в /settings
+  | 'denied_policy' // Запрет /policy
+  | 'denied_workspace' // Путь вне рабочих папок или ~/.council-ai
+  | 'denied_no_approval'; // Нужно подтверждение, но спросить некого (hause ask, HTTP API)
+
+export interface AuditEvent {
+  ts: string; // ISO 8601
+  sessionId: string;
+  askId: string;
+  agentId: string;
+  agentName: string;
+  tool: ParsedToolType;
+  arg?: string; // Путь для file:/edit:
+  content: string; // Команда, путь или содержимое (с замаскированными секретами)
+  contentHash: string; // sha256 полного content
+  cwd: string;
+  decision: AuditDecision;
+  exitCode?: number; // Для команд терминала
+  durationMs: number;
+  outputHash: string; // sha256 отчета, ушедшего Председателю
+  outputBytes: number;
+  files?: string[]; // Абсолютные пути, которые инструмент читал или менял
+}
+
+export interface AuditFilter {
+  since?: number; // Timestamp (ms)
+  tool?: string;
+  sessionId?: string;
+  decision?: string; // Точное значение или префикс ("denied")
+  text?: string; // Подстрока в команде/аргументах
+}
+
+export function sha256(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+export function truncateArg(text: string): string {
+  return text.length > MAX_ARG_CHARS ? `${text.substring(0, MAX_ARG_CHARS)}… [${text.length} chars]` : text;
+}
+
+function dayFile(date: Date): string {
+  const day = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  return path.join(AUDIT_DIR, `${day}.jsonl`);
+}
+
+// "30m", "2h", "7d" или дата YYYY-MM-DD -> timestamp
+export function parseSince(value: string, now: number = Date.now()): number | undefined {
+  const relative = value.match(/^(\d+)([mhd])$/);
+  if (relative) {
+    const unit = { m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as 'm' | 'h' | 'd'];
+    return now - parseInt(relative[1], 10) * unit;
+  }
+  const date = new Date(`${value}T00:00:00`).getTime();
+  return isNaN(date) ? undefined : date;
+}
+
+export function matchesFilter(event: AuditEvent, filter: AuditFilter): boolean {
+  if (filter.since !== undefined && Date.parse(event.ts) < filter.since) return false;
+  if (filter.tool && event.tool !== filter.tool) return false;
+  if (filter.sessionId && !event.sessionId.startsWith(filter.sessionId)) return false;
+  if (filter.decision && !event.decision.startsWith(filter.decision)) return false;
+  if (filter.text) {
+    const needle = filter.text.toLowerCase();
+    if (!`${event.arg || ''} ${event.content}`.toLowerCase().includes(needle)) return false;
+  }
+  return true;
+}
+
+export class AuditLog {
+  // Ошибка записи журнала не должна ломать работу агента, но и молча теряться не должна
+  record(event: AuditEvent) {
+    try {
+      fs.mkdirSync(AUDIT_DIR, { recursive: true, mode: 0o700 });
+      fs.appendFileSync(dayFile(new Date(event.ts)), JSON.stringify(event) + '\n', { mode: 0o600 });
+    } catch (e: any) {
+      console.error(`Audit log write failed: ${e.message}`);
+    }
+  }
+
+  // События по порядку (старые сначала); limit — последние N подходящих
+  read(filter: AuditFilter = {}, limit?: number): AuditEvent[] {
+    if (!fs.existsSync(AUDIT_DIR)) return [];
+    const files = fs.readdirSync(AUDIT_DIR).filter(f => /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(f)).sort();
+    const events: AuditEvent[] = [];
+
+    // С конца: для хвоста не нужно читать весь журнал
+    for (let i = files.length - 1; i >= 0; i--) {
+      if (filter.since !== undefined && files[i] < path.basename(dayFile(new Date(filter.since)))) break;
+      const lines = fs.readFileSync(path.join(AUDIT_DIR, files[i]), 'utf8').split('\n');
+      const day: AuditEvent[] = [];
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          const event = JSON.parse(line) as AuditEvent;
+          if (matchesFilter(event, filter)) day.push(event);
+        } catch {
+          // Оборванная строка (сбой во время записи) — пропускаем
+        }
+      }
+      events.unshift(...day);
+      if (limit !== undefined && events.length >= limit) break;
+    }
+    return limit !== undefined ? events.slice(-limit) : events;
+  }
+}
@@ -0,0 +1,87 @@
+// Бюджеты расходов: прогноз стоимости запроса и решение по политике
+import { AgentConfig, BudgetConfig, BudgetPolicy } from './types.js';
+import { calculateCost, UsageRecord } from './usage.js';
+
+// Сколько выходных токенов закладываем на ответ при прогнозе
+export const OUTPUT_ESTIMATE_TOKENS = 1000;
+
+export type BudgetAction = 'ok' | 'warn' | 'skip' | 'chair_only' | 'refuse';
+
+export interface BudgetPlan {
+  action: BudgetAction;
+  members: AgentConfig[]; // Кого из Совета все-таки опрашиваем
+  skipped: AgentConfig[];
+  projected: number; // Прогноз стоимости запроса (USD) для итогового состава
+  remaining?: number; // Остаток по самому жесткому лимиту до запроса
+}
+
+const sumCost = (records: UsageRecord[]) => records.reduce((acc, r) => acc + r.cost, 0);
+
+export function getPolicy(budget: BudgetConfig): BudgetPolicy {
+  return budget.policy || 'warn';
+}
+
+// Остаток по сессионному и дневному лимитам (минимум из заданных); undefined — лимитов нет
+export function getRemaining(budget: BudgetConfig, session: UsageRecord[], today: UsageRecord[]): number | undefined {
+  const left: number[] = [];
+  if (budget.session !== undefined) left.push(budget.session - sumCost(session));
+  if (budget.daily !== undefined) left.push(budget.daily - sumCost(today));
+  return left.length > 0 ? Math.min(...left) : undefined;
+}
+
+export function getAgentRemaining(budget: BudgetConfig, agentId: string, today: UsageRecord[]): number | undefined {
+  const limit = budget.perAgent?.[agentId];
+  if (limit === undefined) return undefined;
+  return limit - sumCost(today.filter(r => r.agentId === agentId));
+}
+
+export function projectCost(agent: AgentConfig, inputTokens: number): number {
+  return calculateCost(agent.model, { input: inputTokens, output: OUTPUT_ESTIMATE_TOKENS });
+}
+
+export function planBudget(
+  budget: BudgetConfig,
+  chair: AgentConfig,
+  members: AgentConfig[],
+  inputTokens: number,
+  session: UsageRecord[],
+  today: UsageRecord[]
+): BudgetPlan {
+  const remaining = getRemaining(budget, session, today);
+  const cost = (a: AgentConfig) => projectCost(a, inputTokens);
+  const overAgent = (a: AgentConfig) => {
+    const left = getAgentRemaining(budget, a.id, today);
+    return left !== undefined && cost(a) > left;
+  };
+  const total = (list: AgentConfig[]) => cost(chair) + list.reduce((acc, a) => acc + cost(a), 0);
+  const fits = (list: AgentConfig[]) => remaining === undefined || total(list) <= remaining;
+
+  const plan = (action: BudgetAction, kept: AgentConfig[]): BudgetPlan => ({
+    action,
+    members: kept,
+    skipped: members.filter(a => !kept.includes(a)),
+    projected: total(kept),
+    remaining
+  });
+
+  if (fits(members) && !overAgent(chair) && !members.some(overAgent)) return plan('ok', members);
+
+  const policy = getPolicy(budget);
+  if (policy === 'warn') return plan('warn', members);
+
+  // Без Председателя ответа не будет: если не влезает даже он один — отказ
+  if (policy === 'refuse' || overAgent(chair) || !fits([])) return plan('refuse', []);
+  if (policy === 'chair_only') return plan('chair_only', []);
+
+  // skip_expensive: убираем превысивших личный лимит, затем самых дорогих, пока не влезем
+  const kept = members.filter(a => !overAgent(a)).sort((a, b) => cost(a) - cost(b));
+  while (kept.length > 0 && !fits(kept)) kept.pop();
+  return plan('skip', members.filter(a => kept.includes(a)));
+}
+
+// Проверка перед очередным ходом Председателя: бюджет уже потрачен?
+export function isExhausted(budget: BudgetConfig, chair: AgentConfig, session: UsageRecord[], today: UsageRecord[]): boolean {
+  const remaining = getRemaining(budget, session, today);
+  const agentLeft = getAgentRemaining(budget, chair.id, today);
+  return (remaining !== undefined && remaining <= 0) || (agentLeft !== undefined && agentLeft <= 0);
+}
@@ -0,0 +1,218 @@
+// Чекпоинты файлов: перед каждой записью/правкой агента сохраняется прежнее содержимое файла.
+// ~/.council-ai/checkpoints/<sessionId>/<askId>.json — один чекпоинт на запрос (/undo, /changes)
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+const CONFIG_DIR = path.join(os.homedir(), '.council-ai');
+const CHECKPOINTS_DIR = path.join(CONFIG_DIR, 'checkpoints');
+
+// Таблица LCS больше этого (строк старого * строк нового) не строится — показываем замену целиком
+const MAX_DIFF_CELLS = 4_000_000;
+
+export interface FileSnapshot {
+  path: string; // Абсолютный путь
+  before: string | null; // null — файла не было, агент его создал
+  after?: string; // Содержимое после последней записи агента в этом запросе
+  binary?: boolean; // before в base64
+}
+
+export interface Checkpoint {
+  sessionId: string;
+  askId: string;
+  question: string;
+  created: number;
+  files: FileSnapshot[];
+  undoneAt?: number;
+}
+
+export interface UndoResult {
+  restored: string[];
+  deleted: string[];
+}
+
+function checkpointFile(sessionId: string, askId: string): string {
+  return path.join(CHECKPOINTS_DIR, sessionId, `${askId}.json`);
+}
+
+export class CheckpointStore {
+  private current: Checkpoint | null = null;
+
+  // Начало запроса: снимки будут попадать в чекпоинт этого askId
+  begin(sessionId: string, askId: string, question: string) {
+    this.current = { sessionId, askId, question, created: Date.now(), files: [] };
+  }
+
+  // Перед записью: запоминаем исходное содержимое (только первый раз за запрос)
+  before(file: string) {
+    const cp = this.current;
+    if (!cp || cp.files.some(f => f.path === file)) return;
+
+    let snapshot: FileSnapshot = { path: file, before: null };
+    if (fs.existsSync(file)) {
+      const data = fs.readFileSync(file);
+      snapshot = data.includes(0)
+        ? { path: file, before: data.toString('base64'), binary: true }
+        : { path: file, before: data.toString('utf8') };
+    }
+    cp.files.push(snapshot);
+    this.save(cp);
+  }
+
+  after(file: string, content: string) {
+    const snapshot = this.current?.files.find(f => f.path === file);
+    if (!snapshot) return;
+    snapshot.after = content;
+    this.save(this.current!);
+  }
+
+  private save(cp: Checkpoint) {
+    const file = checkpointFile(cp.sessionId, cp.askId);
+    fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(file, JSON.stringify(cp, null, 2), { mode: 0o600 });
+  }
+
+  // Чекпоинты сессии, новые сверху
+  list(sessionId: string): Checkpoint[] {
+    const dir = path.join(CHECKPOINTS_DIR, sessionId);
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir)
+      .filter(f => f.endsWith('.json'))
+      .map(f => {
+        try {
+          return JSON.parse(fs.readFileSync(path.join(dir, f), 'utf8')) as Checkpoint;
+        } catch {
+          return null;
+        }
+      })
+      .filter((cp): cp is Checkpoint => !!cp && cp.files.length > 0)
+      .sort((a, b) => b.created - a.created);
+  }
+
+  // Файлы, измененные после агента (пользователем или более поздним запросом): откат их перезапишет
+  conflicts(cp: Checkpoint): string[] {
+    return cp.files.filter(f => {
+      if (f.after === undefined) return false;
+      const current = fs.existsSync(f.path) ? fs.readFileSync(f.path, 'utf8') : null;
+      return current !== f.after;
+    }).map(f => f.path);
+  }
+
+  // Возвращает файлы к состоянию до запроса; созданные агентом файлы удаляются
+  undo(cp: Checkpoint): UndoResult {
+    const result: UndoResult = { restored: [], deleted: [] };
+    for (const f of [...cp.files].reverse()) {
+      if (f.before === null) {
+        if (fs.existsSync(f.path)) {
+          fs.rmSync(f.path, { force: true });
+          result.deleted.push(f.path);
+        }
+      } else {
+        fs.mkdirSync(path.dirname(f.path), { recursive: true });
+        fs.writeFileSync(f.path, f.binary ? Buffer.from(f.before, 'base64') : f.before);
+        result.restored.push(f.path);
+      }
+    }
+    cp.undoneAt = Date.now();
+    this.save(cp);
+    if (this.current?.askId === cp.askId) this.current = null;
+    return result;
+  }
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+// Построчный дифф через LCS (общие начало и конец отрезаются заранее)
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map(line => ({ type: ' ', line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    ops.push(...midA.map(line => ({ type: '-' as const, line })), ...midB.map(line => ({ type: '+' as const, line })));
+  } else {
+    const n = midA.length;
+    const m = midB.length;
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        ops.push({ type: ' ', line: midA[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        ops.push({ type: '-', line: midA[i++] });
+      } else {
+        ops.push({ type: '+', line: midB[j++] });
+      }
+    }
+    while (i < n) ops.push({ type: '-', line: midA[i++] });
+    while (j < m) ops.push({ type: '+', line: midB[j++] });
+  }
+
+  ops.push(...a.slice(endA).map(line => ({ type: ' ' as const, line })));
+  return ops;
+}
+
+// Unified diff; before/after === null — файла нет (создан или удален). Пустая строка — изменений нет.
+export function unifiedDiff(before: string | null, after: string | null, label: string, context: number = 3): string {
+  const ops = diffLines(splitLines(before ?? ''), splitLines(after ?? ''));
+  const changed = ops.map((op, k) => op.type !== ' ' ? k : -1).filter(k => k !== -1);
+  if (changed.length === 0) return '';
+
+  // Номера строк перед каждой операцией
+  const oldLine: number[] = [];
+  const newLine: number[] = [];
+  let o = 1;
+  let n = 1;
+  for (const op of ops) {
+    oldLine.push(o);
+    newLine.push(n);
+    if (op.type !== '+') o++;
+    if (op.type !== '-') n++;
+  }
+
+  // Соседние изменения с перекрывающимся контекстом — один блок
+  const hunks: [number, number][] = [];
+  for (const k of changed) {
+    const from = Math.max(0, k - context);
+    const to = Math.min(ops.length - 1, k + context);
+    const last = hunks[hunks.length - 1];
+    if (last && from <= last[1] + 1) last[1] = to;
+    else hunks.push([from, to]);
+  }
+
+  const out = [`--- ${before === null ? '/dev/null' : `a/${label}`}`, `+++ ${after === null ? '/dev/null' : `b/${label}`}`];
+  for (const [from, to] of hunks) {
+    const slice = ops.slice(from, to + 1);
+    const oldCount = slice.filter(op => op.type !== '+').length;
+    const newCount = slice.filter(op => op.type !== '-').length;
+    const oldStart = oldCount === 0 ? oldLine[from] - 1 : oldLine[from];
+    const newStart = newCount === 0 ? newLine[from] - 1 : newLine[from];
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    out.push(...slice.map(op => `${op.type}${op.line}`));
+  }
+  return out.join('\n');
+}
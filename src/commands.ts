@@ -1,11 +1,22 @@
 // Команды CLI
 import chalk from 'chalk';
 import { ConfigManager } from './config.js';
-import { HistoryManager } from './history.js';
+import { HistoryManager, SessionSummary, questionIndexes, sessionTree } from './history.js';
 import { Council } from './council.js';
 import { testApiKey, getBalance, fetchModels, API_KEY_URLS } from './providers.js';
-import { getPriceString, MODEL_PRICING } from './pricing.js';
-import { ProviderType } from './types.js';
+import { getPriceString, MODEL_PRICING, getModelInfo } from './pricing.js';
+import { UsageRecord, UsageTotals, summarize as summarizeUsage } from './usage.js';
+import { getPolicy, getRemaining } from './budget.js';
+import { EXPORT_FORMATS, ExportFormat, buildTranscript, defaultExportName, writeExport } from './export.js';
+import { Checkpoint, unifiedDiff } from './checkpoints.js';
+import { PERSONA_IDS, getPersonaName } from './personas.js';
+import { ProviderType, CustomProvider, BudgetConfig, BudgetPolicy, TeamPreset, AppPermissions, PermissionMode } from './types.js';
+import { ApprovalDecision, ApprovalRequest, permissionName, suggestPattern } from './approvals.js';
+import { maskValue } from './redaction.js';
+import { PlanDecision, PlanStep, parseStepSelection } from './plan.js';
+import { AUDIT_DIR, AuditEvent, AuditFilter, AuditLog, parseSince } from './audit.js';
+import { PROTECTED_DIR, expandPath, isInside, realPath } from './workspace.js';
+import { GLOBAL_POLICY_FILE, PROJECT_POLICY_NAME, PolicyAction, PolicyRule, evaluateCommand, loadCommandPolicy } from './policy.js';
 import * as ui from './ui.js';
 import { t, setLanguage, getLanguage } from './i18n.js';
 import { emitKeypressEvents } from 'readline';
@@ -34,20 +45,34 @@ export const COMMANDS = [
   { cmd: '/login', desc: 'cmd_login' },
   { cmd: '/agents', desc: 'cmd_agents' },
   { cmd: '/council', desc: 'cmd_council' },
+  { cmd: '/team', desc: 'cmd_team' },
   { cmd: '/settings', desc: 'cmd_settings' },
   { cmd: '/stats', desc: 'cmd_stats' },
+  { cmd: '/cost', desc: 'cmd_cost' },
+  { cmd: '/budget', desc: 'cmd_budget' },
   { cmd: '/status', desc: 'cmd_status' },
   { cmd: '/update', desc: 'cmd_update' },
   { cmd: '/mute', desc: 'cmd_mute' },
   { cmd: '/compact', desc: 'cmd_compact' },
   { cmd: '/lang', desc: 'cmd_lang' },
   { cmd: '/new', desc: 'cmd_new' },
+  { cmd: '/sessions', desc: 'cmd_sessions' },
+  { cmd: '/export', desc: 'cmd_export' },
+  { cmd: '/rewind', desc: 'cmd_rewind' },
+  { cmd: '/branch', desc: 'cmd_branch' },
+  { cmd: '/retry', desc: 'cmd_retry' },
+  { cmd: '/changes', desc: 'cmd_changes' },
+  { cmd: '/undo', desc: 'cmd_undo' },
+  { cmd: '/plan', desc: 'cmd_plan' },
+  { cmd: '/policy', desc: 'cmd_policy' },
+  { cmd: '/redactions', desc: 'cmd_redactions' },
+  { cmd: '/audit', desc: 'cmd_audit' },
   { cmd: '/doctor', desc: 'cmd_doctor' },
   { cmd: '/exit', desc: 'cmd_exit' },
 ];
 
 export async function handleCommand(input: string, ctx: CommandContext): Promise<boolean | string> {
-  const [cmd] = input.trim().split(/\s+/);
+  const [cmd, ...args] = input.trim().split(/\s+/);
 
   switch (cmd) {
     case '/':
@@ -73,6 +98,10 @@ export async function handleCommand(input: string, ctx: CommandContext): Promise
       await cmdToggleCouncil(ctx);
       return false;
 
+    case '/team':
+      await cmdTeam(ctx, args.join(' '));
+      return false;
+
     case '/settings':
       await cmdSettings(ctx);
       return false;
@@ -81,6 +110,14 @@ export async function handleCommand(input: string, ctx: CommandContext): Promise
       await cmdStats(ctx);
       return false;
 
+    case '/cost':
+      cmdCost(ctx);
+      return false;
+
+    case '/budget':
+      await cmdBudget(ctx);
+      return false;
+
     case '/status':
       await cmdStatus(ctx);
       return false;
@@ -94,15 +131,56 @@ export async function handleCommand(input: string, ctx: CommandContext): Promise
       return false;
 
     case '/compact':
-      await cmdCompact(ctx);
+      await cmdCompact(ctx, args[0]);
       return false;
 
     case '/lang':
       await cmdLang(ctx);
       return false;
     
+    case '/sessions':
+      await cmdSessions(ctx, args.join(' '));
+      return false;
+
+    case '/export':
+      await cmdExport(ctx, args);
+      return false;
+
+    case '/rewind':
+      return (await cmdRewind(ctx)) ?? false;
+
+    case '/branch':
+      await cmdBranch(ctx);
+      return false;
+
+    case '/retry':
+      return cmdRetry(ctx, args) ?? false;
+
+    case '/changes':
+      await cmdChanges(ctx);
+      return false;
+
+    case '/undo':
+      await cmdUndo(ctx, args[0]);
+      return false;
+
+    case '/plan':
+      return cmdPlan(ctx, input.trim().substring(cmd.length).trim()) ?? false;
+
+    case '/policy':
+      cmdPolicy(args);
+      return false;
+
+    case '/redactions':
+      cmdRedactions(ctx);
+      return false;
+
+    case '/audit':
+      cmdAudit(ctx, args);
+      return false;
+
     case '/new':
-      ctx.history.clear();
+      ctx.history.newSession(ctx.config.getActiveTeam()?.name);
       ctx.council.resetStats();
       console.log(chalk.green(`\n  ${t('new_chat')}\n`));
       return false;
@@ -152,49 +230,220 @@ async function cmdLang(ctx: CommandContext) {
 }
 
 async function cmdSettings(ctx: CommandContext) {
+    const projectDir = process.cwd();
     while (true) {
         const perms = ctx.config.getPermissions();
+        const patterns = ctx.config.getApprovedPatterns(projectDir);
         
         console.log(chalk.cyan(`\n  ${t('settings_title')}`));
         console.log(chalk.gray(`  ${t('settings_desc')}\n`));
 
-        const getLabel = (key: string, val: boolean) => {
-            const status = val ? chalk.green(`[${t('settings_on')}]`) : chalk.red(`[${t('settings_off')}]`);
+        const getLabel = (key: string, val: PermissionMode | undefined) => {
+            const status = val === 'ask' ? chalk.yellow(`[${t('settings_ask')}]`)
+                : val ? chalk.green(`[${t('settings_on')}]`) : chalk.red(`[${t('settings_off')}]`);
             return `${t(key).padEnd(40)} ${status}`;
         };
 
         const choice = await ui.select('', [
-            { label: getLabel('perm_browser', !!perms.allow_browser), value: 'browser' },
-            { label: getLabel('perm_desktop', !!perms.allow_desktop), value: 'desktop' },
-            { label: getLabel('perm_command', !!perms.allow_command), value: 'command' },
-            { label: getLabel('perm_file_read', !!perms.allow_file_read), value: 'read' },
-            { label: getLabel('perm_file_write', !!perms.allow_file_write), value: 'write' },
-            { label: getLabel('perm_file_edit', !!perms.allow_file_edit), value: 'edit' },
+            { label: getLabel('perm_browser', perms.allow_browser), value: 'allow_browser' },
+            { label: getLabel('perm_desktop', perms.allow_desktop), value: 'allow_desktop' },
+            { label: getLabel('perm_command', perms.allow_command), value: 'allow_command' },
+            { label: getLabel('perm_file_read', perms.allow_file_read), value: 'allow_file_read' },
+            { label: getLabel('perm_file_write', perms.allow_file_write), value: 'allow_file_write' },
+            { label: getLabel('perm_file_edit', perms.allow_file_edit), value: 'allow_file_edit' },
+            { label: `${t('settings_patterns').padEnd(40)} ${chalk.gray(`(${patterns.length})`)}`, value: 'patterns' },
+            { label: `${t('settings_workspace').padEnd(40)} ${chalk.gray(`(${1 + (ctx.config.getWorkspace().roots || []).length})`)}`, value: 'workspace' },
             { label: t('settings_back'), value: 'back' }
         ]);
 
         if (!choice || choice === 'back') break;
 
-        if (choice === 'browser') perms.allow_browser = !perms.allow_browser;
-        if (choice === 'desktop') perms.allow_desktop = !perms.allow_desktop;
-        if (choice === 'command') perms.allow_command = !perms.allow_command;
-        if (choice === 'read') perms.allow_file_read = !perms.allow_file_read;
-        if (choice === 'write') perms.allow_file_write = !perms.allow_file_write;
-        if (choice === 'edit') perms.allow_file_edit = !perms.allow_file_edit;
+        if (choice === 'patterns') {
+            await editApprovedPatterns(ctx, projectDir);
+            continue;
+        }
+        if (choice === 'workspace') {
+            await editWorkspace(ctx, projectDir);
+            continue;
+        }
+
+        // Вкл -> Спрашивать -> Выкл -> Вкл
+        const key = choice as keyof AppPermissions;
+        const current = perms[key];
+        perms[key] = current === 'ask' ? false : current ? 'ask' : true;
 
         ctx.config.setPermissions(perms);
     }
 }
 
+// Шаблоны "всегда разрешать" текущего проекта (режим "ask"): просмотр и удаление
+async function editApprovedPatterns(ctx: CommandContext, projectDir: string) {
+    while (true) {
+        const patterns = ctx.config.getApprovedPatterns(projectDir);
+        console.log(chalk.cyan(`\n  ${t('settings_patterns')}: ${projectDir.replace(os.homedir(), '~')}`));
+        if (patterns.length === 0) {
+            console.log(chalk.gray(`  ${t('settings_patterns_empty')}\n`));
+            return;
+        }
+
+        const choice = await ui.select(t('settings_patterns_delete'), [
+            ...patterns.map(p => ({ label: p, value: p })),
+            { label: t('settings_back'), value: '__back' }
+        ]);
+        if (!choice || choice === '__back') return;
+        ctx.config.removeApprovedPattern(projectDir, choice);
+        console.log(chalk.green(`  ${t('agents_deleted')}`));
+    }
+}
+
+// Папки, доступные файловым инструментам: папка запуска + дополнительные; что делать с путями вне их
+async function editWorkspace(ctx: CommandContext, projectDir: string) {
+    while (true) {
+        const workspace = ctx.config.getWorkspace();
+        const roots = workspace.roots || [];
+        const outside = workspace.outside || 'ask';
+
+        console.log(chalk.cyan(`\n  ${t('settings_workspace')}`));
+        console.log(chalk.gray(`  ${t('workspace_desc')}\n`));
+        console.log(`  ${projectDir.replace(os.homedir(), '~')} ${chalk.gray(`(${t('workspace_launch_dir')})`)}`);
+        for (const root of roots) console.log(`  ${root.replace(os.homedir(), '~')}`);
+        console.log('');
+
+        const outsideLabel = outside === 'deny' ? chalk.red(`[${t('settings_off')}]`) : chalk.yellow(`[${t('settings_ask')}]`);
+        const choice = await ui.select('', [
+            { label: t('workspace_add'), value: 'add' },
+            ...(roots.length > 0 ? [{ label: t('workspace_remove'), value: 'remove' }] : []),
+            { label: `${t('workspace_outside_mode').padEnd(40)} ${outsideLabel}`, value: 'outside' },
+            { label: t('settings_back'), value: 'back' }
+        ]);
+        if (!choice || choice === 'back') return;
+
+        if (choice === 'outside') {
+            ctx.config.setWorkspace({ ...workspace, outside: outside === 'deny' ? 'ask' : 'deny' });
+        } else if (choice === 'add') {
+            const input = (await ui.input(t('workspace_add_prompt'))).trim();
+            if (!input) continue;
+            const root = realPath(expandPath(input, projectDir));
+            if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+                console.log(chalk.red(`  ${t('workspace_not_dir')}: ${root}`));
+                continue;
+            }
+            if (isInside(root, PROTECTED_DIR)) {
+                console.log(chalk.red(`  ${t('workspace_protected')}`));
+                continue;
+            }
+            if (!roots.includes(root)) ctx.config.setWorkspace({ ...workspace, roots: [...roots, root] });
+        } else {
+            const root = await ui.select(t('workspace_remove'), [
+                ...roots.map(r => ({ label: r.replace(os.homedir(), '~'), value: r })),
+                { label: t('settings_back'), value: '__back' }
+            ]);
+            if (!root || root === '__back') continue;
+            ctx.config.setWorkspace({ ...workspace, roots: roots.filter(r => r !== root) });
+        }
+    }
+}
+
+// Подтверждение вызова инструмента в режиме "ask" (Council.setApprovalHandler)
+export async function promptApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+    console.log(chalk.yellow(`\n  ⚠️  ${t('approval_title')} (${permissionName(request.permission)}):`));
+    console.log(`  ${chalk.white(request.target)}`);
+    if (request.reason) console.log(chalk.gray(`  ${t('approval_why')}: ${request.reason}`));
+    if (request.preview) {
+        console.log('');
+        printDiff(request.preview);
+    }
+
+    const choice = await ui.select(t('approval_prompt'), [
+        { label: t('approval_approve'), value: 'approve' },
+        { label: t('approval_reject'), value: 'reject' },
+        ...(request.tool === 'command' ? [{ label: t('approval_edit'), value: 'edit' }] : []),
+        // Шаблон не снимает вопрос политики или рабочей области и не подходит к путям вне проекта — не предлагаем его
+        ...(request.reason || request.patternTarget === undefined ? [] : [{ label: t('approval_always'), value: 'always' }])
+    ]);
+
+    if (choice === 'approve') return { action: 'approve' };
+    if (choice === 'edit') {
+        const command = (await ui.input(t('approval_edit_prompt'), request.target)).trim();
+        return command ? { action: 'edit', target: command } : { action: 'reject' };
+    }
+    if (choice === 'always') {
+        const pattern = (await ui.input(t('approval_pattern_prompt'), suggestPattern(request))).trim();
+        return pattern ? { action: 'always', pattern } : { action: 'approve' };
+    }
+    // Отказ (или Esc): причина уходит Председателю
+    const reason = choice === 'reject' ? (await ui.input(t('approval_reason_prompt'))).trim() : '';
+    return { action: 'reject', reason: reason || undefined };
+}
+
+// Режим плана: пронумерованные шаги с диффами; выполнить все, часть, доработать или отменить
+export async function promptPlan(steps: PlanStep[]): Promise<PlanDecision> {
+    console.log(chalk.yellow(`\n  📋 ${t('plan_title')}:`));
+    for (const step of steps) {
+        console.log(`\n  ${chalk.bold(`${step.index}.`)} ${chalk.cyan(step.tool.type)} ${chalk.white(step.target)}`);
+        if (step.preview) printDiff(step.preview);
+    }
+    console.log('');
+
+    const choice = await ui.select(t('plan_prompt'), [
+        { label: t('plan_execute_all'), value: 'all' },
+        ...(steps.length > 1 ? [{ label: t('plan_execute_some'), value: 'some' }] : []),
+        { label: t('plan_revise'), value: 'revise' },
+        { label: t('plan_cancel'), value: 'cancel' }
+    ]);
+
+    if (choice === 'all') return { action: 'execute', steps: steps.map(s => s.index) };
+    if (choice === 'some') {
+        while (true) {
+            const answer = (await ui.input(t('plan_steps_prompt'))).trim();
+            if (!answer) return { action: 'cancel' };
+            const selected = parseStepSelection(answer, steps.length);
+            if (selected) return { action: 'execute', steps: selected };
+            console.log(chalk.red(`  ${t('plan_bad_steps')}`));
+        }
+    }
+    if (choice === 'revise') {
+        const feedback = (await ui.input(t('plan_feedback_prompt'))).trim();
+        if (feedback) return { action: 'revise', feedback };
+    }
+    return { action: 'cancel' };
+}
+
+// Лимит ходов Председателя исчерпан: сколько ходов добавить (0 — остановиться)
+export async function promptContinue(turns: number): Promise<number> {
+    const choice = await ui.select(t('continue_prompt'), [
+        { label: `${t('continue_more')}: ${turns}`, value: 'more' },
+        { label: t('continue_custom'), value: 'custom' },
+        { label: t('continue_stop'), value: 'stop' }
+    ]);
+    if (choice === 'more') return turns;
+    if (choice === 'custom') {
+        const value = parseInt(await ui.input(t('continue_turns_prompt'), turns.toString()), 10);
+        return isNaN(value) || value < 1 ? 0 : value;
+    }
+    return 0;
+}
+
 async function cmdLogin(ctx: CommandContext) {
   const types: ProviderType[] = ['openai', 'anthropic', 'deepseek', 'grok', 'gemini', 'perplexity', 'openrouter'];
   
-  const choice = await ui.select(t('login_title'), types.map(t => {
-      const key = ctx.config.getApiKey(t);
-      return { label: `${t} ${key ? chalk.green('✓') : chalk.red('✗')}`, value: t };
-  }));
+  const choice = await ui.select<string>(t('login_title'), [
+      ...types.map(t => {
+          const key = ctx.config.getApiKey(t);
+          return { label: `${t} ${key ? chalk.green('✓') : chalk.red('✗')}`, value: t };
+      }),
+      ...ctx.config.getCustomProviders().map(p => ({
+          label: `${p.name} ${chalk.gray(`(custom: ${p.baseUrl})`)} ${chalk.green('✓')}`, value: `custom:${p.id}`
+      })),
+      { label: t('login_custom_add'), value: 'custom' }
+  ]);
   
   if (!choice) return;
+
+  if (choice === 'custom' || choice.startsWith('custom:')) {
+      await loginCustom(ctx, ctx.config.getCustomProvider(choice.split(':')[1]));
+      return;
+  }
   
   const currentKey = ctx.config.getApiKey(choice);
   const keyUrl = API_KEY_URLS[choice];
@@ -232,11 +481,97 @@ async function cmdLogin(ctx: CommandContext) {
           { label: t('login_no'), value: false }
       ]);
       if (create) {
-          await createAgent(ctx, choice);
+          await createAgent(ctx, choice as ProviderType);
+      }
+  }
+}
+
+// OpenAI-совместимый эндпоинт: имя, base URL, необязательные ключ и заголовки
+async function loginCustom(ctx: CommandContext, existing?: CustomProvider) {
+  if (existing) {
+      const action = await ui.select(`${existing.name} (${existing.baseUrl})`, [
+          { label: t('login_custom_edit'), value: 'edit' },
+          { label: t('login_custom_delete'), value: 'delete' },
+          { label: t('agents_cancel'), value: 'cancel' }
+      ]);
+      if (action === 'delete') {
+          ctx.config.removeCustomProvider(existing.id);
+          console.log(chalk.yellow(`\n  ${t('login_custom_deleted')}`));
+          return;
+      }
+      if (action !== 'edit') return;
+  }
+
+  const name = await ui.input(t('login_custom_name'), existing?.name);
+  if (!name) return;
+
+  const baseUrl = await ui.input(t('login_custom_url'), existing?.baseUrl || 'http://localhost:11434/v1');
+  if (!/^https?:\/\//i.test(baseUrl)) {
+      console.log(chalk.red(`  ✗ ${t('login_custom_invalid_url')}\n`));
+      return;
+  }
+
+  if (existing?.apiKey) console.log(chalk.gray(`  (${t('login_key_set')})`));
+  let apiKey = await ui.password(t('login_custom_key'));
+  if (!apiKey) apiKey = existing?.apiKey || '';
+  if (apiKey === 'DELETE') apiKey = '';
+
+  const currentHeaders = existing?.headers
+      ? Object.entries(existing.headers).map(([k, v]) => `${k}: ${v}`).join('; ')
+      : '';
+  const headersRaw = await ui.input(t('login_custom_headers'), currentHeaders);
+  const headers = parseHeaders(headersRaw);
+
+  const endpoint: CustomProvider = {
+      id: existing?.id || '',
+      name,
+      baseUrl: baseUrl.trim(),
+      apiKey: apiKey.trim() || undefined,
+      headers: Object.keys(headers).length > 0 ? headers : undefined
+  };
+
+  console.log(chalk.gray(`  ${t('login_checking')}`));
+  const res = await testApiKey('custom', endpoint.apiKey || '', endpoint);
+  if (!res.valid) {
+      console.log(chalk.red(`  ✗ ${t('error')}: ${res.error}\n`));
+      return;
+  }
+
+  let saved: CustomProvider;
+  if (existing) {
+      const { id, ...updates } = endpoint;
+      ctx.config.updateCustomProvider(existing.id, updates);
+      saved = ctx.config.getCustomProvider(existing.id)!;
+  } else {
+      const { id, ...data } = endpoint;
+      saved = ctx.config.addCustomProvider(data);
+  }
+  console.log(chalk.green(`  ${t('login_custom_saved')}\n`));
+
+  if (ctx.config.getAgents().length === 0) {
+      const create = await ui.select(t('login_create_agent'), [
+          { label: t('login_yes'), value: true },
+          { label: t('login_no'), value: false }
+      ]);
+      if (create) {
+          await createAgent(ctx, 'custom', undefined, saved.id);
       }
   }
 }
 
+// "X-Org: team; api-key: secret" -> { 'X-Org': 'team', 'api-key': 'secret' }
+export function parseHeaders(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of raw.split(/[;\n]/)) {
+      const idx = pair.indexOf(':');
+      if (idx <= 0) continue;
+      const key = pair.slice(0, idx).trim();
+      const value = pair.slice(idx + 1).trim();
+      if (key && value) headers[key] = value;
+  }
+  return headers;
+}
+
 async function cmdAgents(ctx: CommandContext) {
     while (true) {
         const agents = ctx.config.getAgents();
@@ -252,7 +587,8 @@ async function cmdAgents(ctx: CommandContext) {
                 if (a.id === chairId) status = chalk.green(t('agents_chair'));
                 if (a.id === secretaryId) status = chalk.magenta(t('agents_secretary'));
                 
-                console.log(`  ${a.name.padEnd(20)} [${a.providerType}/${a.model}]  ${status}`);
+                const persona = getPersonaName(a.persona);
+                console.log(`  ${a.name.padEnd(20)} [${a.providerType}/${a.model}]  ${status}${persona ? chalk.gray(` · ${persona}`) : ''}`);
             });
         }
         console.log('');
@@ -274,26 +610,39 @@ async function cmdAgents(ctx: CommandContext) {
     }
 }
 
-async function createAgent(ctx: CommandContext, preselectedType?: ProviderType, role?: 'chair' | 'council' | 'secretary') {
+async function createAgent(ctx: CommandContext, preselectedType?: ProviderType, role?: 'chair' | 'council' | 'secretary', customProviderId?: string) {
     const types: ProviderType[] = ['openai', 'anthropic', 'deepseek', 'grok', 'gemini', 'perplexity', 'openrouter'];
     
     let type = preselectedType;
     if (!type) {
-        const typeChoice = await ui.select(t('agents_select_type'), types.map(provider => {
-            const hasKey = !!ctx.config.getApiKey(provider);
-            const indicator = hasKey ? chalk.green('✓') : chalk.red('✗');
-            return { label: `${provider} ${indicator}`, value: provider }; 
-        }));
+        const typeChoice = await ui.select<string>(t('agents_select_type'), [
+            ...types.map(provider => {
+                const hasKey = !!ctx.config.getApiKey(provider);
+                const indicator = hasKey ? chalk.green('✓') : chalk.red('✗');
+                return { label: `${provider} ${indicator}`, value: provider };
+            }),
+            ...ctx.config.getCustomProviders().map(p => ({
+                label: `${p.name} ${chalk.gray('(custom)')} ${chalk.green('✓')}`, value: `custom:${p.id}`
+            }))
+        ]);
         if (!typeChoice) return;
-        type = typeChoice;
+        if (typeChoice.startsWith('custom:')) {
+            type = 'custom';
+            customProviderId = typeChoice.split(':')[1];
+        } else {
+            type = typeChoice as ProviderType;
+        }
     }
+
+    const endpoint = type === 'custom' ? ctx.config.getCustomProvider(customProviderId) : undefined;
+    if (type === 'custom' && !endpoint) return;
     
-    console.log(chalk.gray(`  ${t('agents_loading_models')} ${type}...`));
-    const apiKey = ctx.config.getApiKey(type!);
+    console.log(chalk.gray(`  ${t('agents_loading_models')} ${endpoint ? endpoint.name : type}...`));
+    const apiKey = endpoint ? endpoint.apiKey : ctx.config.getApiKey(type!);
     let model = '';
     
-    if (apiKey) {
-        const models = await fetchModels(type!, apiKey);
+    if (apiKey || endpoint) {
+        const models = await fetchModels(type!, apiKey || '', endpoint);
         if (models.length > 0) {
              let filteredModels = models;
 
@@ -343,7 +692,7 @@ async function createAgent(ctx: CommandContext, preselectedType?: ProviderType,
     
     const name = model; 
     
-    const newAgent = ctx.config.addAgent({ name, providerType: type!, model, enabled: true });
+    const newAgent = ctx.config.addAgent({ name, providerType: type!, model, enabled: true, customProviderId: endpoint?.id });
     
     if (role === 'chair') {
         ctx.config.setChairId(newAgent.id);
@@ -379,6 +728,10 @@ async function editAgent(ctx: CommandContext) {
     
     const action = await ui.select(`${t('agents_action_with')} ${agent.name}`, [
         { label: agent.enabled ? t('agents_toggle_exclude') : t('agents_toggle_include'), value: 'toggle' },
+        { label: `${t('agents_persona')}: ${chalk.yellow(getPersonaName(agent.persona) || t('agents_persona_none'))}`, value: 'persona' },
+        { label: `${t('agents_system_prompt')}: ${agent.systemPrompt ? chalk.yellow(agent.systemPrompt.replace(/\s+/g, ' ').substring(0, 30) + '…') : chalk.gray(t('agents_persona_none'))}`, value: 'system_prompt' },
+        { label: `${t('agents_temperature')}: ${agent.temperature !== undefined ? chalk.yellow(agent.temperature.toString()) : chalk.gray(t('agents_default'))}`, value: 'temperature' },
+        { label: `${t('agents_tool_mode')}: ${agent.toolMode === 'native' ? t('agents_tool_mode_native') : t('agents_tool_mode_markdown')}`, value: 'tool_mode' },
         { label: t('agents_delete'), value: 'delete' },
         { label: t('agents_cancel'), value: 'cancel' }
     ]);
@@ -387,6 +740,41 @@ async function editAgent(ctx: CommandContext) {
         ctx.config.updateAgent(agent.id, { enabled: !agent.enabled });
         console.log(chalk.green(`  ${t('agents_updated')}`));
     }
+
+    if (action === 'persona') {
+        const persona = await ui.select<string>(t('agents_persona'), [
+            { label: t('agents_persona_none'), value: '' },
+            ...PERSONA_IDS.map(id => ({ label: `${t(`persona_${id}`).padEnd(30)} ${chalk.gray(t(`persona_${id}_prompt`).substring(0, 60) + '…')}`, value: id }))
+        ]);
+        if (persona === null) return;
+        ctx.config.updateAgent(agent.id, { persona: persona || undefined });
+        console.log(chalk.green(`  ${t('agents_updated')}`));
+    }
+
+    if (action === 'system_prompt') {
+        if (agent.systemPrompt) console.log(chalk.gray(agent.systemPrompt.split('\n').map(l => `  ${l}`).join('\n')));
+        const text = await ui.readMultiline(chalk.cyan(`\n  ${t('agents_system_prompt_edit')}`));
+        if (text === null) return;
+        ctx.config.updateAgent(agent.id, { systemPrompt: text || undefined });
+        console.log(chalk.green(`  ${t('agents_updated')}`));
+    }
+
+    if (action === 'temperature') {
+        const answer = await ui.input(t('agents_temperature_prompt'));
+        if (!answer) {
+            ctx.config.updateAgent(agent.id, { temperature: undefined });
+        } else {
+            const value = parseFloat(answer.replace(',', '.'));
+            if (isNaN(value)) return;
+            ctx.config.updateAgent(agent.id, { temperature: Math.min(Math.max(value, 0), 2) });
+        }
+        console.log(chalk.green(`  ${t('agents_updated')}`));
+    }
+
+    if (action === 'tool_mode') {
+        ctx.config.updateAgent(agent.id, { toolMode: agent.toolMode === 'native' ? 'markdown' : 'native' });
+        console.log(chalk.green(`  ${t('agents_updated')}`));
+    }
     
     if (action === 'delete') {
         ctx.config.removeAgent(agent.id);
@@ -535,19 +923,75 @@ async function cmdMute(ctx: CommandContext) {
     }
 }
 
+// /plan — переключить режим плана, /plan on|off, /plan <вопрос> — план только для этого запроса
+function cmdPlan(ctx: CommandContext, arg: string): string | undefined {
+    const mode = arg.toLowerCase();
+    if (arg && mode !== 'on' && mode !== 'off') return `plan: ${arg}`;
+
+    const value = arg ? mode === 'on' : !ctx.config.getPlanMode();
+    ctx.config.setPlanMode(value);
+    console.log(chalk.green(`\n  ${t(value ? 'plan_on' : 'plan_off')}`));
+    console.log(chalk.gray(`  ${t('plan_hint')}\n`));
+    return undefined;
+}
+
 async function cmdToggleCouncil(ctx: CommandContext) {
     const current = ctx.config.getCouncilActive();
-    
+    const rounds = ctx.config.getDebateRounds();
+    const convergence = ctx.config.getDebateConvergence();
+    const toolTurns = ctx.config.getCouncilToolTurns();
+    const maxTurns = ctx.council.getMaxTurns();
+
     console.log(chalk.cyan(`\n  ${t('council_menu_title')}`));
-    
+
     const choice = await ui.select('', [
         { label: current ? chalk.gray(t('council_menu_enable')) + chalk.green(' (Active)') : t('council_menu_enable'), value: 'enable' },
         { label: !current ? chalk.gray(t('council_menu_disable')) + chalk.green(' (Active)') : t('council_menu_disable'), value: 'disable' },
+        { label: `${t('council_menu_rounds')}: ${chalk.yellow(rounds.toString())}`, value: 'rounds' },
+        { label: `${t('council_menu_convergence')} ${convergence ? chalk.green(`[${t('settings_on')}]`) : chalk.red(`[${t('settings_off')}]`)}`, value: 'convergence' },
+        { label: `${t('council_menu_turns')}: ${chalk.yellow(maxTurns.toString())}`, value: 'turns' },
+        { label: `${t('council_menu_tools')}: ${toolTurns > 0 ? chalk.yellow(toolTurns.toString()) : chalk.red(`[${t('settings_off')}]`)}`, value: 'tools' },
         { label: t('council_menu_cancel'), value: 'cancel' }
     ]);
 
     if (!choice || choice === 'cancel') return;
 
+    if (choice === 'rounds') {
+        const answer = await ui.input(t('council_rounds_prompt'), rounds.toString());
+        const value = parseInt(answer, 10);
+        if (isNaN(value)) return;
+        const clamped = Math.min(Math.max(value, 1), 5);
+        ctx.config.setDebateRounds(clamped);
+        console.log(chalk.green(`\n  ${t('council_rounds_set')}: ${clamped}\n`));
+        return;
+    }
+
+    if (choice === 'turns') {
+        // Пусто — лимит по умолчанию; значение сохраняется в активную команду
+        const answer = (await ui.input(t('council_turns_prompt'), maxTurns.toString())).trim();
+        const value = parseInt(answer, 10);
+        if (answer && isNaN(value)) return;
+        ctx.config.setMaxTurns(answer ? Math.min(Math.max(value, 1), 50) : undefined);
+        console.log(chalk.green(`\n  ${t('council_turns_set')}: ${ctx.council.getMaxTurns()}\n`));
+        return;
+    }
+
+    if (choice === 'tools') {
+        const answer = await ui.input(t('council_tools_prompt'), toolTurns.toString());
+        const value = parseInt(answer, 10);
+        if (isNaN(value)) return;
+        const clamped = Math.min(Math.max(value, 0), 5);
+        ctx.config.setCouncilToolTurns(clamped);
+        console.log(chalk.green(`\n  ${t('council_tools_set')}: ${clamped || t('settings_off')}\n`));
+        return;
+    }
+
+    if (choice === 'convergence') {
+        ctx.config.setDebateConvergence(!convergence);
+        console.log(chalk.green(`\n  ${t('council_menu_convergence')}: ${!convergence ? t('settings_on') : t('settings_off')}\n`));
+        return;
+    }
+
     if (choice === 'enable') {
         if (!current) {
             ctx.config.setCouncilActive(true);
@@ -581,13 +1025,27 @@ async function cmdDoctor(ctx: CommandContext) {
     console.log('');
 }
 
-async function cmdCompact(ctx: CommandContext) {
-    const before = ctx.history.getMessages().length;
-    ctx.history.compact(10); 
-    const after = ctx.history.getMessages().length;
+// /compact — сводка старой части истории; /compact expand — вернуть исходные сообщения из архива
+async function cmdCompact(ctx: CommandContext, arg?: string) {
+    if (arg === 'expand') {
+        const restored = ctx.history.expandSummary();
+        if (restored === 0) {
+            console.log(chalk.gray(`\n  ${t('compact_nothing_to_expand')}\n`));
+        } else {
+            console.log(chalk.green(`\n  ${t('compact_expanded')}: ${restored}`));
+            console.log(chalk.gray(`  (${t('compact_left')}: ${ctx.history.getMessages().length})\n`));
+        }
+        return;
+    }
+
+    const result = await ctx.council.compactHistory({ keepCount: 10 }, event => {
+        if (event.type === 'error') console.log(chalk.red(`  ✗ ${event.message}`));
+        else if (event.message) console.log(chalk.gray(`  ${event.message}`));
+    });
     
-    console.log(chalk.green(`\n  ${t('compact_done')}: ${Math.max(0, before - after)}`));
-    console.log(chalk.gray(`  (${t('compact_left')}: ${after})\n`));
+    console.log(chalk.green(`\n  ${t('compact_done')}: ${result.removed}`));
+    if (result.summarizedBy) console.log(chalk.gray(`  ${t('compact_summary_by')}: ${result.summarizedBy} (/compact expand)`));
+    console.log(chalk.gray(`  (${t('compact_left')}: ${ctx.history.getMessages().length}, ~${result.tokensBefore} -> ~${result.tokensAfter} tok)\n`));
 }
 
 async function cmdStats(ctx: CommandContext) {
@@ -659,4 +1117,688 @@ async function cmdStats(ctx: CommandContext) {
 
     console.log(table.toString());
     console.log('');
-}
\ No newline at end of file
+}
+
+const COST_TABLE_STYLE = {
+    chars: {
+        'top': '' , 'top-mid': '' , 'top-left': '' , 'top-right': '',
+        'bottom': '' , 'bottom-mid': '' , 'bottom-left': '' , 'bottom-right': '',
+        'left': '' , 'left-mid': '' , 'mid': '' , 'mid-mid': '',
+        'right': '' , 'right-mid': '' , 'middle': ' '
+    },
+    style: { 'padding-left': 2, 'padding-right': 1, compact: true }
+};
+
+function formatTokens(n: number): string {
+    if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+    if (n >= 1000) return `${(n / 1000).toFixed(1)}k`;
+    return n.toString();
+}
+
+export function formatCost(usd: number): string {
+    return usd >= 1 ? `$${usd.toFixed(2)}` : `$${usd.toFixed(4)}`;
+}
+
+function costRow(name: string, totals: UsageTotals): string[] {
+    return [
+        name,
+        totals.calls.toString(),
+        formatTokens(totals.input),
+        formatTokens(totals.output),
+        formatTokens(totals.cached),
+        formatTokens(totals.reasoning),
+        chalk.yellow(formatCost(totals.cost))
+    ];
+}
+
+function printCostTable(title: string, records: UsageRecord[]) {
+    console.log(chalk.cyan(`  ${title}`));
+    if (records.length === 0) {
+        console.log(chalk.gray(`  ${t('stats_no_data')}\n`));
+        return;
+    }
+
+    const summary = summarizeUsage(records);
+    const table = new Table({
+        head: [
+            t('cost_col_name'), t('cost_col_calls'), t('cost_col_in'), t('cost_col_out'),
+            t('cost_col_cached'), t('cost_col_reasoning'), t('cost_col_cost')
+        ].map(h => chalk.white(h)),
+        ...COST_TABLE_STYLE
+    });
+
+    Object.values(summary.byAgent).forEach(a => table.push(costRow(a.name, a)));
+    Object.entries(summary.byProvider).forEach(([provider, totals]) => table.push(costRow(chalk.gray(provider), totals).map(c => chalk.gray(c))));
+    table.push(costRow(chalk.bold(t('cost_total')), summary.total));
+
+    console.log(table.toString());
+    console.log('');
+}
+
+function cmdCost(ctx: CommandContext) {
+    const tracker = ctx.council.getUsage();
+    const session = tracker.getSessionRecords();
+    const all = tracker.loadAll();
+
+    console.log(chalk.cyan(`\n  💰 ${t('cost_title')}\n`));
+
+    // Разбивка последнего запроса: Совет (по раундам), ходы Председателя, Секретарь
+    const last = session[session.length - 1];
+    if (last) {
+        console.log(chalk.cyan(`  ${t('cost_last_ask')}`));
+        for (const r of tracker.getAskRecords(last.askId)) {
+            let label = t('agents_council');
+            if (r.role === 'chair') label = `${t('agents_chair')} (${t('cost_turn')} ${r.turn})`;
+            else if (r.role === 'secretary') label = t('agents_secretary');
+            else if (r.turn && r.turn > 1) label += ` (${t('cost_round')} ${r.turn})`;
+            console.log(`    ${label} ${chalk.white(r.agentName)}: ` +
+                chalk.gray(`${formatTokens(r.usage.input)} / ${formatTokens(r.usage.output)} `) + chalk.yellow(formatCost(r.cost)));
+        }
+        console.log('');
+    }
+
+    printCostTable(t('cost_session'), session);
+    printCostTable(t('cost_today'), tracker.getTodayRecords(all));
+    printCostTable(t('cost_all_time'), all);
+
+    if (session.some(r => r.cost === 0 && !getModelInfo(r.model))) {
+        console.log(chalk.gray(`  ${t('cost_unpriced')}\n`));
+    }
+}
+
+// depth — уровень ветки в дереве сессий (/branch)
+export function formatSessionLabel(session: SessionSummary, currentId?: string, depth: number = 0): string {
+    const marker = session.id === currentId ? chalk.green('● ') : '  ';
+    const date = new Date(session.updated).toLocaleString(getLanguage() === 'ru' ? 'ru-RU' : 'en-US', { dateStyle: 'short', timeStyle: 'short' });
+    const details = [`${session.messageCount} ${t('sessions_messages')}`, session.team, session.cwd.replace(os.homedir(), '~')].filter(Boolean).join(' · ');
+    const indent = depth > 0 ? chalk.gray(`${'  '.repeat(depth - 1)}└ `) : '';
+    return `${marker}${chalk.gray(date.padEnd(18))} ${indent}${session.title || t('sessions_untitled')} ${chalk.gray(details)}`;
+}
+
+// Список, поиск, возобновление, переименование и удаление сессий; /sessions <текст> — сразу поиск
+async function cmdSessions(ctx: CommandContext, query?: string) {
+    while (true) {
+        const currentId = ctx.history.getMeta().id;
+        const sessions = query ? ctx.history.searchSessions(query) : ctx.history.listSessions();
+
+        console.log(chalk.cyan(`\n  ${t('sessions_title')}`));
+        if (query) console.log(chalk.gray(`  ${t('sessions_search')}: "${query}" — ${sessions.length}`));
+        if (sessions.length === 0) console.log(chalk.gray(`  ${t('sessions_empty')}`));
+        console.log('');
+
+        const choice = await ui.select('', [
+            // Без поиска — деревом: ветки под родительскими сессиями
+            ...(query ? sessions.map(session => ({ session, depth: 0 })) : sessionTree(sessions))
+                .map(({ session, depth }) => ({ label: formatSessionLabel(session, currentId, depth), value: session.id })),
+            { label: chalk.cyan(`🔍 ${t('sessions_search')}`), value: '__search' },
+            ...(query ? [{ label: t('sessions_all'), value: '__all' }] : []),
+            { label: t('settings_back'), value: '__back' }
+        ]);
+
+        if (!choice || choice === '__back') break;
+        if (choice === '__search') {
+            query = (await ui.input(t('sessions_search_prompt')))?.trim() || undefined;
+            continue;
+        }
+        if (choice === '__all') {
+            query = undefined;
+            continue;
+        }
+
+        const session = sessions.find(s => s.id === choice);
+        if (!session) continue;
+
+        const action = await ui.select(session.title || t('sessions_untitled'), [
+            ...(session.id !== currentId ? [{ label: t('sessions_resume'), value: 'resume' }] : []),
+            { label: t('sessions_rename'), value: 'rename' },
+            { label: chalk.red(t('sessions_delete')), value: 'delete' },
+            { label: t('settings_back'), value: 'back' }
+        ]);
+
+        if (action === 'resume') {
+            if (ctx.history.load(session.id)) {
+                console.log(chalk.green(`  ${t('history_loaded')}: ${session.title}`));
+                if (session.cwd !== process.cwd()) console.log(chalk.gray(`  ${t('sessions_cwd_hint')}: ${session.cwd}`));
+                break;
+            }
+        }
+
+        if (action === 'rename') {
+            const title = (await ui.input(t('sessions_rename'), session.title))?.trim();
+            if (!title || title === session.title) continue;
+            ctx.history.renameSession(session.id, title);
+            console.log(chalk.green(`  ${t('agents_updated')}`));
+        }
+
+        if (action === 'delete') {
+            const confirm = await ui.select(`${t('sessions_delete_confirm')} "${session.title}"?`, [
+                { label: t('yes'), value: true },
+                { label: t('no'), value: false }
+            ]);
+            if (!confirm) continue;
+            ctx.history.deleteSession(session.id);
+            console.log(chalk.green(`  ${t('sessions_deleted')}`));
+        }
+    }
+}
+
+// /export [md|html|json] [файл] — стенограмма текущей сессии; без формата — выбор из списка
+async function cmdExport(ctx: CommandContext, args: string[]) {
+    const messages = ctx.history.getMessages();
+    if (messages.length === 0) {
+        console.log(chalk.gray(`\n  ${t('export_empty')}\n`));
+        return;
+    }
+
+    let format = args[0]?.toLowerCase().replace(/^\./, '') as ExportFormat | undefined;
+    if ((format as string) === 'markdown') format = 'md';
+    if (format && !EXPORT_FORMATS.includes(format)) {
+        console.log(chalk.red(`\n  ${t('export_bad_format')}: ${args[0]} (${EXPORT_FORMATS.join(', ')})\n`));
+        return;
+    }
+    if (!format) {
+        format = await ui.select<ExportFormat>(t('export_format'), [
+            { label: 'Markdown (.md)', value: 'md' },
+            { label: 'HTML (.html)', value: 'html' },
+            { label: 'JSON (.json)', value: 'json' }
+        ]) || undefined;
+        if (!format) return;
+    }
+
+    const meta = ctx.history.getMeta();
+    const rawPath = args.slice(1).join(' ').replace(/^~(?=$|\/)/, os.homedir());
+    const file = path.resolve(rawPath || defaultExportName(meta, format));
+
+    try {
+        const transcript = buildTranscript(meta, messages, ctx.council.getUsage().loadAll(), id => ctx.config.getAgent(id));
+        const images = writeExport(transcript, format, file);
+        console.log(chalk.green(`\n  ${t('export_done')}: ${file}`));
+        if (images > 0) console.log(chalk.gray(`  ${t('export_images')}: ${images}`));
+        console.log('');
+    } catch (err: any) {
+        console.log(chalk.red(`\n  ${t('export_failed')}: ${err.message}\n`));
+    }
+}
+
+function questionLabel(text: string, n: number): string {
+    const line = text.replace(/\s+/g, ' ').trim();
+    return `${chalk.gray(`#${n}`.padEnd(4))} ${line.length > 70 ? line.substring(0, 69) + '…' : line}`;
+}
+
+// /rewind — выбрать прежний вопрос, отрезать историю с него и задать его заново
+async function cmdRewind(ctx: CommandContext): Promise<string | null> {
+    const messages = ctx.history.getMessages();
+    const indexes = questionIndexes(messages);
+    if (indexes.length === 0) {
+        console.log(chalk.gray(`\n  ${t('rewind_empty')}\n`));
+        return null;
+    }
+
+    const index = await ui.select<number>(t('rewind_select'), [
+        ...indexes.map((i, n) => ({ label: questionLabel(messages[i].text, n + 1), value: i })).reverse(),
+        { label: t('settings_back'), value: -1 }
+    ]);
+    if (index === null || index === -1) return null;
+
+    const question = messages[index].text;
+    const removed = messages.length - index;
+    ctx.history.truncate(index);
+    console.log(chalk.green(`\n  ${t('rewind_done')}: ${removed}\n`));
+    return question;
+}
+
+// /branch — новая сессия из текущей до выбранного места; родитель остается как был
+async function cmdBranch(ctx: CommandContext) {
+    const messages = ctx.history.getMessages();
+    const indexes = questionIndexes(messages);
+
+    // Точка ветвления — после ответа на выбранный вопрос (т.е. перед следующим вопросом)
+    const count = await ui.select<number>(t('branch_select'), [
+        { label: t('branch_current'), value: messages.length },
+        ...indexes.slice(0, -1).map((i, n) => ({
+            label: `${t('branch_after')} ${questionLabel(messages[i].text, n + 1)}`,
+            value: indexes[n + 1]
+        })).reverse(),
+        { label: t('settings_back'), value: -1 }
+    ]);
+    if (count === null || count === -1) return;
+
+    const parent = ctx.history.getMeta();
+    const defaultTitle = `${parent.title || t('sessions_untitled')} (${t('branch_suffix')})`;
+    const title = (await ui.input(t('branch_title'), defaultTitle))?.trim() || defaultTitle;
+    ctx.history.branch(count, title);
+    ctx.council.resetStats();
+    console.log(chalk.green(`\n  ${t('branch_done')}: ${title}`));
+    console.log(chalk.gray(`  ${t('branch_parent')}: ${parent.title || parent.id} · ${count} ${t('sessions_messages')}\n`));
+}
+
+// /retry [team <имя> | chair <имя>] — повторить последний вопрос, при желании другой командой или Председателем
+function cmdRetry(ctx: CommandContext, args: string[]): string | null {
+    const messages = ctx.history.getMessages();
+    const last = questionIndexes(messages).pop();
+    if (last === undefined) {
+        console.log(chalk.gray(`\n  ${t('rewind_empty')}\n`));
+        return null;
+    }
+
+    const [target, ...rest] = args;
+    const name = rest.join(' ').trim();
+    if (target && (!['team', 'chair'].includes(target) || !name)) {
+        console.log(chalk.red(`\n  ${t('retry_usage')}\n`));
+        return null;
+    }
+
+    if (target === 'team') {
+        const team = ctx.config.findTeam(name);
+        if (!team) {
+            console.log(chalk.red(`\n  ${t('team_not_found')}: ${name}\n`));
+            return null;
+        }
+        ctx.config.switchTeam(team.id);
+        console.log(chalk.green(`\n  ${t('team_switched')}: ${team.name}`));
+    }
+
+    if (target === 'chair') {
+        const agent = ctx.config.getAgents().find(a => a.id === name || a.name.toLowerCase() === name.toLowerCase());
+        if (!agent) {
+            console.log(chalk.red(`\n  ${t('retry_agent_not_found')}: ${name}\n`));
+            return null;
+        }
+        if (!agent.enabled) ctx.config.updateAgent(agent.id, { enabled: true });
+        ctx.config.setChairId(agent.id);
+        console.log(chalk.green(`\n  ${t('chair_assigned')}: ${agent.name}`));
+    }
+
+    const question = messages[last].text;
+    ctx.history.truncate(last);
+    console.log(chalk.gray(`  ${t('retry_running')}\n`));
+    return question;
+}
+
+function displayPath(file: string): string {
+    const rel = path.relative(process.cwd(), file);
+    return rel && !rel.startsWith('..') && !path.isAbsolute(rel) ? rel : file;
+}
+
+function checkpointLabel(cp: Checkpoint, n: number): string {
+    const date = new Date(cp.created).toLocaleString(getLanguage() === 'ru' ? 'ru-RU' : 'en-US', { dateStyle: 'short', timeStyle: 'short' });
+    const question = cp.question.replace(/\s+/g, ' ').trim();
+    const label = `${chalk.gray(`#${n}`.padEnd(4))} ${chalk.gray(date.padEnd(18))} ${question.length > 50 ? question.substring(0, 49) + '…' : question} ` +
+        chalk.gray(`· ${cp.files.length} ${t('changes_files')}`);
+    return cp.undoneAt ? chalk.gray(`${label} (${t('changes_undone')})`) : label;
+}
+
+function printDiff(diff: string) {
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('+++') || line.startsWith('---')) console.log(chalk.bold(`  ${line}`));
+        else if (line.startsWith('@@')) console.log(chalk.cyan(`  ${line}`));
+        else if (line.startsWith('+')) console.log(chalk.green(`  ${line}`));
+        else if (line.startsWith('-')) console.log(chalk.red(`  ${line}`));
+        else console.log(chalk.gray(`  ${line}`));
+    }
+}
+
+function printCheckpoint(cp: Checkpoint) {
+    for (const f of cp.files) {
+        const name = displayPath(f.path);
+        if (f.binary || f.after === undefined) {
+            console.log(chalk.yellow(`\n  ${name}: ${t('changes_no_diff')}`));
+            continue;
+        }
+        const diff = unifiedDiff(f.before, f.after, name);
+        console.log('');
+        if (diff) printDiff(diff);
+        else console.log(chalk.gray(`  ${name}: ${t('changes_identical')}`));
+    }
+    console.log('');
+}
+
+// Откат чекпоинта с подтверждением; предупреждает о файлах, измененных после агента
+async function undoCheckpoint(ctx: CommandContext, cp: Checkpoint) {
+    const store = ctx.council.getCheckpoints();
+    console.log(chalk.cyan(`\n  ${t('undo_title')}: ${cp.question.replace(/\s+/g, ' ').substring(0, 60)}`));
+    for (const f of cp.files) {
+        console.log(`    ${f.before === null ? chalk.red(t('undo_delete')) : chalk.yellow(t('undo_restore'))} ${displayPath(f.path)}`);
+    }
+    const conflicts = store.conflicts(cp);
+    if (conflicts.length > 0) {
+        console.log(chalk.yellow(`\n  ⚠️  ${t('undo_conflicts')}:`));
+        conflicts.forEach(f => console.log(chalk.yellow(`    ${displayPath(f)}`)));
+    }
+
+    const confirm = await ui.select(t('undo_confirm'), [
+        { label: t('yes'), value: true },
+        { label: t('no'), value: false }
+    ]);
+    if (!confirm) return;
+
+    try {
+        const result = store.undo(cp);
+        console.log(chalk.green(`\n  ${t('undo_done')}: ${result.restored.length} ${t('undo_restored')}, ${result.deleted.length} ${t('undo_deleted')}\n`));
+    } catch (err: any) {
+        console.log(chalk.red(`\n  ${t('error')}: ${err.message}\n`));
+    }
+}
+
+// /changes — файлы, измененные агентами в этой сессии, с диффами
+async function cmdChanges(ctx: CommandContext) {
+    while (true) {
+        const checkpoints = ctx.council.getCheckpoints().list(ctx.history.getMeta().id);
+        if (checkpoints.length === 0) {
+            console.log(chalk.gray(`\n  ${t('changes_empty')}\n`));
+            return;
+        }
+
+        console.log(chalk.cyan(`\n  ${t('changes_title')}\n`));
+        const choice = await ui.select<number>('', [
+            ...checkpoints.map((cp, i) => ({ label: checkpointLabel(cp, i + 1), value: i })),
+            { label: t('settings_back'), value: -1 }
+        ]);
+        if (choice === null || choice === -1) return;
+
+        const cp = checkpoints[choice];
+        printCheckpoint(cp);
+        if (cp.undoneAt) continue;
+
+        const action = await ui.select('', [
+            { label: t('changes_undo'), value: 'undo' },
+            { label: t('settings_back'), value: 'back' }
+        ]);
+        if (action === 'undo') await undoCheckpoint(ctx, cp);
+    }
+}
+
+// /undo — откатить последний запрос; /undo <n> — запрос с номером n из /changes
+async function cmdUndo(ctx: CommandContext, arg?: string) {
+    const checkpoints = ctx.council.getCheckpoints().list(ctx.history.getMeta().id);
+    let cp: Checkpoint | undefined;
+    if (arg) {
+        const n = parseInt(arg, 10);
+        cp = checkpoints[n - 1];
+        if (!cp) {
+            console.log(chalk.red(`\n  ${t('undo_not_found')}: ${arg}\n`));
+            return;
+        }
+        if (cp.undoneAt) {
+            console.log(chalk.gray(`\n  ${t('changes_undone')}\n`));
+            return;
+        }
+    } else {
+        cp = checkpoints.find(c => !c.undoneAt);
+    }
+    if (!cp) {
+        console.log(chalk.gray(`\n  ${t('changes_empty')}\n`));
+        return;
+    }
+    await undoCheckpoint(ctx, cp);
+}
+
+function policyActionLabel(action: PolicyAction): string {
+    if (action === 'deny') return chalk.red(action.toUpperCase());
+    if (action === 'ask') return chalk.yellow(action.toUpperCase());
+    return chalk.green(action.toUpperCase());
+}
+
+function policyRuleLabel(rule: PolicyRule): string {
+    return `${policyActionLabel(rule.action)} ${chalk.white(rule.pattern)} ${chalk.gray(`[${rule.source}]${rule.reason ? ` ${rule.reason}` : ''}`)}`;
+}
+
+// /policy — правила команд; /policy test <команда> — проверить команду без запуска
+function cmdPolicy(args: string[]) {
+    const projectDir = process.cwd();
+    const policy = loadCommandPolicy(projectDir);
+
+    if (args[0] === 'test') {
+        const command = args.slice(1).join(' ');
+        if (!command) {
+            console.log(chalk.gray(`\n  ${t('policy_test_usage')}\n`));
+            return;
+        }
+        const decision = evaluateCommand(command, policy);
+        console.log('');
+        for (const segment of decision.segments) {
+            console.log(`  ${policyActionLabel(segment.action)} ${chalk.white(segment.command)}`);
+            console.log(chalk.gray(`    ${segment.rule ? policyRuleLabel(segment.rule) : t('policy_no_rule')}`));
+        }
+        console.log(`\n  ${t('policy_result')}: ${policyActionLabel(decision.action)}\n`);
+        return;
+    }
+
+    const projectFile = path.join(projectDir, PROJECT_POLICY_NAME);
+    console.log(chalk.cyan(`\n  ${t('policy_title')}\n`));
+    for (const file of [GLOBAL_POLICY_FILE, projectFile]) {
+        const exists = fs.existsSync(file);
+        console.log(`  ${exists ? chalk.green('✓') : chalk.gray('–')} ${displayPath(file).replace(os.homedir(), '~')}${exists ? '' : chalk.gray(` (${t('policy_missing')})`)}`);
+    }
+    console.log(`\n  ${t('policy_default')}: ${policyActionLabel(policy.defaultAction)}`);
+    console.log(chalk.cyan(`\n  ${t('policy_rules')}:`));
+    for (const rule of policy.rules) console.log(`    ${policyRuleLabel(rule)}`);
+    if (policy.errors.length > 0) {
+        console.log(chalk.red(`\n  ${t('policy_errors')}:`));
+        for (const error of policy.errors) console.log(chalk.red(`    ${error}`));
+    }
+    console.log(chalk.gray(`\n  ${t('policy_hint')}\n`));
+}
+
+// Что было замаскировано перед отправкой провайдерам в последнем запросе (сами значения не показываем)
+function cmdRedactions(ctx: CommandContext) {
+    const redactions = ctx.council.getRedactor().lastAsk();
+    if (redactions.length === 0) {
+        console.log(chalk.gray(`\n  ${t('redactions_empty')}\n`));
+        return;
+    }
+
+    console.log(chalk.cyan(`\n  ${t('redactions_title')}\n`));
+    for (const r of redactions) {
+        console.log(`  ${chalk.yellow(r.placeholder)} ${chalk.gray(`${t(`redaction_${r.kind}`)}, ${maskValue(r.value)}`)}`);
+    }
+    console.log(chalk.gray(`\n  ${t('redactions_hint')}\n`));
+}
+
+function auditLine(event: AuditEvent): string {
+    const time = new Date(event.ts).toLocaleString();
+    const decision = event.decision.startsWith('denied') || event.decision === 'rejected'
+        ? chalk.red(event.decision)
+        : event.decision === 'allowed' ? chalk.green(event.decision) : chalk.yellow(event.decision);
+    const target = (event.arg || event.content).replace(/\s+/g, ' ');
+    const exit = event.exitCode !== undefined ? ` exit=${event.exitCode}` : '';
+    return `  ${chalk.gray(time)} ${decision} ${chalk.cyan(event.tool)} ${chalk.white(target.length > 80 ? target.substring(0, 77) + '...' : target)}` +
+        chalk.gray(` ${event.agentName}${exit} ${event.durationMs}ms`);
+}
+
+// /audit [N] [tool=..] [decision=..] [session=<id>|current] [since=2h|7d|YYYY-MM-DD] [текст]
+function cmdAudit(ctx: CommandContext, args: string[]) {
+    const filter: AuditFilter = {};
+    let limit = 20;
+    const text: string[] = [];
+
+    for (const arg of args) {
+        const [key, ...rest] = arg.split('=');
+        const value = rest.join('=');
+        if (/^\d+$/.test(arg)) limit = parseInt(arg, 10);
+        else if (key === 'tool' && value) filter.tool = value;
+        else if (key === 'decision' && value) filter.decision = value;
+        else if (key === 'session' && value) filter.sessionId = value === 'current' ? ctx.history.getMeta().id : value;
+        else if (key === 'since' && value) {
+            filter.since = parseSince(value);
+            if (filter.since === undefined) {
+                console.log(chalk.red(`\n  ${t('audit_bad_since')}: ${value}\n`));
+                return;
+            }
+        } else text.push(arg);
+    }
+    if (text.length > 0) filter.text = text.join(' ');
+
+    const events = new AuditLog().read(filter, limit);
+    if (events.length === 0) {
+        console.log(chalk.gray(`\n  ${t('audit_empty')}\n`));
+        return;
+    }
+    console.log(chalk.cyan(`\n  ${t('audit_title')} (${events.length})\n`));
+    for (const event of events) console.log(auditLine(event));
+    console.log(chalk.gray(`\n  ${t('audit_hint')}: ${AUDIT_DIR.replace(os.homedir(), '~')}\n`));
+}
+
+function describeTeam(ctx: CommandContext, team: TeamPreset): string {
+    const chair = team.chairAgentId ? ctx.config.getAgent(team.chairAgentId) : undefined;
+    const members = team.memberIds.filter(id => id !== team.chairAgentId && id !== team.secretaryAgentId).length;
+    const turns = team.maxTurns ? `, ${t('team_turns')}: ${team.maxTurns}` : '';
+    return `${t('team_chair')}: ${chair ? chair.name : '—'}, ${t('team_members')}: ${members}${turns}`;
+}
+
+// Переключение по имени: /team <имя>; без аргумента — меню
+async function cmdTeam(ctx: CommandContext, arg?: string) {
+    if (arg) {
+        const team = ctx.config.findTeam(arg);
+        if (!team) {
+            console.log(chalk.red(`\n  ${t('team_not_found')}: ${arg}\n`));
+            return;
+        }
+        ctx.config.switchTeam(team.id);
+        console.log(chalk.green(`\n  ${t('team_switched')}: ${team.name}\n`));
+        return;
+    }
+
+    while (true) {
+        const active = ctx.config.getActiveTeam();
+        const teams = ctx.config.getTeams();
+
+        console.log(chalk.cyan(`\n  ${t('team_title')}`));
+        console.log(chalk.gray(`  ${t('team_active')}: ${active ? active.name : t('team_none')}\n`));
+
+        const choice = await ui.select('', [
+            ...teams.map(team => ({
+                label: `${team.id === active?.id ? chalk.green('●') : ' '} ${team.name.padEnd(20)} ${chalk.gray(describeTeam(ctx, team))}`,
+                value: team.id
+            })),
+            { label: chalk.green(`+ ${t('team_create')}`), value: '__create' },
+            { label: t('settings_back'), value: '__back' }
+        ]);
+
+        if (!choice || choice === '__back') break;
+
+        if (choice === '__create') {
+            const name = (await ui.input(t('team_name')))?.trim();
+            if (!name) continue;
+            if (ctx.config.findTeam(name)) {
+                console.log(chalk.red(`  ✗ ${t('team_exists')}`));
+                continue;
+            }
+            ctx.config.createTeam(name);
+            console.log(chalk.green(`  ${t('team_created')}: ${name}`));
+            continue;
+        }
+
+        const team = ctx.config.getTeam(choice);
+        if (!team) continue;
+
+        const action = await ui.select(team.name, [
+            { label: t('team_switch'), value: 'switch' },
+            { label: t('team_clone'), value: 'clone' },
+            { label: t('team_rename'), value: 'rename' },
+            { label: chalk.red(t('team_delete')), value: 'delete' },
+            { label: t('settings_back'), value: 'back' }
+        ]);
+
+        if (action === 'switch') {
+            ctx.config.switchTeam(team.id);
+            console.log(chalk.green(`  ${t('team_switched')}: ${team.name}`));
+        }
+
+        if (action === 'clone' || action === 'rename') {
+            const name = (await ui.input(t('team_name'), action === 'clone' ? `${team.name} 2` : team.name))?.trim();
+            if (!name || name === team.name) continue;
+            if (ctx.config.findTeam(name)) {
+                console.log(chalk.red(`  ✗ ${t('team_exists')}`));
+                continue;
+            }
+            if (action === 'clone') ctx.config.cloneTeam(team.id, name);
+            else ctx.config.renameTeam(team.id, name);
+            console.log(chalk.green(`  ${t('agents_updated')}`));
+        }
+
+        if (action === 'delete') {
+            const confirm = await ui.select(`${t('team_delete_confirm')} ${team.name}?`, [
+                { label: t('yes'), value: true },
+                { label: t('no'), value: false }
+            ]);
+            if (!confirm) continue;
+            ctx.config.deleteTeam(team.id);
+            console.log(chalk.green(`  ${t('team_deleted')}: ${team.name}`));
+        }
+    }
+}
+
+// Ввод лимита в USD: пусто или 0 — без лимита
+async function inputLimit(prompt: string, current?: number): Promise<number | undefined | null> {
+    const currentStr = current !== undefined ? ` [${formatCost(current)}]` : '';
+    const answer = await ui.input(`${prompt}${currentStr} (${t('budget_limit_hint')})`);
+    if (!answer || answer === '0') return undefined;
+    const value = parseFloat(answer.replace(',', '.').replace('$', ''));
+    if (isNaN(value) || value < 0) {
+        console.log(chalk.red(`  ✗ ${t('budget_invalid')}`));
+        return null;
+    }
+    return value;
+}
+
+async function cmdBudget(ctx: CommandContext) {
+    const policies: BudgetPolicy[] = ['warn', 'skip_expensive', 'chair_only', 'refuse'];
+
+    while (true) {
+        const budget: BudgetConfig = { ...ctx.config.getBudget() };
+        const usage = ctx.council.getUsage();
+        const remaining = getRemaining(budget, usage.getSessionRecords(), usage.getTodayRecords());
+        const show = (v?: number) => v !== undefined ? chalk.yellow(formatCost(v)) : chalk.gray(t('budget_none'));
+
+        console.log(chalk.cyan(`\n  ${t('budget_title')}`));
+        if (remaining !== undefined) {
+            console.log(chalk.gray(`  ${t('budget_left')}: ${formatCost(Math.max(remaining, 0))}\n`));
+        }
+
+        const agentLimits = Object.keys(budget.perAgent || {}).length;
+        const choice = await ui.select('', [
+            { label: `${t('budget_session').padEnd(30)} ${show(budget.session)}`, value: 'session' },
+            { label: `${t('budget_daily').padEnd(30)} ${show(budget.daily)}`, value: 'daily' },
+            { label: `${t('budget_per_agent').padEnd(30)} ${agentLimits > 0 ? chalk.yellow(agentLimits.toString()) : chalk.gray(t('budget_none'))}`, value: 'agent' },
+            { label: `${t('budget_policy').padEnd(30)} ${chalk.green(t(`budget_policy_${getPolicy(budget)}`))}`, value: 'policy' },
+            { label: t('settings_back'), value: 'back' }
+        ]);
+
+        if (!choice || choice === 'back') break;
+
+        if (choice === 'session' || choice === 'daily') {
+            const value = await inputLimit(t(`budget_${choice}`), budget[choice]);
+            if (value === null) continue;
+            budget[choice] = value;
+        }
+
+        if (choice === 'agent') {
+            const agents = ctx.config.getAgents();
+            if (agents.length === 0) continue;
+            const agentId = await ui.select(t('agents_select_agent'), agents.map(a => ({
+                label: `${a.name} ${budget.perAgent?.[a.id] !== undefined ? chalk.yellow(formatCost(budget.perAgent[a.id])) : ''}`,
+                value: a.id
+            })));
+            if (!agentId) continue;
+            const value = await inputLimit(t('budget_per_agent'), budget.perAgent?.[agentId]);
+            if (value === null) continue;
+            const perAgent = { ...(budget.perAgent || {}) };
+            if (value === undefined) delete perAgent[agentId];
+            else perAgent[agentId] = value;
+            budget.perAgent = perAgent;
+        }
+
+        if (choice === 'policy') {
+            const policy = await ui.select(t('budget_policy'), policies.map(p => ({
+                label: `${t(`budget_policy_${p}`).padEnd(30)} ${chalk.gray(t(`budget_policy_${p}_desc`))}`,
+                value: p
+            })));
+            if (!policy) continue;
+            budget.policy = policy;
+        }
+
+        ctx.config.setBudget(budget);
+        console.log(chalk.green(`  ${t('agents_updated')}`));
+    }
+}
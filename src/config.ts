@@ -2,15 +2,21 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
-import { AppConfig, AgentConfig, ProviderType, AppPermissions } from './types.js';
+import { AppConfig, AgentConfig, ProviderType, AppPermissions, CustomProvider, BudgetConfig, TeamPreset, WorkspaceConfig } from './types.js';
 
 const CONFIG_DIR = path.join(os.homedir(), '.council-ai');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config_v2.json');
 
+export interface ConfigOptions {
+  persist?: boolean; // false — изменения (команда, права) живут только в памяти, как в `hause ask`
+}
+
 export class ConfigManager {
   private config: AppConfig = { apiKeys: {}, agents: [] };
+  private persist: boolean;
 
-  constructor() {
+  constructor(options: ConfigOptions = {}) {
+    this.persist = options.persist ?? true;
     this.load();
   }
 
@@ -94,6 +100,7 @@ export class ConfigManager {
       
       // Filter out agents where the provider has no API key
       this.config.agents = this.config.agents.filter(a => {
+          if (a.providerType === 'custom') return !!this.getCustomProvider(a.customProviderId); // Ключ необязателен
           const key = this.config.apiKeys[a.providerType];
           return !!key; // Keep only if key exists
       });
@@ -123,6 +130,8 @@ export class ConfigManager {
   }
 
   private save() {
+    this.syncTeams();
+    if (!this.persist) return;
     const tempFile = CONFIG_FILE + '.tmp';
     // Secure directory: 700
     if (!fs.existsSync(CONFIG_DIR)) {
@@ -133,6 +142,34 @@ export class ConfigManager {
     fs.renameSync(tempFile, CONFIG_FILE);
   }
 
+  // Состав активной команды всегда совпадает с текущим; удаленные агенты убираются из всех команд
+  private syncTeams() {
+      const teams = this.config.teams;
+      if (!teams) return;
+      const exists = (id?: string) => !!id && this.config.agents.some(a => a.id === id);
+      for (const team of teams) {
+          if (team.id === this.config.activeTeamId) {
+              Object.assign(team, this.snapshotTeam());
+              continue;
+          }
+          team.memberIds = team.memberIds.filter(exists);
+          if (!exists(team.chairAgentId)) team.chairAgentId = undefined;
+          if (!exists(team.secretaryAgentId)) team.secretaryAgentId = undefined;
+      }
+      if (this.config.activeTeamId && !teams.some(t => t.id === this.config.activeTeamId)) {
+          this.config.activeTeamId = undefined;
+      }
+  }
+
+  private snapshotTeam(): Omit<TeamPreset, 'id' | 'name'> {
+      return {
+          chairAgentId: this.config.chairAgentId,
+          secretaryAgentId: this.config.secretaryAgentId,
+          memberIds: this.config.agents.filter(a => a.enabled).map(a => a.id),
+          maxTurns: this.config.maxTurns
+      };
+  }
+
   getPermissions(): AppPermissions {
       return this.config.permissions || {
           allow_browser: true,
@@ -148,6 +185,35 @@ export class ConfigManager {
       this.save();
   }
 
+  getApprovedPatterns(projectDir: string): string[] {
+      return this.config.approvedPatterns?.[projectDir] || [];
+  }
+
+  addApprovedPattern(projectDir: string, pattern: string) {
+      const patterns = this.getApprovedPatterns(projectDir);
+      if (patterns.includes(pattern)) return;
+      this.config.approvedPatterns = { ...this.config.approvedPatterns, [projectDir]: [...patterns, pattern] };
+      this.save();
+  }
+
+  removeApprovedPattern(projectDir: string, pattern: string) {
+      const patterns = this.getApprovedPatterns(projectDir).filter(p => p !== pattern);
+      const all = { ...this.config.approvedPatterns };
+      if (patterns.length > 0) all[projectDir] = patterns;
+      else delete all[projectDir];
+      this.config.approvedPatterns = all;
+      this.save();
+  }
+
+  getWorkspace(): WorkspaceConfig {
+      return this.config.workspace || {};
+  }
+
+  setWorkspace(workspace: WorkspaceConfig) {
+      this.config.workspace = workspace;
+      this.save();
+  }
+
   getLanguage(): 'ru' | 'en' {
       return this.config.language || 'ru';
   }
@@ -166,6 +232,15 @@ export class ConfigManager {
     this.save();
   }
 
+  getPlanMode(): boolean {
+    return !!this.config.planMode;
+  }
+
+  setPlanMode(value: boolean) {
+    this.config.planMode = value;
+    this.save();
+  }
+
   getCouncilActive(): boolean {
       return this.config.councilActive ?? true;
   }
@@ -175,6 +250,43 @@ export class ConfigManager {
       this.save();
   }
 
+  getDebateRounds(): number {
+      return this.config.debateRounds || 1;
+  }
+
+  setDebateRounds(value: number) {
+      this.config.debateRounds = value;
+      this.save();
+  }
+
+  getDebateConvergence(): boolean {
+      return this.config.debateConvergence ?? true;
+  }
+
+  setDebateConvergence(value: boolean) {
+      this.config.debateConvergence = value;
+      this.save();
+  }
+
+  // undefined — лимит по умолчанию (DEFAULT_MAX_TURNS)
+  getMaxTurns(): number | undefined {
+      return this.config.maxTurns;
+  }
+
+  setMaxTurns(value: number | undefined) {
+      this.config.maxTurns = value;
+      this.save();
+  }
+
+  getCouncilToolTurns(): number {
+      return this.config.councilToolTurns || 0;
+  }
+
+  setCouncilToolTurns(value: number) {
+      this.config.councilToolTurns = value;
+      this.save();
+  }
+
   getAutoCompact(): boolean {
       return this.config.autoCompact ?? true;
   }
@@ -193,6 +305,15 @@ export class ConfigManager {
       this.save();
   }
 
+  getBudget(): BudgetConfig {
+      return this.config.budget || {};
+  }
+
+  setBudget(budget: BudgetConfig) {
+      this.config.budget = budget;
+      this.save();
+  }
+
   getApiKey(type: string): string | undefined {
     return this.config.apiKeys[type]?.trim();
   }
@@ -231,6 +352,61 @@ export class ConfigManager {
     this.save();
   }
 
+  getCustomProviders(): CustomProvider[] {
+      return this.config.customProviders || [];
+  }
+
+  getCustomProvider(id: string | undefined): CustomProvider | undefined {
+      if (!id) return undefined;
+      return this.getCustomProviders().find(p => p.id === id);
+  }
+
+  addCustomProvider(data: Omit<CustomProvider, 'id'>): CustomProvider {
+      const provider: CustomProvider = {
+          id: Math.random().toString(36).substring(2, 9),
+          ...data
+      };
+      this.config.customProviders = [...this.getCustomProviders(), provider];
+      this.save();
+      return provider;
+  }
+
+  updateCustomProvider(id: string, updates: Partial<Omit<CustomProvider, 'id'>>) {
+      const provider = this.getCustomProvider(id);
+      if (provider) {
+          Object.assign(provider, updates);
+          this.save();
+      }
+  }
+
+  // Удаляет эндпоинт вместе с его агентами
+  removeCustomProvider(id: string) {
+      this.config.customProviders = this.getCustomProviders().filter(p => p.id !== id);
+      this.config.agents
+          .filter(a => a.providerType === 'custom' && a.customProviderId === id)
+          .forEach(a => this.removeAgent(a.id));
+      this.save();
+  }
+
+  // Ключ агента: у custom он хранится в записи эндпоинта
+  getAgentApiKey(agent: AgentConfig): string | undefined {
+      if (agent.providerType === 'custom') return this.getCustomProvider(agent.customProviderId)?.apiKey?.trim();
+      return this.getApiKey(agent.providerType);
+  }
+
+  // Все ключи и заголовки провайдеров: маскируются перед отправкой (Redactor)
+  getSecrets(): string[] {
+      const secrets = Object.values(this.config.apiKeys || {});
+      for (const provider of this.config.customProviders || []) {
+          if (provider.apiKey) secrets.push(provider.apiKey);
+          // Заголовки вроде Content-Type не секрет: только ключи и авторизация
+          for (const [name, value] of Object.entries(provider.headers || {})) {
+              if (/key|auth|token|secret/i.test(name)) secrets.push(value.replace(/^Bearer\s+/i, ''));
+          }
+      }
+      return secrets.filter(Boolean);
+  }
+
   getAgents(): AgentConfig[] {
     return this.config.agents;
   }
@@ -239,7 +415,7 @@ export class ConfigManager {
     return this.config.agents.find(a => a.id === id);
   }
 
-  addAgent(data: { name: string; providerType: ProviderType; model: string; enabled: boolean }): AgentConfig {
+  addAgent(data: { name: string; providerType: ProviderType; model: string; enabled: boolean; customProviderId?: string }): AgentConfig {
     const newAgent: AgentConfig = {
         id: Math.random().toString(36).substring(2, 9),
         ...data
@@ -268,6 +444,77 @@ export class ConfigManager {
       }
   }
 
+  getTeams(): TeamPreset[] {
+      return this.config.teams || [];
+  }
+
+  getTeam(id: string | undefined): TeamPreset | undefined {
+      if (!id) return undefined;
+      return this.getTeams().find(t => t.id === id);
+  }
+
+  // Поиск по id или имени (без учета регистра) — для --team и /team <имя>
+  findTeam(nameOrId: string): TeamPreset | undefined {
+      const query = nameOrId.trim().toLowerCase();
+      return this.getTeams().find(t => t.id === nameOrId) || this.getTeams().find(t => t.name.toLowerCase() === query);
+  }
+
+  getActiveTeam(): TeamPreset | undefined {
+      return this.getTeam(this.config.activeTeamId);
+  }
+
+  // Новая команда из текущего состава; она же становится активной
+  createTeam(name: string): TeamPreset {
+      const team: TeamPreset = {
+          id: Math.random().toString(36).substring(2, 9),
+          name,
+          ...this.snapshotTeam()
+      };
+      this.config.teams = [...this.getTeams(), team];
+      this.config.activeTeamId = team.id;
+      this.save();
+      return team;
+  }
+
+  cloneTeam(id: string, name: string): TeamPreset | undefined {
+      const source = this.getTeam(id);
+      if (!source) return undefined;
+      const team: TeamPreset = { ...source, id: Math.random().toString(36).substring(2, 9), name, memberIds: [...source.memberIds] };
+      this.config.teams = [...this.getTeams(), team];
+      this.save();
+      return team;
+  }
+
+  renameTeam(id: string, name: string) {
+      const team = this.getTeam(id);
+      if (team) {
+          team.name = name;
+          this.save();
+      }
+  }
+
+  deleteTeam(id: string) {
+      this.config.teams = this.getTeams().filter(t => t.id !== id);
+      if (this.config.activeTeamId === id) this.config.activeTeamId = undefined;
+      this.save();
+  }
+
+  // Применяет состав команды: Председатель, Секретарь и флаги enabled у агентов
+  switchTeam(id: string): boolean {
+      const team = this.getTeam(id);
+      if (!team) return false;
+      const exists = (agentId?: string) => agentId && this.getAgent(agentId) ? agentId : undefined;
+      this.config.chairAgentId = exists(team.chairAgentId);
+      this.config.secretaryAgentId = exists(team.secretaryAgentId);
+      this.config.maxTurns = team.maxTurns;
+      for (const agent of this.config.agents) {
+          agent.enabled = team.memberIds.includes(agent.id);
+      }
+      this.config.activeTeamId = team.id;
+      this.save();
+      return true;
+  }
+
   getChairId(): string | undefined {
     return this.config.chairAgentId;
   }
@@ -3,22 +3,101 @@ import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
 import { ConfigManager } from './config.js';
-import { HistoryManager } from './history.js';
-import { sendToProvider, estimateTokens } from './providers.js';
-import { ProviderResponse, AgentConfig, AgentStats, CouncilEvent } from './types.js';
-import { ToolManager, TOOLS_DEF } from './tools.js';
+import { HistoryManager, titleFromQuestion } from './history.js';
+import { sendToProvider, estimateTokens, SendOptions } from './providers.js';
+import { ProviderResponse, AgentConfig, AgentStats, CouncilEvent, Message, StreamDelta, StreamToken, ParsedTool, ParsedToolType, AppPermissions, ToolCallResult } from './types.js';
+import { ToolManager, TOOLS_DEF, TOOL_SCHEMAS, toolCallToParsed } from './tools.js';
+import { CheckpointStore } from './checkpoints.js';
+import { ApprovalHandler, askPermission, patternMatches, projectRelativePath, requiredPermissions, toolTarget } from './approvals.js';
+import { evaluateCommand, loadCommandPolicy, describeDecision } from './policy.js';
+import { Redactor } from './redaction.js';
+import { AuditLog, AuditDecision, sha256, truncateArg } from './audit.js';
+import { PlanDecision, PlanHandler, PlanStep, formatPlan, needsPlan, parsePlanPrefix, planStep } from './plan.js';
+import { StuckDetector, StuckReport, toolError } from './stuck.js';
 import { MODEL_PRICING, getModelInfo } from './pricing.js';
 import { t } from './i18n.js';
+import { UsageTracker } from './usage.js';
+import { planBudget, isExhausted, getPolicy } from './budget.js';
+import { composeSystemPrompt } from './personas.js';
 
 export interface AskResult {
+  askId?: string; // Ключ записей учета токенов (UsageTracker.getAskRecords)
   councilResponses: ProviderResponse[];
   chairResponse: ProviderResponse | null;
+  stopped?: LoopStop; // Цикл инструментов прерван до финального ответа (можно продолжить)
+}
+
+// Почему цикл инструментов Председателя остановлен до финального ответа
+export interface LoopStop {
+  reason: 'turn_limit' | 'stuck';
+  turns: number; // Ходов в этом цикле
+  stuck?: StuckReport; // Что повторялось
+}
+
+// Грубая оценка токенов сообщения: текст + ~1000 на картинку
+function messageTokens(m: Message): number {
+    return estimateTokens(m.text) + (m.images?.length || 0) * 1000;
+}
+
+export interface CompactResult {
+  removed: number; // Сколько сообщений убрано из активной истории
+  summarizedBy?: string; // Кто написал сводку; пусто — старые сообщения просто отброшены
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+// Лимит ходов Председателя в цикле инструментов, если в команде не задан свой (/council)
+export const DEFAULT_MAX_TURNS = 5;
+
+// Состояние цикла Председателя последнего запроса — чтобы продолжить его после лимита ходов
+interface ChairLoop {
+  askId: string;
+  chairAgent: AgentConfig;
+  systemPrompt: string;
+  nativeTools: boolean;
+  planMode: boolean;
+  turns: number; // Сделано ходов за все продолжения
+}
+
+// Инструменты членов Совета (/council): только чтение, чтобы советы опирались на настоящий код
+const MEMBER_TOOLS: ParsedToolType[] = ['read', 'tree', 'search', 'browser_search'];
+const MEMBER_TOOL_SCHEMAS = TOOL_SCHEMAS.filter(s => ['read_file', 'tree_view', 'search_smart', 'browser_search'].includes(s.name));
+const MEMBER_DIGEST_CHARS = 200; // Выдержка из каждого результата в мнении для Председателя
+
+// Выдержка из отчета инструмента: без заголовка ("Read File: ...") и пустой строки ошибки
+function toolDigest(output: string): string {
+  const error = toolError(output);
+  if (error) return `Error: ${error}`;
+  const body = output.split('\n').slice(1).join('\n')
+    .replace(/^(?:Content|Output|Results|Result):\s*/, '')
+    .replace(/\s*Error:\s*(?:None)?\s*$/, '')
+    .replace(/\s+/g, ' ').trim();
+  return body.length > MEMBER_DIGEST_CHARS ? `${body.substring(0, MEMBER_DIGEST_CHARS - 3)}...` : body;
+}
+
+// Что произошло с вызовом инструмента (для журнала аудита)
+interface ToolTrace {
+  decision: AuditDecision;
+  edited?: string; // Команда, исправленная пользователем
+  exitCode?: number;
+  planned?: boolean; // Шаг плана, выбранный пользователем (/plan): повторно не спрашиваем
+  member?: boolean; // Вызов члена Совета: они работают параллельно, пользователя не спрашиваем
 }
 
 export class Council {
-  private tools = new ToolManager();
+  private checkpoints = new CheckpointStore();
+  private launchDir = process.cwd(); // Разрешенная папка по умолчанию для файловых инструментов
+  private redactor = new Redactor();
+  private audit = new AuditLog();
+  private redact = (text: string) => this.redactor.redact(text);
+  private tools = new ToolManager(process.cwd(), this.checkpoints);
   private stats: Record<string, AgentStats> = {};
   private statsFile = path.join(os.homedir(), '.council-ai', 'stats.json');
+  private usage = new UsageTracker();
+  private maxTurns?: number; // --max-turns (hause ask) поверх настройки команды
+  private lastLoop?: ChairLoop;
+  private approvalHandler?: ApprovalHandler;
+  private planHandler?: PlanHandler;
 
   constructor(
     private config: ConfigManager,
@@ -58,6 +137,36 @@ export class Council {
       return await this.tools.runDiagnostics();
   }
 
+  public getUsage(): UsageTracker {
+      return this.usage;
+  }
+
+  public getCheckpoints(): CheckpointStore {
+      return this.checkpoints;
+  }
+
+  public getRedactor(): Redactor {
+      return this.redactor;
+  }
+
+  // Без обработчика права в режиме "ask" работают как запрет (hause ask, HTTP API)
+  public setApprovalHandler(handler: ApprovalHandler | undefined) {
+      this.approvalHandler = handler;
+  }
+
+  // Без обработчика план только возвращается текстом, ничего не выполняется
+  public setPlanHandler(handler: PlanHandler | undefined) {
+      this.planHandler = handler;
+  }
+
+  public setMaxTurns(value: number) {
+      this.maxTurns = Math.max(1, value);
+  }
+
+  public getMaxTurns(): number {
+      return this.maxTurns ?? this.config.getMaxTurns() ?? DEFAULT_MAX_TURNS;
+  }
+
   public resetStats() {
       this.stats = {};
       this.saveStats();
@@ -95,9 +204,14 @@ export class Council {
     question: string, 
     onProgress?: (event: CouncilEvent) => void, 
     signal?: AbortSignal,
-    onCouncilResponse?: (res: ProviderResponse) => void
+    onCouncilResponse?: (res: ProviderResponse) => void,
+    onToken?: (token: StreamToken) => void
   ): Promise<AskResult> {
     const COUNCIL_SYSTEM_PROMPT = t('sys_council');
+    const askId = this.usage.newAskId();
+    const prefixed = parsePlanPrefix(question);
+    question = prefixed.question;
+    const planMode = prefixed.plan || this.config.getPlanMode();
 
     const allAgents = this.config.getAgents();
     const enabledAgents = allAgents.filter(a => a.enabled);
@@ -110,10 +224,42 @@ export class Council {
 
     // Secretary should NOT be part of the active council voting
     // AND if Council is disabled globally, nobody should be voting
-    const councilMembers = isCouncilActive 
+    let councilMembers = isCouncilActive 
         ? enabledAgents.filter((a: AgentConfig) => a.id !== chairAgent!.id && a.id !== currentSecretaryId)
         : [];
 
+    // --- Бюджет: прогноз стоимости до отправки запросов ---
+    const budget = this.config.getBudget();
+    if (chairAgent) {
+        let inputTokens = estimateTokens(question) + estimateTokens(TOOLS_DEF);
+        for (const m of this.getCleanHistory()) inputTokens += estimateTokens(m.text) + (m.images?.length || 0) * 1000;
+
+        const plan = planBudget(budget, chairAgent, councilMembers, inputTokens, this.usage.getSessionRecords(), this.usage.getTodayRecords());
+        const budgetInfo = `(${t('budget_projected')} $${plan.projected.toFixed(4)}` +
+            (plan.remaining !== undefined ? `, ${t('budget_remaining')} $${Math.max(plan.remaining, 0).toFixed(4)})` : ')');
+
+        if (plan.action === 'refuse') {
+            return {
+                councilResponses: [],
+                chairResponse: {
+                    providerId: 'system',
+                    model: '',
+                    text: '',
+                    error: `${t('budget_refused')} ${budgetInfo}`
+                }
+            };
+        }
+        if (plan.action === 'warn' && onProgress) {
+            onProgress({ type: 'error', message: `${t('budget_warning')} ${budgetInfo}` });
+        }
+        if ((plan.action === 'skip' || plan.action === 'chair_only') && plan.skipped.length > 0) {
+            councilMembers = plan.members;
+            if (onProgress) {
+                onProgress({ type: 'info', message: `${t('budget_skipped')}: ${plan.skipped.map(a => a.name).join(', ')} ${budgetInfo}` });
+            }
+        }
+    }
+
     let chairSystemPromptText = t('sys_chair');
     if (councilMembers.length > 0) {
         chairSystemPromptText += " " + t('sys_chair_council_suffix');
@@ -125,39 +271,13 @@ export class Council {
         const contextLimit = modelPrice?.context || 128000;
         const safeLimit = Math.floor(contextLimit * 0.8); // 80% заполненности - пора чистить
 
-        const msgs = this.history.getMessages();
-        let totalTokens = 0;
-        for (const m of msgs) totalTokens += estimateTokens(m.text) + (m.images?.length || 0) * 1000;
-
+        const totalTokens = this.chairHistoryTokens();
         if (totalTokens > safeLimit) {
-            // Нужно чистить. Оставляем 50% от лимита (удаляем старое)
-            const targetTokens = Math.floor(contextLimit * 0.5);
-            let currentTokens = totalTokens;
-            let keepCount = msgs.length;
-
-            // Идем с начала (старые сообщения) и "выкидываем" их из подсчета, пока не влезем
-            for (let i = 0; i < msgs.length; i++) {
-                const msgTokens = estimateTokens(msgs[i].text) + (msgs[i].images?.length || 0) * 1000;
-                currentTokens -= msgTokens;
-                keepCount--;
-                if (currentTokens <= targetTokens) {
-                    break;
-                }
-            }
-            
-            // Защита: оставляем хотя бы 5 последних сообщений
-            keepCount = Math.max(keepCount, 5);
-            
-            // Calculate actual tokens remaining
-            let remainingTokens = 0;
-            const keptMsgs = msgs.slice(-keepCount);
-            for (const m of keptMsgs) remainingTokens += estimateTokens(m.text) + (m.images?.length || 0) * 1000;
-
-            this.history.compact(keepCount);
-            if (onProgress) {
+            const result = await this.compactHistory({ askId }, onProgress, signal);
+            if (onProgress && result.removed > 0) {
                 onProgress({ 
                     type: 'info', 
-                    message: `${t('compact_auto')} [${chairAgent.model}] (${totalTokens} -> ${remainingTokens})` 
+                    message: `${t('compact_auto')} ${result.removed} [${chairAgent.model}] (${result.tokensBefore} -> ${result.tokensAfter})${result.summarizedBy ? ` · ${t('compact_summary_by')}: ${result.summarizedBy}` : ''}` 
                 });
             }
         }
@@ -231,11 +351,16 @@ export class Council {
         }
     }
 
+    this.history.setTeam(this.config.getActiveTeam()?.name);
+    this.checkpoints.begin(this.history.getMeta().id, askId, question);
+    this.redactor.setKnownSecrets(this.config.getSecrets());
+    this.redactor.beginAsk();
     this.history.add({
       role: 'user',
       text: question,
       timestamp: Date.now(),
-      images: detectedImages.length > 0 ? detectedImages : undefined
+      images: detectedImages.length > 0 ? detectedImages : undefined,
+      askId
     });
 
     if (enabledAgents.length === 0) {
@@ -275,9 +400,18 @@ export class Council {
         memoryInstruction = `\n[СИСТЕМА ПАМЯТИ]: Если нужно сохранить важный контекст на будущее, создай файл .council_memory.md.`;
     }
     chairSystemPromptText += memoryInstruction;
+    if (planMode) {
+        chairSystemPromptText += `\n[РЕЖИМ ПЛАНА]: Команды, запись и правка файлов не выполняются сразу: пользователь увидит их пронумерованным планом и сам выберет, что выполнить. Чтение файлов, tree и search работают как обычно. Сначала изучи проект, затем предложи все изменения одним ходом.`;
+    }
+    chairSystemPromptText += `\n[СЕКРЕТЫ]: Значения вида [REDACTED:тип:id] — скрытые ключи и пароли. В содержимом file: и edit: настоящее значение подставится локально; в командах и URL маска останется маской, секрет туда не попадет.`;
+    chairSystemPromptText = composeSystemPrompt(chairAgent, chairSystemPromptText);
     // -------------------------------------
 
-    const CHAIR_SYSTEM_PROMPT = chairSystemPromptText + `\n\n${TOOLS_DEF}\n\nФОРМАТ ВЫЗОВА ИНСТРУМЕНТОВ (строго соблюдай MARKDOWN блоки):\n   \n   1. Выполнить команду (bash):\n   \`\`\`bash\n   команда\n   \`\`\`\n   \n   2. Создать/записать файл:\n   \`\`\`file:путь/к/файлу\n   содержимое файла\n   \`\`\`\n   \n   3. Прочитать файл:\n   \`\`\`read:путь/к/файлу\`\`\`\n\n   4. Браузер (Интернет + Зрение):\n   \`\`\`browser:open url\`\`\`\n   \`\`\`browser:search query\`\`\`\n   \`\`\`browser:act action\`\`\`\n\n   5. Экран (macOS/Windows):\n   \`\`\`desktop:screenshot path.png\`\`\`\n   \`\`\`desktop:act action\`\`\`\n`;
+    // В native режиме инструменты уходят в API как JSON Schema, большой текстовый TOOLS_DEF не нужен
+    const nativeTools = chairAgent.toolMode === 'native';
+    const CHAIR_SYSTEM_PROMPT = nativeTools
+      ? chairSystemPromptText + `\n\nДля действий (команды, файлы, поиск, браузер, экран) вызывай доступные функции-инструменты. Не пиши вызовы инструментов текстом в блоках кода.\n`
+      : chairSystemPromptText + `\n\n${TOOLS_DEF}\n\nФОРМАТ ВЫЗОВА ИНСТРУМЕНТОВ (строго соблюдай MARKDOWN блоки):\n   \n   1. Выполнить команду (bash):\n   \`\`\`bash\n   команда\n   \`\`\`\n   \n   2. Создать/записать файл:\n   \`\`\`file:путь/к/файлу\n   содержимое файла\n   \`\`\`\n   \n   3. Прочитать файл:\n   \`\`\`read:путь/к/файлу\`\`\`\n\n   4. Браузер (Интернет + Зрение):\n   \`\`\`browser:open url\`\`\`\n   \`\`\`browser:search query\`\`\`\n   \`\`\`browser:act action\`\`\`\n\n   5. Экран (macOS/Windows):\n   \`\`\`desktop:screenshot path.png\`\`\`\n   \`\`\`desktop:act action\`\`\`\n`;
 
     // 1. Опрашиваем Совет
     if (onProgress && councilMembers.length > 0) {
@@ -285,38 +419,36 @@ export class Council {
     }
     
     let councilResponses: ProviderResponse[] = [];
+    let debateSummary = '';
     if (councilMembers.length > 0) {
-            const promises = councilMembers.map(async agent => {
-              const apiKey = this.config.getApiKey(agent.providerType);
-              const identityPrompt = `Ты — модель ${agent.model} от провайдера ${agent.providerType}. ${COUNCIL_SYSTEM_PROMPT}`;
-              
-              // Pass CLEANED history without the last message to prevent pattern matching
-              const historyWithoutCurrent = this.getCleanHistory().slice(0, -1);
-              
-              // Estimate tokens for logging
-              let estimatedTokens = estimateTokens(identityPrompt) + estimateTokens(question);
-              for (const m of historyWithoutCurrent) estimatedTokens += estimateTokens(m.text) + (m.images?.length || 0) * 1000;
+            // Pass CLEANED history without the current ask to prevent pattern matching.
+            // Каждый член Совета видит свои прошлые мнения, но не мнения коллег
+            const historyFor = (agentId: string) => this.getCleanHistory(agentId).filter(m => m.askId !== askId);
 
-              if (onProgress) onProgress({ type: 'agent_thinking', payload: { agent, estimatedTokens } });
-              
-              const startT = Date.now();
-              const response = await sendToProvider(agent, apiKey || '', question, historyWithoutCurrent, identityPrompt, {}, signal);
-              const duration = ((Date.now() - startT) / 1000).toFixed(1);
-              
-              if (onProgress) onProgress({ type: 'agent_response', payload: { agent, duration } });
-              if (onCouncilResponse) onCouncilResponse(response);
-              return response;
-            });
+            const promises = councilMembers.map(agent =>
+                this.askCouncilMember(agent, question, historyFor(agent.id), COUNCIL_SYSTEM_PROMPT, { askId, round: 1 }, onProgress, signal, onCouncilResponse, onToken)
+            );
             councilResponses = await Promise.all(promises);
+
+            // 1.1 Дебаты: члены Совета видят мнения коллег и пересматривают свои
+            const rounds = this.config.getDebateRounds();
+            if (rounds > 1) {
+                const debate = await this.runDebate(
+                    question, councilMembers, councilResponses, historyFor,
+                    COUNCIL_SYSTEM_PROMPT, rounds, askId, onProgress, signal, onCouncilResponse, onToken
+                );
+                councilResponses = debate.finalResponses;
+                debateSummary = debate.summary;
+            }
     }
 
     if (signal?.aborted) throw new Error('Aborted');
 
     // 2. Формируем контекст для Председателя
     let contextForChair = `Запрос пользователя: "${question}"\n\n`;
-    
+
     if (councilResponses.length > 0) {
-      contextForChair += `--- МНЕНИЯ СОВЕТА ---\n`;
+      contextForChair += debateSummary ? `--- ИТОГОВЫЕ ПОЗИЦИИ СОВЕТА (после дебатов) ---\n` : `--- МНЕНИЯ СОВЕТА ---\n`;
       councilResponses.forEach(r => {
          if (!r.error) {
            const agent = councilMembers.find(a => a.id === r.providerId);
@@ -331,6 +463,9 @@ export class Council {
            contextForChair += `[${name}]: ${text}\n\n`;
          }
       });
+      if (debateSummary) {
+          contextForChair += `--- ХОД ДЕБАТОВ ---\n${debateSummary}\n`;
+      }
       contextForChair += `---------------------\nИспользуй эти мнения для принятия решения. Ты не обязан соглашаться со всеми, но должен учитывать их экспертизу.\nТвоя задача — синтезировать ответ. Ссылайся на конкретных агентов, если используешь их идеи (например, "Как заметил Claude...").\n`;
     }
     
@@ -341,18 +476,96 @@ export class Council {
         // Removed conflicting instruction about evaluation block
     }
     
-    let currentPrompt = contextForChair + promptSuffix;
-    
     // --- TOOL EXECUTION LOOP ---
     // Председатель может вызывать инструменты в цикле, пока не решит задачу или не исчерпает лимит
+    this.lastLoop = { askId, chairAgent, systemPrompt: CHAIR_SYSTEM_PROMPT, nativeTools, planMode, turns: 0 };
+    const { response: finalChairResponse, stopped } = await this.runChairLoop(this.lastLoop, contextForChair + promptSuffix, this.getMaxTurns(), onProgress, signal, onToken);
+
+    // Запуск Секретаря для оценки эффективности (если есть Секретарь, был Совет и режим Совета активен)
+    if (isCouncilActive && currentSecretaryId && councilResponses.length > 0) {
+        // Run in background (Fire and Forget) to not block user response
+        this.evaluateEfficiency(currentSecretaryId, question, councilResponses, finalChairResponse.text, askId, onProgress)
+            .catch(err => console.error(`[Background] Secretary error: ${err.message}`));
+    }
+
+    // Заголовок сессии от Секретаря после первого ответа (пока стоит начало вопроса)
+    const isFirstQuestion = !this.history.getMessages().some(m => m.role === 'user' && m.askId !== askId);
+    if (currentSecretaryId && isFirstQuestion && this.history.getMeta().titleSource === 'question') {
+        this.generateSessionTitle(currentSecretaryId, question, finalChairResponse.text, askId)
+            .catch(err => console.error(`[Background] Secretary error: ${err.message}`));
+    }
+
+    return { askId, councilResponses, chairResponse: finalChairResponse, stopped };
+  }
+
+  // Продолжает цикл инструментов последнего запроса еще на turns ходов (после лимита ходов);
+  // Совет заново не опрашивается
+  async continueAsk(
+    turns: number,
+    onProgress?: (event: CouncilEvent) => void,
+    signal?: AbortSignal,
+    onToken?: (token: StreamToken) => void
+  ): Promise<AskResult> {
+    const loop = this.lastLoop;
+    if (!loop) throw new Error('Nothing to continue');
+
+    // Бюджет потрачен: цикл остановился бы на первом же ходе, а просьба продолжить осталась бы
+    // в истории без ответа — не начинаем
+    const budget = this.config.getBudget();
+    if (getPolicy(budget) !== 'warn' && isExhausted(budget, loop.chairAgent, this.usage.getSessionRecords(), this.usage.getTodayRecords())) {
+        return {
+            askId: loop.askId,
+            councilResponses: [],
+            chairResponse: { providerId: 'system', model: '', text: '', error: t('budget_stopped') }
+        };
+    }
+
+    const prompt = 'Продолжай выполнение задачи с того места, где остановился.';
+    this.history.add({ role: 'user', text: prompt, timestamp: Date.now(), askId: loop.askId });
+    if (onProgress) onProgress({ type: 'step', message: `${t('chair_analyzing')} (${loop.chairAgent.name})` });
+
+    const { response, stopped } = await this.runChairLoop(loop, prompt, Math.max(1, turns), onProgress, signal, onToken);
+    return { askId: loop.askId, councilResponses: [], chairResponse: response, stopped };
+  }
+
+  // Цикл инструментов Председателя. Заканчивается финальным ответом (ход без инструментов),
+  // остановкой по бюджету или отменой плана. На лимите ходов и при зацикливании Председатель
+  // подводит итог, а continueAsk() может продолжить задачу с того же места.
+  private async runChairLoop(
+    loop: ChairLoop,
+    prompt: string,
+    maxTurns: number,
+    onProgress?: (event: CouncilEvent) => void,
+    signal?: AbortSignal,
+    onToken?: (token: StreamToken) => void
+  ): Promise<{ response: ProviderResponse, stopped?: LoopStop }> {
+    const { askId, chairAgent, nativeTools, planMode } = loop;
+    const budget = this.config.getBudget();
+    const stuckDetector = new StuckDetector();
+    let currentPrompt = prompt;
     let finalChairResponse: ProviderResponse | null = null;
-    let MAX_TURNS = 5; 
+    let stopped: LoopStop | undefined;
     let turn = 0;
 
-    while (turn < MAX_TURNS) {
+    let budgetWarned = false;
+
+    while (turn < maxTurns) {
         if (signal?.aborted) throw new Error('Aborted');
+
+        // Жесткая остановка цикла инструментов, если бюджет уже потрачен
+        if ((turn > 0 || loop.turns > 0) && isExhausted(budget, chairAgent, this.usage.getSessionRecords(), this.usage.getTodayRecords())) {
+            if (getPolicy(budget) !== 'warn') {
+                if (onProgress) onProgress({ type: 'error', message: t('budget_stopped') });
+                if (finalChairResponse) {
+                    finalChairResponse = { ...finalChairResponse, text: `${finalChairResponse.text}\n\n⚠️ ${t('budget_stopped')}` };
+                }
+                break;
+            }
+            if (!budgetWarned && onProgress) onProgress({ type: 'error', message: t('budget_exhausted') });
+            budgetWarned = true;
+        }
         
-        const chairApiKey = this.config.getApiKey(chairAgent.providerType);
+        const chairApiKey = this.config.getAgentApiKey(chairAgent);
         
         let historyForRequest = this.getCleanHistory();
         
@@ -360,10 +573,22 @@ export class Council {
             historyForRequest = historyForRequest.slice(0, -1);
         }
 
-        finalChairResponse = await sendToProvider(chairAgent, chairApiKey || '', currentPrompt, historyForRequest, CHAIR_SYSTEM_PROMPT, {}, signal);
-
-        // Парсим инструменты
-        const toolsToRun = this.parseTools(finalChairResponse.text);
+        const chairId = chairAgent.id;
+        const chairOptions: SendOptions = onToken ? { onToken: (delta: StreamDelta) => onToken({ ...delta, agentId: chairId, role: 'chair' }) } : {};
+        chairOptions.endpoint = this.config.getCustomProvider(chairAgent.customProviderId);
+        chairOptions.temperature = chairAgent.temperature;
+        chairOptions.redact = this.redact;
+        if (nativeTools) chairOptions.tools = TOOL_SCHEMAS;
+        const chairStart = Date.now();
+        finalChairResponse = await sendToProvider(chairAgent, chairApiKey || '', currentPrompt, historyForRequest, loop.systemPrompt, chairOptions, signal);
+        const chairDuration = Date.now() - chairStart;
+        if (finalChairResponse.usage) this.usage.record(askId, chairAgent, 'chair', finalChairResponse.usage, loop.turns + turn + 1);
+
+        // Парсим инструменты: структурированные вызовы (native) или markdown-блоки
+        const toolCalls = nativeTools ? (finalChairResponse.toolCalls || []) : [];
+        const toolsToRun = nativeTools
+            ? toolCalls.map(call => toolCallToParsed(call))
+            : this.parseTools(finalChairResponse.text);
         
         if (toolsToRun.length === 0) {
             // Save final response to history
@@ -371,198 +596,43 @@ export class Council {
                 role: 'assistant',
                 text: finalChairResponse.text,
                 timestamp: Date.now(),
-                providerId: chairAgent.id
+                providerId: chairAgent.id,
+                askId,
+                durationMs: chairDuration
             });
             break; // Нет инструментов - это финальный ответ
         }
         
+        // Режим плана: ход с изменениями сначала показывается пользователю
+        const plan = planMode && needsPlan(toolsToRun.filter((tool): tool is ParsedTool => !!tool))
+            ? await this.proposePlan(toolsToRun)
+            : undefined;
+
         // Выполняем инструменты
-        let toolOutputMsg = `\n\n--- TOOL OUTPUTS (Turn ${turn + 1}) ---\n`;
+        let toolOutputMsg = `\n\n--- TOOL OUTPUTS (Turn ${loop.turns + turn + 1}) ---\n`;
         
         const currentImages: string[] = []; // Collect images from this turn
         const perms = this.config.getPermissions();
         
-        if (onProgress) onProgress({ type: 'step', message: t('tool_executing'), payload: { count: toolsToRun.length } });
+        if (onProgress && (!plan || plan.decision.action === 'execute')) {
+            onProgress({ type: 'step', message: t('tool_executing'), payload: { count: toolsToRun.length } });
+        }
         
-        for (const tool of toolsToRun) {
-            // Log specific tool action
-            if (onProgress) {
-                let toolName = '';
-                let toolArg = tool.content;
-                if (tool.type === 'command') toolName = t('tool_bash');
-                if (tool.type === 'file') { toolName = t('tool_file_write'); toolArg = tool.arg; }
-                if (tool.type === 'read') toolName = t('tool_file_read');
-                if (tool.type === 'browser_open') toolName = t('tool_browser_open');
-                if (tool.type === 'browser_search') toolName = t('tool_browser_search');
-                if (tool.type === 'browser_act') toolName = t('tool_browser_act');
-                if (tool.type === 'desktop_screenshot') toolName = t('tool_desktop_screenshot');
-                if (tool.type === 'desktop_act') toolName = t('tool_desktop_act');
-
-                const displayArg = toolArg.length > 50 ? toolArg.substring(0, 47) + '...' : toolArg;
-                onProgress({ type: 'tool_start', payload: { tool: toolName, input: displayArg } });
-            }
-
-            // Check Permissions
-            if (tool.type === 'command' && !perms.allow_command) {
-                toolOutputMsg += `Command: ${tool.content}\nError: Permission denied. User has disabled terminal commands in /settings.\n\n`;
-                if (onProgress) onProgress({ type: 'error', message: 'Permission denied (command)' });
-                continue;
-            }
-            if (tool.type === 'file' && !perms.allow_file_write) {
-                toolOutputMsg += `Write File: ${tool.arg}\nError: Permission denied. User has disabled file writing in /settings.\n\n`;
-                if (onProgress) onProgress({ type: 'error', message: 'Permission denied (write)' });
-                continue;
-            }
-            if (tool.type === 'read' && !perms.allow_file_read) {
-                toolOutputMsg += `Read File: ${tool.content}\nError: Permission denied. User has disabled file reading in /settings.\n\n`;
-                if (onProgress) onProgress({ type: 'error', message: 'Permission denied (read)' });
-                continue;
-            }
-            if (tool.type === 'tree' && !perms.allow_file_read) {
-                toolOutputMsg += `Tree View: ${tool.content}\nError: Permission denied. User has disabled file reading in /settings.\n\n`;
-                if (onProgress) onProgress({ type: 'error', message: 'Permission denied (read)' });
-                continue;
-            }
-            if (tool.type === 'search' && (!perms.allow_file_read || !perms.allow_command)) {
-                toolOutputMsg += `Smart Search: ${tool.content}\nError: Permission denied. Requires both 'Read Files' and 'Terminal' permissions.\n\n`;
-                if (onProgress) onProgress({ type: 'error', message: 'Permission denied (read/command)' });
-                continue;
-            }
-            if ((tool.type === 'browser_open' || tool.type === 'browser_search' || tool.type === 'browser_act') && !perms.allow_browser) {
-                toolOutputMsg += `${tool.type}: ${tool.content}\nError: Permission denied. User has disabled browser access in /settings.\n\n`;
-                if (onProgress) onProgress({ type: 'error', message: 'Permission denied (browser)' });
-                continue;
-            }
-            if ((tool.type === 'desktop_screenshot' || tool.type === 'desktop_act') && !perms.allow_desktop) {
-                toolOutputMsg += `${tool.type}: ${tool.content}\nError: Permission denied. User has disabled desktop control in /settings.\n\n`;
-                if (onProgress) onProgress({ type: 'error', message: 'Permission denied (desktop)' });
-                continue;
-            }
-            if (tool.type === 'edit' && !perms.allow_file_edit) {
-                toolOutputMsg += `Edit File: ${tool.arg}\nError: Permission denied. User has disabled file editing in /settings.\n\n`;
-                if (onProgress) onProgress({ type: 'error', message: 'Permission denied (edit)' });
-                continue;
-            }
-            if (tool.type === 'system_diagnostics' && !perms.allow_command) {
-                toolOutputMsg += `System Diagnostics\nError: Permission denied. User has disabled terminal commands in /settings.\n\n`;
-                if (onProgress) onProgress({ type: 'error', message: 'Permission denied (diagnostics)' });
-                continue;
-            }
-            if (tool.type === 'ios_config' && !perms.allow_file_edit) {
-                toolOutputMsg += `iOS Config: ${tool.content}\nError: Permission denied. User has disabled file editing in /settings.\n\n`;
-                if (onProgress) onProgress({ type: 'error', message: 'Permission denied (ios_config)' });
-                continue;
-            }
-
-            if (tool.type === 'command') {
-                const res = await this.tools.runCommand(tool.content, signal);
-                toolOutputMsg += `Command: ${tool.content}\nOutput: ${res.output}\nError: ${res.error || 'None'}\n\n`;
-            } else if (tool.type === 'file') {
-                const res = await this.tools.writeFile(tool.arg, tool.content);
-                toolOutputMsg += `Write File: ${tool.arg}\nResult: ${res.output} ${res.error || ''}\n\n`;
-            } else if (tool.type === 'edit') {
-                // Parse SEARCH/REPLACE block
-                const parts = tool.content.split('=======');
-                if (parts.length === 2) {
-                    const searchBlock = parts[0].replace('<<<<<<< SEARCH', '').trim();
-                    const replaceBlock = parts[1].replace('>>>>>>>', '').trim();
-                    const res = await this.tools.editFile(tool.arg, searchBlock, replaceBlock);
-                    toolOutputMsg += `Edit File: ${tool.arg}\nResult: ${res.output} ${res.error || ''}\n\n`;
-                } else {
-                    toolOutputMsg += `Edit File: ${tool.arg}\nError: Invalid format. Must contain <<<<<<< SEARCH, =======, and >>>>>>> blocks.\n\n`;
-                }
-            } else if (tool.type === 'read') {
-                // Parse optional line range: path:start-end
-                const match = tool.content.match(/^(.*?):(\d+)-(\d+)$/);
-                let res;
-                if (match) {
-                    const path = match[1];
-                    const start = parseInt(match[2]);
-                    const end = parseInt(match[3]);
-                    res = await this.tools.readFile(path, start, end);
-                } else {
-                    res = await this.tools.readFile(tool.content);
-                }
-                
-                toolOutputMsg += `Read File: ${tool.content}\nContent:\n${res.output}\nError: ${res.error || ''}\n\n`;
-            } else if (tool.type === 'tree') {
-                const res = await this.tools.treeView(tool.content || '.');
-                toolOutputMsg += `Tree View: ${tool.content}\nOutput:\n${res.output}\nError: ${res.error || ''}\n\n`;
-            } else if (tool.type === 'search') {
-                // Parse query and path: "query" path OR query path
-                let query = tool.content;
-                let dir = '.';
-                
-                const trimmed = tool.content.trim();
-                if (trimmed.startsWith('"') || trimmed.startsWith("'")) {
-                    const quote = trimmed[0];
-                    const endQuote = trimmed.indexOf(quote, 1);
-                    if (endQuote !== -1) {
-                        query = trimmed.substring(1, endQuote);
-                        const rest = trimmed.substring(endQuote + 1).trim();
-                        if (rest) dir = rest;
-                    }
-                } else {
-                    const firstSpace = trimmed.indexOf(' ');
-                    if (firstSpace !== -1) {
-                        query = trimmed.substring(0, firstSpace);
-                        dir = trimmed.substring(firstSpace + 1).trim();
-                    }
-                }
-
-                const res = await this.tools.searchSmart(query, dir);
-                toolOutputMsg += `Smart Search: "${query}" in "${dir}"\nOutput:\n${res.output}\nError: ${res.error || ''}\n\n`;
-            } else if (tool.type === 'browser_open') {
-                const res = await this.tools.browserOpen(tool.content);
-                toolOutputMsg += `Browser Open: ${tool.content}\nContent: ${res.output.substring(0, 2000)}...\nError: ${res.error || ''}\n\n`;
-            } else if (tool.type === 'browser_search') {
-                const res = await this.tools.browserSearch(tool.content);
-                toolOutputMsg += `Browser Search: ${tool.content}\nResults:\n${res.output}\nError: ${res.error || ''}\n\n`;
-            } else if (tool.type === 'browser_act') {
-                const res = await this.tools.browserAct(tool.content);
-                toolOutputMsg += `Browser Act: ${tool.content}\nResult: ${res.output}\nError: ${res.error || ''}\n\n`;
-                
-                // If screenshot, load it as base64
-                if (tool.content.startsWith('screenshot') && !res.error) {
-                    try {
-                        const parts = tool.content.trim().split(' ');
-                        const p = parts[1];
-                        if (p && fs.existsSync(p)) {
-                            const bitmap = fs.readFileSync(p);
-                            const base64 = bitmap.toString('base64');
-                            currentImages.push(base64);
-                            toolOutputMsg += `[SYSTEM]: Screenshot attached to context.\n`;
-                        }
-                    } catch (e) {
-                        toolOutputMsg += `[SYSTEM]: Failed to attach screenshot: ${e}\n`;
-                    }
-                }
-            } else if (tool.type === 'desktop_screenshot') {
-                const res = await this.tools.desktopScreenshot(tool.content);
-                toolOutputMsg += `Desktop Screenshot: ${tool.content}\nResult: ${res.output}\nError: ${res.error || ''}\n\n`;
-                
-                if (!res.error) {
-                     try {
-                        if (fs.existsSync(tool.content)) {
-                            const bitmap = fs.readFileSync(tool.content);
-                            const base64 = bitmap.toString('base64');
-                            currentImages.push(base64);
-                            toolOutputMsg += `[SYSTEM]: Desktop Screenshot attached to context.\n`;
-                        }
-                    } catch (e) {
-                        toolOutputMsg += `[SYSTEM]: Failed to attach screenshot: ${e}\n`;
-                    }
-                }
-            } else if (tool.type === 'desktop_act') {
-                const res = await this.tools.desktopAct(tool.content);
-                toolOutputMsg += `Desktop Act: ${tool.content}\nResult: ${res.output}\nError: ${res.error || ''}\n\n`;
-            } else if (tool.type === 'system_diagnostics') {
-                const res = await this.tools.runDiagnostics();
-                toolOutputMsg += `System Diagnostics:\n${res.output}\nError: ${res.error || ''}\n\n`;
-            } else if (tool.type === 'ios_config') {
-                const res = await this.tools.iosConfig(tool.content);
-                toolOutputMsg += `iOS Config:\n${res.output}\nError: ${res.error || ''}\n\n`;
+        const toolResults: ToolCallResult[] = [];
+        const outputs: string[] = [];
+        for (let i = 0; i < toolsToRun.length; i++) {
+            const tool = toolsToRun[i];
+            let output: string;
+            if (!tool) {
+                output = `Error: Unknown tool "${toolCalls[i].name}"\n\n`;
+            } else if (plan && !(plan.decision.action === 'execute' && plan.decision.steps.includes(plan.stepOf[i]))) {
+                output = `${tool.type}: ${toolTarget(tool)}\nNot executed (plan mode): ${this.planSkipReason(plan.decision)}\n\n`;
+            } else {
+                output = await this.runTool(tool, perms, currentImages, chairAgent, askId, onProgress, signal, { planned: !!plan });
             }
+            toolOutputMsg += output;
+            outputs.push(output);
+            if (nativeTools) toolResults.push({ id: toolCalls[i].id, name: toolCalls[i].name, output });
         }
         
         // Добавляем результат в историю для следующего шага
@@ -570,38 +640,863 @@ export class Council {
             role: 'assistant',
             text: finalChairResponse.text,
             timestamp: Date.now(),
-            providerId: chairAgent.id
+            providerId: chairAgent.id,
+            toolCalls: nativeTools ? toolCalls : undefined,
+            askId,
+            durationMs: chairDuration
         });
         
-        this.history.add({
-            role: 'user', // Имитируем системный ответ как сообщение пользователя
-            text: toolOutputMsg + "\nПродолжай выполнение задачи с учетом результатов инструментов.",
-            timestamp: Date.now(),
-            images: currentImages.length > 0 ? currentImages : undefined
-        });
+        if (nativeTools) {
+            this.history.add({
+                role: 'tool',
+                text: toolOutputMsg,
+                timestamp: Date.now(),
+                images: currentImages.length > 0 ? currentImages : undefined,
+                toolResults,
+                askId
+            });
+        } else {
+            this.history.add({
+                role: 'user', // Имитируем системный ответ как сообщение пользователя
+                text: toolOutputMsg + (plan?.decision.action === 'cancel' ? '' : "\nПродолжай выполнение задачи с учетом результатов инструментов."),
+                timestamp: Date.now(),
+                images: currentImages.length > 0 ? currentImages : undefined,
+                askId
+            });
+        }
+        
+        // План отменен или спросить некого: ответ Председателя и план уходят пользователю как есть
+        if (plan?.decision.action === 'cancel') {
+            const note = this.planHandler ? t('plan_cancelled') : `${t('plan_not_executed')}\n\n${formatPlan(plan.steps)}`;
+            finalChairResponse = { ...finalChairResponse, text: `${finalChairResponse.text}\n\n${note}` };
+            break;
+        }
         
         // Обновляем промпт (хотя история уже содержит контекст, можно просто попросить продолжить)
         currentPrompt = "Продолжай."; 
         
         turn++;
+
+        const stuck = stuckDetector.check(toolsToRun, outputs);
+        if (stuck) {
+            stopped = { reason: 'stuck', turns: turn, stuck };
+            break;
+        }
     }
     
-    // --- END LOOP ---
 
+    loop.turns += turn;
     if (!finalChairResponse) throw new Error("No response from chair");
 
-    // Запуск Секретаря для оценки эффективности (если есть Секретарь, был Совет и режим Совета активен)
-    if (isCouncilActive && currentSecretaryId && councilResponses.length > 0) {
-        // Run in background (Fire and Forget) to not block user response
-        this.evaluateEfficiency(currentSecretaryId, question, councilResponses, finalChairResponse.text, onProgress)
-            .catch(err => console.error(`[Background] Secretary error: ${err.message}`));
-    }
+    if (!stopped && turn >= maxTurns) stopped = { reason: 'turn_limit', turns: turn };
+    if (stopped) finalChairResponse = await this.summarizeStop(loop, stopped, finalChairResponse, onProgress, signal, onToken);
+    return { response: finalChairResponse, stopped };
+  }
+
+  // Лимит ходов или зацикливание: Председатель без инструментов подводит итог,
+  // чтобы вместо оборванного ответа пользователь видел, что сделано и что осталось
+  private async summarizeStop(
+    loop: ChairLoop,
+    stopped: LoopStop,
+    last: ProviderResponse,
+    onProgress?: (event: CouncilEvent) => void,
+    signal?: AbortSignal,
+    onToken?: (token: StreamToken) => void
+  ): Promise<ProviderResponse> {
+    const { chairAgent } = loop;
+    const stuck = stopped.stuck;
+    const note = stuck
+        ? `⚠️ ${t(stuck.reason === 'repeated_calls' ? 'loop_stuck_calls' : 'loop_stuck_error')} (${stuck.count}×): ${stuck.detail}`
+        : `⚠️ ${t('loop_turn_limit')} (${stopped.turns})`;
+    if (onProgress) onProgress({ type: 'error', message: note });
+
+    const why = stuck
+        ? `Цикл остановлен: ${stuck.reason === 'repeated_calls' ? 'одни и те же вызовы инструментов' : 'одна и та же ошибка'} повторились ${stuck.count} раз (${stuck.detail}). Этот подход не работает.`
+        : `Лимит ходов с инструментами исчерпан (${stopped.turns}).`;
+    const prompt = `${why}\nНе вызывай инструменты. Кратко подведи итог: что сделано, что не получилось, что осталось и какой следующий шаг.`;
+
+    const options: SendOptions = onToken ? { onToken: (delta: StreamDelta) => onToken({ ...delta, agentId: chairAgent.id, role: 'chair' }) } : {};
+    options.endpoint = this.config.getCustomProvider(chairAgent.customProviderId);
+    options.temperature = chairAgent.temperature;
+    options.redact = this.redact;
+    const start = Date.now();
+    const res = await sendToProvider(chairAgent, this.config.getAgentApiKey(chairAgent) || '', prompt, this.getCleanHistory(), loop.systemPrompt, options, signal);
+    if (res.usage) this.usage.record(loop.askId, chairAgent, 'chair', res.usage, loop.turns + 1);
+    if (res.error) return { ...last, text: `${last.text}\n\n${note}` };
+
+    this.history.add({
+        role: 'assistant',
+        text: res.text,
+        timestamp: Date.now(),
+        providerId: chairAgent.id,
+        askId: loop.askId,
+        durationMs: Date.now() - start
+    });
+    return { ...res, text: `${res.text}\n\n${note}` };
+  }
+
+  // Короткий заголовок сессии; ошибки не важны — останется начало вопроса
+  private async generateSessionTitle(secretaryId: string, question: string, answer: string, askId: string) {
+      const secretary = this.config.getAgent(secretaryId);
+      if (!secretary) return;
+      const meta = this.history.getMeta();
+
+      const prompt = `User Question: "${question.substring(0, 1000)}"\n\nAnswer: ${answer.substring(0, 1000)}`;
+      const res = await sendToProvider(secretary, this.config.getAgentApiKey(secretary) || '', prompt, [], t('sys_session_title'), {
+          temperature: 0,
+          endpoint: this.config.getCustomProvider(secretary.customProviderId),
+          redact: this.redact
+      });
+      if (res.usage) this.usage.record(askId, secretary, 'secretary', res.usage);
+
+      const title = titleFromQuestion(res.text.split('\n')[0].replace(/^["'#*\s]+|["'*\s]+$/g, ''));
+      // Пользователь мог переименовать или переключить сессию, пока Секретарь думал
+      if (!res.error && title && this.history.getMeta() === meta && meta.titleSource === 'question') {
+          this.history.setTitle(title, 'secretary');
+      }
+  }
+
+  // Аргументы search: "запрос" путь или запрос путь
+  private parseSearchArgs(content: string): { query: string, dir: string } {
+      let query = content;
+      let dir = '.';
+
+      const trimmed = content.trim();
+      if (trimmed.startsWith('"') || trimmed.startsWith("'")) {
+          const quote = trimmed[0];
+          const endQuote = trimmed.indexOf(quote, 1);
+          if (endQuote !== -1) {
+              query = trimmed.substring(1, endQuote);
+              const rest = trimmed.substring(endQuote + 1).trim();
+              if (rest) dir = rest;
+          }
+      } else {
+          const firstSpace = trimmed.indexOf(' ');
+          if (firstSpace !== -1) {
+              query = trimmed.substring(0, firstSpace);
+              dir = trimmed.substring(firstSpace + 1).trim();
+          }
+      }
+
+      return { query, dir };
+  }
+
+  // SEARCH/REPLACE блок инструмента edit
+  private parseEditBlock(content: string): { search: string, replace: string } | null {
+      const parts = content.split('=======');
+      if (parts.length !== 2) return null;
+      return {
+          search: parts[0].replace('<<<<<<< SEARCH', '').trim(),
+          replace: parts[1].replace('>>>>>>>', '').trim()
+      };
+  }
+
+  // Политика команд (/policy): deny — ошибка для Председателя, ask — причина спросить пользователя
+  // даже при включенном праве на команды
+  private checkCommandPolicy(command: string, onProgress?: (event: CouncilEvent) => void): { error?: string, ask?: string } {
+      const decision = evaluateCommand(command, loadCommandPolicy(process.cwd()));
+      if (decision.action === 'deny') {
+          if (onProgress) onProgress({ type: 'error', message: `${t('policy_denied')}: ${decision.command}` });
+          return { error: `Command: ${command}\nError: Denied by command policy: ${describeDecision(decision)}.\n\n` };
+      }
+      if (decision.action === 'ask') return { ask: describeDecision(decision) };
+      return {};
+  }
+
+  // Пути, которые затрагивает файловый инструмент
+  private toolPaths(tool: ParsedTool): string[] {
+      switch (tool.type) {
+          case 'read': return [tool.content.trim().replace(/:(\d+)-(\d+)$/, '')];
+          case 'file':
+          case 'edit': return [tool.arg];
+          case 'tree': return [tool.content.trim() || '.'];
+          case 'search': return [this.parseSearchArgs(tool.content).dir];
+          case 'desktop_screenshot': return [tool.content.trim()];
+          case 'browser_act': {
+              const parts = tool.content.trim().split(' ');
+              return parts[0] === 'screenshot' && parts[1] ? [parts[1]] : [];
+          }
+          case 'ios_config': {
+              const project = tool.content.trim().match(/^\S+\s+(?:"([^"]*)"|'([^']*)'|(\S+))/);
+              return project ? [project[1] || project[2] || project[3]] : [];
+          }
+          default: return [];
+      }
+  }
+
+  // Границы рабочей области: ~/.council-ai закрыта всегда; вне разрешенных папок —
+  // запрет или подтверждение пользователем (workspace.outside)
+  private checkWorkspace(tool: ParsedTool, onProgress?: (event: CouncilEvent) => void): { error?: string, ask?: string } {
+      const workspace = this.config.getWorkspace();
+      const roots = [this.launchDir, ...(workspace.roots || [])];
+      const label = `${tool.type}: ${toolTarget(tool)}`;
+
+      for (const filePath of this.toolPaths(tool)) {
+          const check = this.tools.checkPath(filePath, roots);
+          if (check.status === 'protected') {
+              if (onProgress) onProgress({ type: 'error', message: `${t('workspace_protected')}: ${filePath}` });
+              return { error: `${label}\nError: Access denied. ~/.council-ai (settings and API keys) is never accessible to tools.\n\n` };
+          }
+          if (check.status === 'outside') {
+              if (workspace.outside === 'deny') {
+                  if (onProgress) onProgress({ type: 'error', message: `${t('workspace_outside')}: ${check.path}` });
+                  return { error: `${label}\nError: Access denied. ${check.path} is outside the workspace (allowed: ${roots.join(', ')}).\n\n` };
+              }
+              return { ask: `path outside the workspace: ${check.path}` };
+          }
+      }
+      return {};
+  }
+
+  // Режим "ask": показывает вызов пользователю и ждет решения. Подходящий сохраненный шаблон
+  // проекта разрешает вызов без вопроса. Возвращает инструмент (возможно, с исправленной командой)
+  // или текст ошибки для Председателя. reason — подтверждения требует не право, а политика команд
+  // или путь вне рабочей области.
+  private async approveTool(
+      tool: ParsedTool,
+      perms: AppPermissions,
+      onProgress?: (event: CouncilEvent) => void,
+      reason?: string,
+      trace?: ToolTrace
+  ): Promise<{ tool: ParsedTool } | { error: string }> {
+      const permission = askPermission(tool.type, perms) || (reason ? requiredPermissions(tool.type)[0] : undefined);
+      if (!permission) return { tool };
+      const decide = (decision: AuditDecision) => {
+          if (trace) trace.decision = decision;
+      };
+      if (trace?.planned) {
+          decide('approved');
+          return { tool };
+      }
+
+      const target = toolTarget(tool);
+      const label = `${tool.type}: ${target}`;
+      const projectDir = process.cwd();
+      // Шаблоны не отменяют вопрос политики команд и выход за рабочую область (reason).
+      // Пути сравниваются относительно проекта: "../" и пути вне проекта шаблонам не подходят
+      const matchTarget = reason ? undefined : this.patternTarget(tool, target, projectDir);
+      const pattern = matchTarget === undefined ? undefined
+          : this.config.getApprovedPatterns(projectDir).find(p => patternMatches(p, { permission, target: matchTarget }));
+      if (pattern) {
+          if (onProgress) onProgress({ type: 'info', message: `${t('approval_by_pattern')}: ${pattern}` });
+          decide('pattern');
+          return { tool };
+      }
+      if (!this.approvalHandler || trace?.member) {
+          decide('denied_no_approval');
+          return { error: `${label}\nError: This action requires user approval${reason ? ` (${reason})` : ''}, which is not available in this mode.\n\n` };
+      }
+
+      const preview = await this.toolPreview(tool);
+      const decision = await this.approvalHandler({ tool: tool.type, permission, target, patternTarget: matchTarget, preview, reason });
+      if (decision.action === 'reject') {
+          decide('rejected');
+          if (onProgress) onProgress({ type: 'error', message: t('approval_rejected') });
+          return { error: `${label}\nError: Rejected by the user.${decision.reason ? ` Reason: ${decision.reason}` : ''}\n\n` };
+      }
+      if (decision.action === 'always') this.config.addApprovedPattern(projectDir, decision.pattern);
+      if (decision.action === 'edit') {
+          decide('edited');
+          if (trace) trace.edited = decision.target;
+          return { tool: { ...tool, content: decision.target } };
+      }
+      decide('approved');
+      return { tool };
+  }
+
+  // Цель для сравнения с шаблонами: у файловых инструментов — путь относительно папки проекта
+  // (undefined, если он вне проекта), у остальных — как есть
+  private patternTarget(tool: ParsedTool, target: string, projectDir: string): string | undefined {
+      if (!['file', 'edit', 'read', 'tree'].includes(tool.type)) return target;
+      return projectRelativePath(this.tools.checkPath(target, []).path, projectDir);
+  }
+
+  // Дифф для подтверждения и плана: file: — весь файл, edit: — замена
+  private async toolPreview(tool: ParsedTool): Promise<string | undefined> {
+      try {
+          if (tool.type === 'file') return await this.tools.previewWrite(tool.arg, tool.content);
+          if (tool.type === 'edit') {
+              const block = this.parseEditBlock(tool.content);
+              if (block) return await this.tools.previewEdit(tool.arg, block.search, block.replace);
+          }
+      } catch {
+          // Путь в ~/.council-ai: инструмент сам вернет ошибку при выполнении
+      }
+      return undefined;
+  }
+
+  // Шаги плана из вызовов хода и решение пользователя. stepOf — номер шага для каждого вызова
+  // (0 — неизвестный инструмент). Без обработчика план не выполняется.
+  private async proposePlan(tools: (ParsedTool | null)[]): Promise<{ steps: PlanStep[], stepOf: number[], decision: PlanDecision }> {
+      const steps: PlanStep[] = [];
+      const stepOf: number[] = [];
+      for (const tool of tools) {
+          if (!tool) {
+              stepOf.push(0);
+              continue;
+          }
+          steps.push(planStep(steps.length + 1, tool, await this.toolPreview(tool)));
+          stepOf.push(steps.length);
+      }
+      const decision: PlanDecision = this.planHandler ? await this.planHandler(steps) : { action: 'cancel' };
+      return { steps, stepOf, decision };
+  }
+
+  private planSkipReason(decision: PlanDecision): string {
+      if (decision.action === 'execute') return 'the user skipped this step.';
+      if (decision.action === 'revise') return `the user asked to revise the plan. Feedback: ${decision.feedback}\nPropose a revised plan.`;
+      return 'the plan was not approved.';
+  }
+
+  // Выполняет инструмент и пишет событие в журнал аудита (/audit). Секреты в аргументах
+  // журнала замаскированы так же, как для провайдеров.
+  private async runTool(
+      tool: ParsedTool,
+      perms: AppPermissions,
+      currentImages: string[],
+      agent: AgentConfig,
+      askId: string,
+      onProgress?: (event: CouncilEvent) => void,
+      signal?: AbortSignal,
+      flags: Pick<ToolTrace, 'planned' | 'member'> = {}
+  ): Promise<string> {
+      const trace: ToolTrace = { decision: 'allowed', ...flags };
+      const cwd = this.tools.getCwd();
+      const files = this.toolPaths(tool).map(p => this.tools.checkPath(p, []).path);
+      const start = Date.now();
+      let output = '';
+      try {
+          output = await this.executeTool(tool, perms, currentImages, onProgress, signal, trace);
+          return output;
+      } finally {
+          const content = this.redact(trace.edited ?? tool.content);
+          this.audit.record({
+              ts: new Date(start).toISOString(),
+              sessionId: this.history.getMeta().id,
+              askId,
+              agentId: agent.id,
+              agentName: agent.name,
+              tool: tool.type,
+              arg: tool.arg ? this.redact(tool.arg) : undefined,
+              content: truncateArg(content),
+              contentHash: sha256(content),
+              cwd,
+              decision: trace.decision,
+              exitCode: trace.exitCode,
+              durationMs: Date.now() - start,
+              outputHash: sha256(output),
+              outputBytes: Buffer.byteLength(output),
+              files: files.length > 0 ? files : undefined
+          });
+      }
+  }
+
+  // Выполняет один инструмент (с проверкой прав) и возвращает текстовый отчет для Председателя
+  private async executeTool(
+      tool: ParsedTool,
+      perms: AppPermissions,
+      currentImages: string[],
+      onProgress?: (event: CouncilEvent) => void,
+      signal?: AbortSignal,
+      trace: ToolTrace = { decision: 'allowed' }
+  ): Promise<string> {
+      // Log specific tool action
+      if (onProgress) {
+          let toolName = '';
+          let toolArg = tool.content;
+          if (tool.type === 'command') toolName = t('tool_bash');
+          if (tool.type === 'file') { toolName = t('tool_file_write'); toolArg = tool.arg; }
+          if (tool.type === 'read') toolName = t('tool_file_read');
+          if (tool.type === 'browser_open') toolName = t('tool_browser_open');
+          if (tool.type === 'browser_search') toolName = t('tool_browser_search');
+          if (tool.type === 'browser_act') toolName = t('tool_browser_act');
+          if (tool.type === 'desktop_screenshot') toolName = t('tool_desktop_screenshot');
+          if (tool.type === 'desktop_act') toolName = t('tool_desktop_act');
+
+          const displayArg = toolArg.length > 50 ? toolArg.substring(0, 47) + '...' : toolArg;
+          onProgress({ type: 'tool_start', payload: { tool: toolName, input: displayArg } });
+      }
+
+      // Check Permissions
+      if (requiredPermissions(tool.type).some(p => !perms[p])) trace.decision = 'denied_permission';
+      if (tool.type === 'command' && !perms.allow_command) {
+          if (onProgress) onProgress({ type: 'error', message: 'Permission denied (command)' });
+          return `Command: ${tool.content}\nError: Permission denied. User has disabled terminal commands in /settings.\n\n`;
+      }
+      if (tool.type === 'file' && !perms.allow_file_write) {
+          if (onProgress) onProgress({ type: 'error', message: 'Permission denied (write)' });
+          return `Write File: ${tool.arg}\nError: Permission denied. User has disabled file writing in /settings.\n\n`;
+      }
+      if (tool.type === 'read' && !perms.allow_file_read) {
+          if (onProgress) onProgress({ type: 'error', message: 'Permission denied (read)' });
+          return `Read File: ${tool.content}\nError: Permission denied. User has disabled file reading in /settings.\n\n`;
+      }
+      if (tool.type === 'tree' && !perms.allow_file_read) {
+          if (onProgress) onProgress({ type: 'error', message: 'Permission denied (read)' });
+          return `Tree View: ${tool.content}\nError: Permission denied. User has disabled file reading in /settings.\n\n`;
+      }
+      if (tool.type === 'search' && (!perms.allow_file_read || !perms.allow_command)) {
+          if (onProgress) onProgress({ type: 'error', message: 'Permission denied (read/command)' });
+          return `Smart Search: ${tool.content}\nError: Permission denied. Requires both 'Read Files' and 'Terminal' permissions.\n\n`;
+      }
+      if ((tool.type === 'browser_open' || tool.type === 'browser_search' || tool.type === 'browser_act') && !perms.allow_browser) {
+          if (onProgress) onProgress({ type: 'error', message: 'Permission denied (browser)' });
+          return `${tool.type}: ${tool.content}\nError: Permission denied. User has disabled browser access in /settings.\n\n`;
+      }
+      if ((tool.type === 'desktop_screenshot' || tool.type === 'desktop_act') && !perms.allow_desktop) {
+          if (onProgress) onProgress({ type: 'error', message: 'Permission denied (desktop)' });
+          return `${tool.type}: ${tool.content}\nError: Permission denied. User has disabled desktop control in /settings.\n\n`;
+      }
+      if (tool.type === 'edit' && !perms.allow_file_edit) {
+          if (onProgress) onProgress({ type: 'error', message: 'Permission denied (edit)' });
+          return `Edit File: ${tool.arg}\nError: Permission denied. User has disabled file editing in /settings.\n\n`;
+      }
+      if (tool.type === 'system_diagnostics' && !perms.allow_command) {
+          if (onProgress) onProgress({ type: 'error', message: 'Permission denied (diagnostics)' });
+          return `System Diagnostics\nError: Permission denied. User has disabled terminal commands in /settings.\n\n`;
+      }
+      if (tool.type === 'ios_config' && !perms.allow_file_edit) {
+          if (onProgress) onProgress({ type: 'error', message: 'Permission denied (ios_config)' });
+          return `iOS Config: ${tool.content}\nError: Permission denied. User has disabled file editing in /settings.\n\n`;
+      }
+
+      const policy = tool.type === 'command' ? this.checkCommandPolicy(tool.content, onProgress) : this.checkWorkspace(tool, onProgress);
+      if (policy.error) {
+          trace.decision = tool.type === 'command' ? 'denied_policy' : 'denied_workspace';
+          return policy.error;
+      }
+
+      const approval = await this.approveTool(tool, perms, onProgress, policy.ask, trace);
+      if ('error' in approval) return approval.error;
+      if (approval.tool.content !== tool.content && tool.type === 'command') {
+          // Исправленная пользователем команда тоже проходит запреты политики
+          const edited = this.checkCommandPolicy(approval.tool.content, onProgress);
+          if (edited.error) {
+              trace.decision = 'denied_policy';
+              return edited.error;
+          }
+      }
+      // Председатель видит секреты как [REDACTED:...]: настоящие значения подставляются только в
+      // содержимое file: и edit:. В командах и URL маска остается — иначе модель могла бы вывести
+      // ключ наружу (curl https://host/?k=[REDACTED:...])
+      tool = tool.type === 'file' || tool.type === 'edit'
+          ? { ...approval.tool, content: this.redactor.restore(approval.tool.content) }
+          : approval.tool;
+
+      let output = '';
+      if (tool.type === 'command') {
+          const res = await this.tools.runCommand(tool.content, signal);
+          trace.exitCode = res.exitCode;
+          output += `Command: ${tool.content}\nOutput: ${res.output}\nError: ${res.error || 'None'}\n\n`;
+      } else if (tool.type === 'file') {
+          const res = await this.tools.writeFile(tool.arg, tool.content);
+          output += `Write File: ${tool.arg}\nResult: ${res.output} ${res.error || ''}\n\n`;
+      } else if (tool.type === 'edit') {
+          const block = this.parseEditBlock(tool.content);
+          if (block) {
+              const res = await this.tools.editFile(tool.arg, block.search, block.replace);
+              output += `Edit File: ${tool.arg}\nResult: ${res.output} ${res.error || ''}\n\n`;
+          } else {
+              output += `Edit File: ${tool.arg}\nError: Invalid format. Must contain <<<<<<< SEARCH, =======, and >>>>>>> blocks.\n\n`;
+          }
+      } else if (tool.type === 'read') {
+          // Parse optional line range: path:start-end
+          const match = tool.content.match(/^(.*?):(\d+)-(\d+)$/);
+          let res;
+          if (match) {
+              const path = match[1];
+              const start = parseInt(match[2]);
+              const end = parseInt(match[3]);
+              res = await this.tools.readFile(path, start, end);
+          } else {
+              res = await this.tools.readFile(tool.content);
+          }
+          
+          output += `Read File: ${tool.content}\nContent:\n${res.output}\nError: ${res.error || ''}\n\n`;
+      } else if (tool.type === 'tree') {
+          const res = await this.tools.treeView(tool.content || '.');
+          output += `Tree View: ${tool.content}\nOutput:\n${res.output}\nError: ${res.error || ''}\n\n`;
+      } else if (tool.type === 'search') {
+          const { query, dir } = this.parseSearchArgs(tool.content);
+          const res = await this.tools.searchSmart(query, dir);
+          output += `Smart Search: "${query}" in "${dir}"\nOutput:\n${res.output}\nError: ${res.error || ''}\n\n`;
+      } else if (tool.type === 'browser_open') {
+          const res = await this.tools.browserOpen(tool.content);
+          output += `Browser Open: ${tool.content}\nContent: ${res.output.substring(0, 2000)}...\nError: ${res.error || ''}\n\n`;
+      } else if (tool.type === 'browser_search') {
+          const res = await this.tools.browserSearch(tool.content);
+          output += `Browser Search: ${tool.content}\nResults:\n${res.output}\nError: ${res.error || ''}\n\n`;
+      } else if (tool.type === 'browser_act') {
+          const res = await this.tools.browserAct(tool.content);
+          output += `Browser Act: ${tool.content}\nResult: ${res.output}\nError: ${res.error || ''}\n\n`;
+          
+          // If screenshot, load it as base64
+          if (tool.content.startsWith('screenshot') && !res.error) {
+              try {
+                  const parts = tool.content.trim().split(' ');
+                  const p = parts[1];
+                  if (p && fs.existsSync(p)) {
+                      const bitmap = fs.readFileSync(p);
+                      const base64 = bitmap.toString('base64');
+                      currentImages.push(base64);
+                      output += `[SYSTEM]: Screenshot attached to context.\n`;
+                  }
+              } catch (e) {
+                  output += `[SYSTEM]: Failed to attach screenshot: ${e}\n`;
+              }
+          }
+      } else if (tool.type === 'desktop_screenshot') {
+          const res = await this.tools.desktopScreenshot(tool.content);
+          output += `Desktop Screenshot: ${tool.content}\nResult: ${res.output}\nError: ${res.error || ''}\n\n`;
+          
+          if (!res.error) {
+               try {
+                  if (fs.existsSync(tool.content)) {
+                      const bitmap = fs.readFileSync(tool.content);
+                      const base64 = bitmap.toString('base64');
+                      currentImages.push(base64);
+                      output += `[SYSTEM]: Desktop Screenshot attached to context.\n`;
+                  }
+              } catch (e) {
+                  output += `[SYSTEM]: Failed to attach screenshot: ${e}\n`;
+              }
+          }
+      } else if (tool.type === 'desktop_act') {
+          const res = await this.tools.desktopAct(tool.content);
+          output += `Desktop Act: ${tool.content}\nResult: ${res.output}\nError: ${res.error || ''}\n\n`;
+      } else if (tool.type === 'system_diagnostics') {
+          const res = await this.tools.runDiagnostics();
+          output += `System Diagnostics:\n${res.output}\nError: ${res.error || ''}\n\n`;
+      } else if (tool.type === 'ios_config') {
+          const res = await this.tools.iosConfig(tool.content);
+          output += `iOS Config:\n${res.output}\nError: ${res.error || ''}\n\n`;
+      }
+
+      return output;
+  }
+
+  // Один запрос к члену Совета (с событиями прогресса и отрисовкой ответа)
+  private async askCouncilMember(
+      agent: AgentConfig,
+      prompt: string,
+      history: Message[],
+      basePrompt: string,
+      usageTag: { askId: string, round: number },
+      onProgress?: (event: CouncilEvent) => void,
+      signal?: AbortSignal,
+      onCouncilResponse?: (res: ProviderResponse) => void,
+      onToken?: (token: StreamToken) => void
+  ): Promise<ProviderResponse> {
+      const apiKey = this.config.getAgentApiKey(agent);
+      const toolTurns = this.config.getCouncilToolTurns();
+      let identityPrompt = `Ты — модель ${agent.model} от провайдера ${agent.providerType}. ${composeSystemPrompt(agent, basePrompt)}`;
+      if (toolTurns > 0) {
+          identityPrompt += agent.toolMode === 'native'
+              ? `\n\n[ИНСТРУМЕНТЫ ЧТЕНИЯ]: Прежде чем советовать, можешь изучить проект функциями чтения (до ${toolTurns} ходов). Когда данных достаточно, дай мнение и опирайся в нем на прочитанное.`
+              : `\n\n[ИНСТРУМЕНТЫ ЧТЕНИЯ]: Прежде чем советовать, можешь изучить проект (до ${toolTurns} ходов). Доступны только эти блоки:\n\`\`\`read:путь/к/файлу\`\`\`\n\`\`\`tree:путь\`\`\`\n\`\`\`search:"запрос" путь\`\`\`\n\`\`\`browser:search запрос\`\`\`\nКоманды, запись и правка файлов тебе недоступны — это делает Председатель. Когда данных достаточно, дай мнение без блоков инструментов и опирайся в нем на прочитанное.`;
+      }
+
+      // Estimate tokens for logging
+      let estimatedTokens = estimateTokens(identityPrompt) + estimateTokens(prompt);
+      for (const m of history) estimatedTokens += estimateTokens(m.text) + (m.images?.length || 0) * 1000;
+
+      if (onProgress) onProgress({ type: 'agent_thinking', payload: { agent, estimatedTokens } });
+
+      const startT = Date.now();
+      const options: SendOptions = onToken ? { onToken: (delta: StreamDelta) => onToken({ ...delta, agentId: agent.id, role: 'council' }) } : {};
+      options.endpoint = this.config.getCustomProvider(agent.customProviderId);
+      options.temperature = agent.temperature;
+      options.redact = this.redact;
+      const send = async (text: string, messages: Message[], sendOptions: SendOptions) => {
+          const res = await sendToProvider(agent, apiKey || '', text, messages, identityPrompt, sendOptions, signal);
+          if (res.usage) this.usage.record(usageTag.askId, agent, 'council', res.usage, usageTag.round);
+          return res;
+      };
+      const response = toolTurns > 0
+          ? await this.memberToolLoop(agent, prompt, history, options, toolTurns, send, usageTag.askId, onProgress, signal)
+          : await send(prompt, history, options);
+      const durationMs = Date.now() - startT;
+      const duration = (durationMs / 1000).toFixed(1);
+
+      // Мнение сохраняется в истории; кому из моделей его показывать, решает getCleanHistory
+      this.history.add({
+          role: 'council',
+          text: response.text,
+          timestamp: Date.now(),
+          providerId: agent.id,
+          model: response.model,
+          round: usageTag.round,
+          reasoning: response.reasoning,
+          error: response.error,
+          askId: usageTag.askId,
+          durationMs
+      });
+
+      if (onProgress) onProgress({ type: 'agent_response', payload: { agent, duration } });
+      if (onCouncilResponse) onCouncilResponse(response);
+      return response;
+  }
+
+  // Цикл инструментов члена Совета: только чтение, свой лимит ходов, те же проверки прав и журнал
+  // аудита. Промежуточные ходы в историю не попадают — мнение для Председателя начинается
+  // со списка того, что член Совета изучил (в начале, чтобы не потерялся при обрезке).
+  private async memberToolLoop(
+      agent: AgentConfig,
+      prompt: string,
+      history: Message[],
+      options: SendOptions,
+      maxTurns: number,
+      send: (prompt: string, history: Message[], options: SendOptions) => Promise<ProviderResponse>,
+      askId: string,
+      onProgress?: (event: CouncilEvent) => void,
+      signal?: AbortSignal
+  ): Promise<ProviderResponse> {
+      const nativeTools = agent.toolMode === 'native';
+      const perms = this.config.getPermissions();
+      const transcript: string[] = [];
+      let messages = history;
+      let currentPrompt = prompt;
+      let response: ProviderResponse;
+
+      for (let turn = 0; ; turn++) {
+          if (signal?.aborted) throw new Error('Aborted');
+          // Последний ход — без инструментов: только итоговое мнение
+          const lastTurn = turn >= maxTurns;
+          response = await send(currentPrompt, messages, nativeTools && !lastTurn ? { ...options, tools: MEMBER_TOOL_SCHEMAS } : options);
+          if (response.error || lastTurn) break;
+
+          // В markdown режиме блоки ```bash и ```file в мнении — советы Председателю, а не вызовы
+          const toolCalls = nativeTools ? (response.toolCalls || []) : [];
+          const tools = nativeTools
+              ? toolCalls.map(call => toolCallToParsed(call))
+              : this.parseTools(response.text).filter(tool => MEMBER_TOOLS.includes(tool.type));
+          if (tools.length === 0) break;
+
+          let outputs = `\n\n--- TOOL OUTPUTS (Turn ${turn + 1}) ---\n`;
+          const toolResults: ToolCallResult[] = [];
+          for (let i = 0; i < tools.length; i++) {
+              const tool = tools[i];
+              const output = tool && MEMBER_TOOLS.includes(tool.type)
+                  ? await this.runTool(tool, perms, [], agent, askId, onProgress, signal, { member: true })
+                  : `Error: Council members can only use read, tree, search and browser:search.\n\n`;
+              if (tool) transcript.push(`- ${tool.type}: ${toolTarget(tool)} → ${toolDigest(output) || '(empty)'}`);
+              outputs += output;
+              if (nativeTools) toolResults.push({ id: toolCalls[i].id, name: toolCalls[i].name, output });
+          }
 
-    return { councilResponses, chairResponse: finalChairResponse };
+          messages = [
+              ...messages,
+              { role: 'user', text: currentPrompt, timestamp: Date.now() },
+              { role: 'assistant', text: response.text, timestamp: Date.now(), toolCalls: nativeTools ? toolCalls : undefined },
+              ...(nativeTools ? [{ role: 'tool' as const, text: outputs, timestamp: Date.now(), toolResults }] : [])
+          ];
+          currentPrompt = (nativeTools ? '' : `${outputs}\n`) + 'Продолжай анализ с учетом результатов инструментов.';
+          if (turn + 1 >= maxTurns) currentPrompt += ' Лимит инструментов исчерпан: дай итоговое мнение без вызова инструментов.';
+      }
+
+      if (transcript.length === 0 || response.error) return response;
+      // Председатель видит, что член Совета изучил и что получил — в начале, чтобы не потерялось при обрезке
+      return { ...response, text: `[Изучено инструментами]\n${transcript.join('\n')}\n\n${response.text}` };
+  }
+
+  // Дебаты Совета: каждый раунд члены Совета видят (обрезанные) позиции коллег
+  // и могут уточнить, опровергнуть или написать "Согласен".
+  private async runDebate(
+      question: string,
+      members: AgentConfig[],
+      firstRound: ProviderResponse[],
+      historyFor: (agentId: string) => Message[],
+      basePrompt: string,
+      rounds: number,
+      askId: string,
+      onProgress?: (event: CouncilEvent) => void,
+      signal?: AbortSignal,
+      onCouncilResponse?: (res: ProviderResponse) => void,
+      onToken?: (token: StreamToken) => void
+  ): Promise<{ finalResponses: ProviderResponse[], summary: string }> {
+      const MAX_OPINION_CHARS = 1500;
+      const truncate = (text: string, max: number) =>
+          text.length > max ? text.substring(0, max) + ' ... [обрезано]' : text;
+      const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+      // Последняя содержательная позиция каждого участника
+      const latest = new Map<string, ProviderResponse>();
+      firstRound.forEach(r => { if (!r.error) latest.set(r.providerId, r); });
+      const changedIn: Record<string, number[]> = {};
+
+      let completedRounds = 1;
+      for (let round = 2; round <= rounds; round++) {
+          if (signal?.aborted) throw new Error('Aborted');
+
+          const participants = members.filter(a => latest.has(a.id));
+          if (participants.length < 2) break; // Спорить не с кем
+
+          if (onProgress) onProgress({ type: 'step', message: `${t('council_debate_round')} ${round}/${rounds}` });
+
+          const roundResponses = await Promise.all(participants.map(agent => {
+              const others = participants
+                  .filter(o => o.id !== agent.id)
+                  .map(o => `[${o.name}]: ${truncate(latest.get(o.id)!.text, MAX_OPINION_CHARS)}`)
+                  .join('\n\n');
+
+              const prompt = `Запрос пользователя: "${question}"\n\n` +
+                  `--- ТВОЯ ТЕКУЩАЯ ПОЗИЦИЯ ---\n${truncate(latest.get(agent.id)!.text, MAX_OPINION_CHARS)}\n\n` +
+                  `--- ПОЗИЦИИ ДРУГИХ ЧЛЕНОВ СОВЕТА ---\n${others}\n\n` +
+                  `---------------------\nРаунд дебатов ${round} из ${rounds}. Пересмотри свою позицию с учетом мнений коллег: ` +
+                  `уточни её, опровергни ошибочные аргументы или дополни. Если тебе нечего добавить и ты согласен с общей картиной — ответь одним словом "Согласен".`;
+
+              return this.askCouncilMember(agent, prompt, historyFor(agent.id), basePrompt, { askId, round }, onProgress, signal, onCouncilResponse, onToken);
+          }));
+          completedRounds = round;
+
+          let changed = 0;
+          for (const r of roundResponses) {
+              const previous = latest.get(r.providerId);
+              if (r.error || !previous || this.isAgreement(r.text)) continue;
+              if (normalize(r.text) === normalize(previous.text)) continue;
+
+              latest.set(r.providerId, r);
+              (changedIn[r.providerId] ||= []).push(round);
+              changed++;
+          }
+
+          if (changed === 0 && this.config.getDebateConvergence()) {
+              if (onProgress) onProgress({ type: 'info', message: `${t('council_debate_converged')} (${round}/${rounds})` });
+              break;
+          }
+      }
+
+      // Короткий дифф: кто изменил мнение и как
+      const snippet = (text: string) => truncate(text.replace(/\s+/g, ' ').trim(), 150);
+      let summary = `Раундов проведено: ${completedRounds} из ${rounds}.\n`;
+      for (const agent of members) {
+          const initial = firstRound.find(r => r.providerId === agent.id);
+          if (!initial || initial.error) continue;
+          const changes = changedIn[agent.id];
+          if (changes) {
+              summary += `- ${agent.name}: изменил позицию (раунд ${changes.join(', ')}). Было: "${snippet(initial.text)}" → Стало: "${snippet(latest.get(agent.id)!.text)}"\n`;
+          } else {
+              summary += `- ${agent.name}: остался при своем мнении.\n`;
+          }
+      }
+
+      const finalResponses = firstRound.map(r => latest.get(r.providerId) || r);
+      return { finalResponses, summary };
+  }
+
+  private isAgreement(text: string): boolean {
+      const cleaned = text.trim().toLowerCase().replace(/[.!*"«»]/g, '').trim();
+      if (cleaned.length > 40) return false;
+      return ['согласен', 'согласна', 'agree', 'agreed', 'i agree'].some(w => cleaned.startsWith(w));
+  }
+
+  // Сжатие истории: старая часть заменяется структурированной сводкой (Секретарь, иначе Председатель),
+  // исходные сообщения уходят в архив. keepCount — сколько последних сообщений оставить; без него
+  // оставляем хвост до половины контекста Председателя. Если сводку получить не удалось — просто отрезаем.
+  public async compactHistory(
+      options: { keepCount?: number; askId?: string } = {},
+      onProgress?: (event: CouncilEvent) => void,
+      signal?: AbortSignal
+  ): Promise<CompactResult> {
+      const msgs = this.history.getMessages();
+      const tokensBefore = this.chairHistoryTokens();
+      const enabled = this.config.getAgents().filter(a => a.enabled);
+      const chair = enabled.find(a => a.id === this.config.getChairId()) || enabled[0];
+
+      let keepCount = options.keepCount;
+      if (keepCount === undefined) {
+          const targetTokens = Math.floor((getModelInfo(chair?.model || '')?.context || 128000) * 0.5);
+          let currentTokens = tokensBefore;
+          keepCount = msgs.length;
+          // Идем с начала (старые сообщения) и "выкидываем" их из подсчета, пока не влезем
+          for (let i = 0; i < msgs.length && currentTokens > targetTokens; i++) {
+              if (msgs[i].role !== 'council') currentTokens -= messageTokens(msgs[i]);
+              keepCount--;
+          }
+          // Защита: оставляем хотя бы 5 последних сообщений
+          keepCount = Math.max(keepCount, 5);
+      }
+
+      // Не начинаем активную часть с результатов инструментов без их вызова
+      let spanLength = msgs.length - keepCount;
+      while (spanLength > 0 && spanLength < msgs.length && msgs[spanLength].role === 'tool') spanLength++;
+      if (spanLength <= 0 || spanLength >= msgs.length) return { removed: 0, tokensBefore, tokensAfter: tokensBefore };
+
+      const summarizer = this.config.getAgent(this.config.getSecretaryId() || '') || chair;
+      let summarizedBy: string | undefined;
+
+      if (summarizer) {
+          if (onProgress) onProgress({ type: 'info', message: `📝 ${t('compact_summarizing')} (${summarizer.name})` });
+          const summary = await this.summarizeSpan(summarizer, msgs.slice(0, spanLength), options.askId || this.usage.newAskId(), signal);
+          if (summary) {
+              this.history.replaceWithSummary(spanLength, `${t('compact_summary_header')}\n\n${summary}`);
+              summarizedBy = summarizer.name;
+          } else if (onProgress) {
+              onProgress({ type: 'error', message: t('compact_summary_failed') });
+          }
+      }
+      if (!summarizedBy) this.history.compact(msgs.length - spanLength);
+
+      return { removed: spanLength, summarizedBy, tokensBefore, tokensAfter: this.chairHistoryTokens() };
   }
 
-  private getCleanHistory() {
-      return this.history.getMessages().map(msg => {
+  // Заполненность контекста Председателя: мнения Совета ему не отправляются (см. getCleanHistory)
+  private chairHistoryTokens(): number {
+      return this.getCleanHistory().reduce((acc, m) => acc + messageTokens(m), 0);
+  }
+
+  // Сводка отрезаемой части: цели, решения, затронутые файлы, открытые задачи
+  private async summarizeSpan(agent: AgentConfig, span: Message[], askId: string, signal?: AbortSignal): Promise<string | null> {
+      const MAX_MESSAGE_CHARS = 4000;
+      // Стенограмма не должна занимать больше 60% контекста суммаризатора
+      const budget = Math.floor((getModelInfo(agent.model)?.context || 128000) * 0.6);
+
+      const lines = span.map(m => {
+          let text = m.text || '';
+          if (m.toolCalls?.length) text += `\n${m.toolCalls.map(c => `[tool call ${c.name} ${JSON.stringify(c.args)}]`).join('\n')}`;
+          if (m.toolResults?.length) text = m.toolResults.map(r => `[tool result ${r.name}]\n${r.output}`).join('\n');
+          if (text.length > MAX_MESSAGE_CHARS) text = `${text.substring(0, MAX_MESSAGE_CHARS)}\n[...]`;
+          if (m.images?.length) text += `\n[${m.images.length} image(s)]`;
+          const author = m.role === 'council' ? ` (${this.config.getAgent(m.providerId || '')?.name || m.providerId})` : '';
+          if (m.error) text += `\n[error: ${m.error}]`;
+          return `### ${m.role.toUpperCase()}${author}\n${text}`;
+      });
+
+      // Не влезает — выкидываем самое старое, но предыдущую сводку сохраняем всегда
+      const pinned = span[0]?.role === 'summary' ? lines.shift() : undefined;
+      let tokens = lines.reduce((acc, l) => acc + estimateTokens(l), estimateTokens(pinned || ''));
+      while (lines.length > 1 && tokens > budget) tokens -= estimateTokens(lines.shift()!);
+      const transcript = [pinned, ...lines].filter(Boolean).join('\n\n');
+
+      try {
+          const res = await sendToProvider(agent, this.config.getAgentApiKey(agent) || '', transcript, [], t('sys_compact_summary'), {
+              temperature: 0,
+              endpoint: this.config.getCustomProvider(agent.customProviderId),
+              redact: this.redact
+          }, signal);
+          if (res.usage) this.usage.record(askId, agent, agent.id === this.config.getSecretaryId() ? 'secretary' : 'chair', res.usage);
+          return !res.error && res.text.trim() ? res.text.trim() : null;
+      } catch (err: any) {
+          if (signal?.aborted) throw err;
+          return null;
+      }
+  }
+
+  // История для модели. Председатель (viewerId не задан) видит вопросы, свои ответы и инструменты —
+  // мнения Совета по текущему запросу он получает в промпте. Член Совета видит то же и свою
+  // последнюю позицию по каждому прошлому запросу, но не мнения коллег.
+  private getCleanHistory(viewerId?: string) {
+      const messages = this.history.getMessages();
+      const ownOpinions = new Map<string | undefined, Message>();
+      if (viewerId) {
+          for (const msg of messages) {
+              if (msg.role !== 'council' || msg.providerId !== viewerId || msg.error || !msg.text.trim()) continue;
+              // "Согласен" в дебатах не меняет позицию
+              if (!ownOpinions.has(msg.askId) || !this.isAgreement(msg.text)) ownOpinions.set(msg.askId, msg);
+          }
+      }
+
+      return messages.filter(msg => msg.role !== 'council' || ownOpinions.get(msg.askId) === msg).map(msg => {
           if (msg.role === 'assistant') {
               let text = msg.text;
               // Remove explicit blocks with AGGRESSIVE regex
@@ -630,6 +1525,7 @@ export class Council {
       question: string, 
       councilResponses: ProviderResponse[], 
       chairAnswer: string,
+      askId: string,
       onProgress?: (event: CouncilEvent) => void
   ) {
       const secretary = this.config.getAgent(secretaryId);
@@ -637,7 +1533,7 @@ export class Council {
 
       if (onProgress) onProgress({ type: 'info', message: `📝 ${t('status_secretary')} analyzing efficiency...` });
 
-      const apiKey = this.config.getApiKey(secretary.providerType);
+      const apiKey = this.config.getAgentApiKey(secretary);
       const chairId = this.config.getChairId();
       
       let prompt = `User Question: "${question}"\n\n`;
@@ -655,7 +1551,12 @@ export class Council {
 
       let rawJson = '';
       try {
-          const res = await sendToProvider(secretary, apiKey || '', prompt, [], t('sys_secretary'), { temperature: 0 });
+          const res = await sendToProvider(secretary, apiKey || '', prompt, [], t('sys_secretary'), {
+              temperature: 0,
+              endpoint: this.config.getCustomProvider(secretary.customProviderId),
+              redact: this.redact
+          });
+          if (res.usage) this.usage.record(askId, secretary, 'secretary', res.usage);
           
           rawJson = res.text.trim();
           if (!rawJson) {
@@ -832,7 +1733,7 @@ export class Council {
       return working;
   }
 
-  public parseTools(text: string): { type: 'command' | 'file' | 'edit' | 'read' | 'tree' | 'search' | 'browser_open' | 'browser_search' | 'browser_act' | 'desktop_screenshot' | 'desktop_act' | 'system_diagnostics' | 'ios_config', content: string, arg: string }[] {
+  public parseTools(text: string): ParsedTool[] {
     const results: { type: any, content: string, arg: string, index: number }[] = [];
     
     // Regex для bash (command)
@@ -0,0 +1,338 @@
+// Экспорт сессии (/export): Markdown (картинки — файлами рядом), самодостаточный HTML (картинки встроены) и JSON
+import fs from 'node:fs';
+import path from 'node:path';
+import { Message, SessionMeta, ToolCall } from './types.js';
+import { questionIndexes } from './history.js';
+import { UsageRecord } from './usage.js';
+import { getMimeType } from './providers.js';
+import { formatCost } from './commands.js';
+import { t } from './i18n.js';
+
+export type ExportFormat = 'md' | 'html' | 'json';
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'html', 'json'];
+
+export interface ExportAgent {
+  name: string;
+  model?: string;
+}
+
+// Мнение члена Совета
+export interface TranscriptOpinion {
+  agent: string;
+  model?: string;
+  round: number;
+  text: string;
+  reasoning?: string;
+  error?: string;
+  durationMs?: number;
+  cost?: number;
+}
+
+// Ход Председателя или результат инструментов
+export interface TranscriptStep {
+  kind: 'chair' | 'tool';
+  text: string;
+  agent?: string;
+  model?: string;
+  turn?: number;
+  toolCalls?: ToolCall[];
+  images?: string[];
+  durationMs?: number;
+  cost?: number;
+}
+
+// Один вопрос пользователя со всем, что было сделано для ответа
+export interface TranscriptTurn {
+  askId?: string;
+  question: string;
+  timestamp: number;
+  images?: string[];
+  council: TranscriptOpinion[];
+  steps: TranscriptStep[];
+  answer?: string;
+  durationMs: number;
+  cost: number;
+}
+
+export interface Transcript {
+  meta: SessionMeta;
+  exportedAt: number;
+  summaries: string[]; // Сводки сжатой истории (исходные сообщения — в архиве)
+  turns: TranscriptTurn[];
+  cost: number;
+}
+
+export function buildTranscript(
+  meta: SessionMeta,
+  messages: Message[],
+  usage: UsageRecord[],
+  resolveAgent: (id: string) => ExportAgent | undefined,
+  now: number = Date.now()
+): Transcript {
+  const transcript: Transcript = { meta, exportedAt: now, summaries: [], turns: [], cost: 0 };
+  let current: TranscriptTurn | undefined;
+  let lastTimestamp = 0;
+  const questions = new Set(questionIndexes(messages));
+
+  const costOf = (askId: string | undefined, match: (r: UsageRecord) => boolean) => {
+    if (!askId) return undefined;
+    const records = usage.filter(r => r.askId === askId && match(r));
+    return records.length > 0 ? records.reduce((acc, r) => acc + r.cost, 0) : undefined;
+  };
+
+  const finish = () => {
+    if (!current) return;
+    // Ответ — последний ход Председателя, после которого инструменты уже не вызывались
+    const last = current.steps[current.steps.length - 1];
+    if (last?.kind === 'chair' && !last.toolCalls?.length) current.answer = last.text;
+    current.durationMs = Math.max(0, lastTimestamp - current.timestamp);
+    current.cost = costOf(current.askId, () => true) || 0;
+    transcript.cost += current.cost;
+    transcript.turns.push(current);
+  };
+
+  messages.forEach((msg, index) => {
+    if (msg.role === 'summary') {
+      transcript.summaries.push(msg.text);
+      return;
+    }
+    // Сообщения сессии группируются по вопросам
+    if (questions.has(index) || !current) {
+      finish();
+      current = { askId: msg.askId, question: msg.text, timestamp: msg.timestamp, images: msg.images, council: [], steps: [], durationMs: 0, cost: 0 };
+      lastTimestamp = msg.timestamp;
+      if (msg.role === 'user') return;
+    }
+    lastTimestamp = msg.timestamp;
+    const agent = msg.providerId ? resolveAgent(msg.providerId) : undefined;
+
+    if (msg.role === 'council') {
+      const round = msg.round || 1;
+      current.council.push({
+        agent: agent?.name || msg.providerId || '?',
+        model: msg.model || agent?.model,
+        round,
+        text: msg.text,
+        reasoning: msg.reasoning,
+        error: msg.error,
+        durationMs: msg.durationMs,
+        cost: costOf(current.askId, r => r.role === 'council' && r.agentId === msg.providerId && (r.turn || 1) === round)
+      });
+    } else if (msg.role === 'assistant' || msg.role === 'chair') {
+      const turn = current.steps.filter(s => s.kind === 'chair').length + 1;
+      current.steps.push({
+        kind: 'chair',
+        text: msg.text,
+        agent: agent?.name,
+        model: agent?.model,
+        turn,
+        toolCalls: msg.toolCalls,
+        images: msg.images,
+        durationMs: msg.durationMs,
+        cost: costOf(current.askId, r => r.role === 'chair' && r.turn === turn)
+      });
+    } else {
+      current.steps.push({ kind: 'tool', text: msg.text.trim(), images: msg.images });
+    }
+  });
+  finish();
+  return transcript;
+}
+
+function formatDuration(ms?: number): string | undefined {
+  return ms === undefined ? undefined : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatDate(ts: number): string {
+  return new Date(ts).toISOString().replace('T', ' ').substring(0, 19);
+}
+
+// "модель · 2.1s · $0.0012" — только то, что известно
+function details(...parts: (string | undefined)[]): string {
+  return parts.filter(Boolean).join(' · ');
+}
+
+function costLabel(cost?: number): string | undefined {
+  return cost === undefined ? undefined : formatCost(cost);
+}
+
+function opinionTitle(o: TranscriptOpinion): string {
+  return details(o.round > 1 ? `${t('cost_round')} ${o.round}` : undefined, o.model, formatDuration(o.durationMs), costLabel(o.cost));
+}
+
+function stepTitle(s: TranscriptStep): string {
+  return details(`${t('cost_turn')} ${s.turn}`, s.model, formatDuration(s.durationMs), costLabel(s.cost));
+}
+
+function toolCallLine(call: ToolCall): string {
+  return `${call.name} ${JSON.stringify(call.args)}`;
+}
+
+// Ограда для кода длиннее любой последовательности ` внутри текста
+function fence(text: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) || []).map(m => m.length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}\n${text}\n${ticks}`;
+}
+
+function quote(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+// saveImage сохраняет картинку рядом с файлом и возвращает относительную ссылку на нее
+export function toMarkdown(transcript: Transcript, saveImage: (base64: string) => string): string {
+  const { meta } = transcript;
+  const out: string[] = [`# ${meta.title || t('sessions_untitled')}`, ''];
+  out.push(`- ${t('export_session')}: \`${meta.id}\`, ${formatDate(meta.created)}${meta.team ? ` · ${meta.team}` : ''}`);
+  out.push(`- ${t('export_cwd')}: \`${meta.cwd}\``);
+  out.push(`- ${t('export_exported')}: ${formatDate(transcript.exportedAt)} · ${t('export_total')}: ${formatCost(transcript.cost)}`, '');
+
+  const images = (list?: string[]) => (list || []).map((img, i) => `![image ${i + 1}](${saveImage(img)})`).join('\n');
+
+  for (const summary of transcript.summaries) {
+    out.push(`## ${t('export_summary')}`, '', quote(summary), '');
+  }
+
+  transcript.turns.forEach((turn, i) => {
+    out.push(`## ${i + 1}. ${turn.question.split('\n')[0].substring(0, 80)}`, '');
+    out.push(`*${details(formatDate(turn.timestamp), formatDuration(turn.durationMs), formatCost(turn.cost))}*`, '');
+    out.push(`### ${t('export_question')}`, '', turn.question, '');
+    if (turn.images?.length) out.push(images(turn.images), '');
+
+    if (turn.council.length > 0) {
+      out.push(`### ${t('agents_council')}`, '');
+      for (const o of turn.council) {
+        out.push(`#### ${o.agent}`, '', `*${opinionTitle(o)}*`, '');
+        if (o.error) out.push(`**${t('error')}:** ${o.error}`, '');
+        if (o.text) out.push(o.text, '');
+        if (o.reasoning) out.push('<details>', `<summary>${t('export_reasoning')}</summary>`, '', fence(o.reasoning), '', '</details>', '');
+      }
+    }
+
+    for (const step of turn.steps) {
+      if (step.kind === 'tool') {
+        out.push(`### ${t('export_tool_output')}`, '', fence(step.text), '');
+      } else {
+        const isAnswer = turn.answer !== undefined && step === turn.steps[turn.steps.length - 1];
+        out.push(`### ${isAnswer ? t('export_answer') : t('agents_chair')}${step.agent ? ` — ${step.agent}` : ''}`, '', `*${stepTitle(step)}*`, '', step.text, '');
+        if (step.toolCalls?.length) out.push(fence(step.toolCalls.map(toolCallLine).join('\n')), '');
+      }
+      if (step.images?.length) out.push(images(step.images), '');
+    }
+  });
+
+  return out.join('\n').trimEnd() + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; max-width: 960px; margin: 2em auto; padding: 0 1em; color: #222; line-height: 1.5; }
+h1 { border-bottom: 2px solid #ddd; padding-bottom: .3em; }
+h2 { margin-top: 2em; border-bottom: 1px solid #eee; }
+.meta, .details { color: #777; font-size: .9em; }
+.text { white-space: pre-wrap; word-wrap: break-word; }
+pre { background: #f6f8fa; padding: .8em; overflow-x: auto; white-space: pre-wrap; word-wrap: break-word; }
+.block { border-left: 3px solid #ccc; padding: .2em 1em; margin: 1em 0; }
+.question { border-color: #2b7bb9; } .council { border-color: #3fa34d; } .chair { border-color: #c79100; }
+.tool { border-color: #999; } .answer { border-color: #c79100; background: #fffbea; } .summary { border-color: #8a63d2; }
+.error { color: #c62828; }
+img { max-width: 100%; border: 1px solid #ddd; margin: .5em 0; }
+`;
+
+// Один файл без внешних ресурсов: стили внутри, картинки как data: URI
+export function toHtml(transcript: Transcript): string {
+  const { meta } = transcript;
+  const e = escapeHtml;
+  const images = (list?: string[]) => (list || []).map(img => `<img src="data:${getMimeType(img)};base64,${img}" alt="">`).join('\n');
+  const block = (cls: string, title: string, detailLine: string, body: string) =>
+    `<div class="block ${cls}"><h3>${e(title)}</h3>${detailLine ? `<div class="details">${e(detailLine)}</div>` : ''}\n${body}</div>`;
+
+  const body: string[] = [
+    `<h1>${e(meta.title || t('sessions_untitled'))}</h1>`,
+    `<div class="meta">${e(details(`${t('export_session')}: ${meta.id}`, formatDate(meta.created), meta.team, meta.cwd))}<br>` +
+      `${e(details(`${t('export_exported')}: ${formatDate(transcript.exportedAt)}`, `${t('export_total')}: ${formatCost(transcript.cost)}`))}</div>`
+  ];
+
+  for (const summary of transcript.summaries) {
+    body.push(block('summary', t('export_summary'), '', `<div class="text">${e(summary)}</div>`));
+  }
+
+  transcript.turns.forEach((turn, i) => {
+    body.push(`<h2>${i + 1}. ${e(turn.question.split('\n')[0].substring(0, 80))}</h2>`);
+    body.push(`<div class="details">${e(details(formatDate(turn.timestamp), formatDuration(turn.durationMs), formatCost(turn.cost)))}</div>`);
+    body.push(block('question', t('export_question'), '', `<div class="text">${e(turn.question)}</div>${images(turn.images)}`));
+
+    for (const o of turn.council) {
+      const parts = [
+        o.error ? `<div class="error">${e(t('error'))}: ${e(o.error)}</div>` : '',
+        o.text ? `<div class="text">${e(o.text)}</div>` : '',
+        o.reasoning ? `<details><summary>${e(t('export_reasoning'))}</summary><pre>${e(o.reasoning)}</pre></details>` : ''
+      ];
+      body.push(block('council', `${t('agents_council')}: ${o.agent}`, opinionTitle(o), parts.join('\n')));
+    }
+
+    for (const step of turn.steps) {
+      if (step.kind === 'tool') {
+        body.push(block('tool', t('export_tool_output'), '', `<pre>${e(step.text)}</pre>${images(step.images)}`));
+        continue;
+      }
+      const isAnswer = turn.answer !== undefined && step === turn.steps[turn.steps.length - 1];
+      const calls = step.toolCalls?.length ? `<pre>${e(step.toolCalls.map(toolCallLine).join('\n'))}</pre>` : '';
+      body.push(block(isAnswer ? 'answer' : 'chair', `${isAnswer ? t('export_answer') : t('agents_chair')}${step.agent ? ` — ${step.agent}` : ''}`,
+        stepTitle(step), `<div class="text">${e(step.text)}</div>${calls}${images(step.images)}`));
+    }
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${e(meta.title || meta.id)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+// JSON — та же стенограмма, картинки в base64
+export function toJson(transcript: Transcript): string {
+  return JSON.stringify(transcript, null, 2) + '\n';
+}
+
+// Имя файла по умолчанию: hause-<заголовок>.<ext>
+export function defaultExportName(meta: SessionMeta, format: ExportFormat): string {
+  const slug = (meta.title || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').substring(0, 50);
+  return `hause-${slug || meta.id}.${format}`;
+}
+
+// Записывает файл; для Markdown картинки кладутся в папку <имя>_files рядом. Возвращает число картинок.
+export function writeExport(transcript: Transcript, format: ExportFormat, file: string): number {
+  let imageCount = 0;
+  let content: string;
+  if (format === 'md') {
+    const base = path.basename(file, path.extname(file));
+    const assetsDir = `${base}_files`;
+    content = toMarkdown(transcript, img => {
+      const dir = path.join(path.dirname(file), assetsDir);
+      if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+      const name = `image-${++imageCount}.${getMimeType(img).split('/')[1].replace('jpeg', 'jpg')}`;
+      fs.writeFileSync(path.join(dir, name), Buffer.from(img, 'base64'));
+      return `${encodeURI(assetsDir)}/${name}`;
+    });
+  } else if (format === 'html') {
+    content = toHtml(transcript);
+    imageCount = transcript.turns.reduce((acc, turn) =>
+      acc + (turn.images?.length || 0) + turn.steps.reduce((n, s) => n + (s.images?.length || 0), 0), 0);
+  } else {
+    content = toJson(transcript);
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+  return imageCount;
+}
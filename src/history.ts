@@ -1,38 +1,233 @@
-// Управление историей диалога ~/.council-ai/history.json
+// Управление историей диалога: сессии ~/.council-ai/sessions/<id>.json
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
-import { Message } from './types.js';
+import { Message, SessionMeta } from './types.js';
 
 const CONFIG_DIR = path.join(os.homedir(), '.council-ai');
-const HISTORY_FILE = path.join(CONFIG_DIR, 'history.json');
+const SESSIONS_DIR = path.join(CONFIG_DIR, 'sessions');
+const ARCHIVE_DIR = path.join(CONFIG_DIR, 'archive'); // Исходные сообщения, замененные сводкой: archive/<sessionId>/<archiveId>.json
+const CHECKPOINTS_DIR = path.join(CONFIG_DIR, 'checkpoints'); // Снимки файлов до правок агентов (CheckpointStore)
+const LEGACY_HISTORY_FILE = path.join(CONFIG_DIR, 'history.json'); // До сессий: одна общая история
+
+const TITLE_MAX_LENGTH = 60;
+
+interface SessionFile {
+  meta: SessionMeta;
+  messages: Message[];
+}
+
+export interface SessionSummary extends SessionMeta {
+  messageCount: number;
+}
+
+// Вывод инструментов в markdown-режиме пишется в историю как сообщение пользователя
+const TOOL_OUTPUTS_MARKER = '--- TOOL OUTPUTS';
+
+// Индексы вопросов пользователя: новый askId, а в старых сессиях без askId —
+// любое сообщение пользователя, кроме вывода инструментов
+export function questionIndexes(messages: Message[]): number[] {
+  const indexes: number[] = [];
+  let askId: string | undefined;
+  messages.forEach((m, i) => {
+    if (m.role !== 'user') return;
+    const isQuestion = m.askId ? m.askId !== askId : !m.text.trimStart().startsWith(TOOL_OUTPUTS_MARKER);
+    askId = m.askId;
+    if (isQuestion) indexes.push(i);
+  });
+  return indexes;
+}
+
+// Ветки под родителями (родители — по убыванию updated); ветка удаленной сессии становится корнем
+export function sessionTree(sessions: SessionSummary[]): { session: SessionSummary; depth: number }[] {
+  const ids = new Set(sessions.map(s => s.id));
+  const children = new Map<string | undefined, SessionSummary[]>();
+  for (const s of sessions) {
+    const parent = s.parentId && ids.has(s.parentId) ? s.parentId : undefined;
+    if (!children.has(parent)) children.set(parent, []);
+    children.get(parent)!.push(s);
+  }
+
+  const result: { session: SessionSummary; depth: number }[] = [];
+  const walk = (parent: string | undefined, depth: number) => {
+    for (const s of children.get(parent) || []) {
+      result.push({ session: s, depth });
+      walk(s.id, depth + 1);
+    }
+  };
+  walk(undefined, 0);
+  return result;
+}
+
+// Заголовок по умолчанию — начало первого вопроса
+export function titleFromQuestion(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > TITLE_MAX_LENGTH ? `${line.substring(0, TITLE_MAX_LENGTH - 1)}…` : line;
+}
+
+function sessionFile(id: string): string {
+  return path.join(SESSIONS_DIR, `${id}.json`);
+}
+
+function readSession(file: string): SessionFile | null {
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!data?.meta?.id || !Array.isArray(data.messages)) return null;
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+function ensureDir() {
+  // Secure directory: 700
+  if (!fs.existsSync(SESSIONS_DIR)) {
+    fs.mkdirSync(SESSIONS_DIR, { recursive: true, mode: 0o700 });
+  }
+}
 
 export class HistoryManager {
   private messages: Message[] = [];
+  private meta: SessionMeta;
+  private persist: boolean;
+  private archive = new Map<string, Message[]>();
 
-  constructor() {
-    // Не загружаем историю автоматически при старте, чтобы каждая сессия была новой.
-    // this.load();
+  // persist: false — разовый запрос (`hause ask`), сессии на диске не трогаем
+  constructor(options: { persist?: boolean } = {}) {
+    this.persist = options.persist ?? true;
+    this.meta = this.createMeta();
+    if (this.persist) this.migrateLegacy();
+    // Не загружаем историю автоматически: при старте пользователь выбирает сессию сам
   }
 
-  public load() {
-    try {
-      const raw = fs.readFileSync(HISTORY_FILE, 'utf8');
-      this.messages = JSON.parse(raw);
-    } catch {
+  private createMeta(): SessionMeta {
+    const now = Date.now();
+    return {
+      id: `${now.toString(36)}-${Math.random().toString(36).substring(2, 6)}`,
+      title: '',
+      created: now,
+      updated: now,
+      cwd: process.cwd()
+    };
+  }
+
+  // Без id — последняя сессия
+  public load(id?: string): boolean {
+    const targetId = id || this.listSessions()[0]?.id;
+    const data = targetId ? readSession(sessionFile(targetId)) : null;
+    if (!data) {
       this.messages = [];
+      return false;
     }
+    this.meta = data.meta;
+    this.messages = data.messages;
+    return true;
+  }
+
+  // Новая пустая сессия; файл появится с первым сообщением
+  public newSession(team?: string) {
+    this.meta = { ...this.createMeta(), team };
+    this.messages = [];
   }
 
   private save() {
-    const tempFile = HISTORY_FILE + '.tmp';
-    // Secure directory: 700
-    if (!fs.existsSync(CONFIG_DIR)) {
-        fs.mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o700 });
-    }
+    if (!this.persist) return;
+    ensureDir();
+    this.meta.updated = Date.now();
+    const file = sessionFile(this.meta.id);
+    const tempFile = file + '.tmp';
     // Secure file: 600
-    fs.writeFileSync(tempFile, JSON.stringify(this.messages, null, 2), { mode: 0o600 });
-    fs.renameSync(tempFile, HISTORY_FILE);
+    fs.writeFileSync(tempFile, JSON.stringify({ meta: this.meta, messages: this.messages }, null, 2), { mode: 0o600 });
+    fs.renameSync(tempFile, file);
+  }
+
+  private migrateLegacy() {
+    try {
+      if (!fs.existsSync(LEGACY_HISTORY_FILE)) return;
+      const messages: Message[] = JSON.parse(fs.readFileSync(LEGACY_HISTORY_FILE, 'utf8'));
+      if (Array.isArray(messages) && messages.length > 0) {
+        const firstQuestion = messages.find(m => m.role === 'user');
+        const created = messages[0].timestamp || Date.now();
+        const meta: SessionMeta = {
+          ...this.createMeta(),
+          title: firstQuestion ? titleFromQuestion(firstQuestion.text) : '',
+          titleSource: 'question',
+          created,
+          updated: messages[messages.length - 1].timestamp || created
+        };
+        ensureDir();
+        fs.writeFileSync(sessionFile(meta.id), JSON.stringify({ meta, messages }, null, 2), { mode: 0o600 });
+      }
+      fs.renameSync(LEGACY_HISTORY_FILE, LEGACY_HISTORY_FILE + '.bak');
+    } catch {
+      // Битый старый файл не мешает работе
+    }
+  }
+
+  getMeta(): SessionMeta {
+    return this.meta;
+  }
+
+  // Переименование пользователем: больше не перезаписывается автоматически
+  setTitle(title: string, source: SessionMeta['titleSource'] = 'user') {
+    this.meta.title = title;
+    this.meta.titleSource = source;
+    if (this.messages.length > 0) this.save();
+  }
+
+  setTeam(team: string | undefined) {
+    this.meta.team = team;
+  }
+
+  // Сессии, новые сверху
+  listSessions(): SessionSummary[] {
+    if (!this.persist || !fs.existsSync(SESSIONS_DIR)) return [];
+    return fs.readdirSync(SESSIONS_DIR)
+      .filter(f => f.endsWith('.json'))
+      .map(f => readSession(path.join(SESSIONS_DIR, f)))
+      .filter((s): s is SessionFile => !!s)
+      .map(s => ({ ...s.meta, messageCount: s.messages.length }))
+      .sort((a, b) => b.updated - a.updated);
+  }
+
+  // Поиск по заголовку и тексту сообщений (без учета регистра)
+  searchSessions(query: string): SessionSummary[] {
+    const q = query.trim().toLowerCase();
+    if (!q) return this.listSessions();
+    return this.listSessions().filter(s => {
+      if (s.title.toLowerCase().includes(q)) return true;
+      const data = readSession(sessionFile(s.id));
+      return !!data?.messages.some(m => m.text?.toLowerCase().includes(q));
+    });
+  }
+
+  renameSession(id: string, title: string) {
+    if (id === this.meta.id) {
+      this.setTitle(title);
+      return;
+    }
+    const data = readSession(sessionFile(id));
+    if (!data) return;
+    data.meta.title = title;
+    data.meta.titleSource = 'user';
+    fs.writeFileSync(sessionFile(id), JSON.stringify(data, null, 2), { mode: 0o600 });
+  }
+
+  // Удаление текущей сессии начинает новую
+  deleteSession(id: string) {
+    try {
+      fs.rmSync(sessionFile(id), { force: true });
+    } catch {
+      // ignore
+    }
+    for (const dir of [ARCHIVE_DIR, CHECKPOINTS_DIR]) {
+      try {
+        fs.rmSync(path.join(dir, id), { recursive: true, force: true });
+      } catch {
+        // ignore
+      }
+    }
+    if (id === this.meta.id) this.newSession(this.meta.team);
   }
 
   getMessages(): Message[] {
@@ -44,6 +239,10 @@ export class HistoryManager {
   }
 
   add(msg: Message) {
+    if (!this.meta.title && msg.role === 'user') {
+      this.meta.title = titleFromQuestion(msg.text);
+      this.meta.titleSource = 'question';
+    }
     this.messages.push(msg);
     this.save();
   }
@@ -53,6 +252,79 @@ export class HistoryManager {
     this.save();
   }
 
+  // Откат (/rewind, /retry): удаляет сообщения начиная с index
+  truncate(index: number) {
+    if (index < 0 || index >= this.messages.length) return;
+    this.messages = this.messages.slice(0, index);
+    this.save();
+  }
+
+  // Ветка (/branch): новая сессия с первыми count сообщениями текущей; она становится текущей.
+  // Архив сводок копируется, чтобы /compact expand работал и в ветке.
+  branch(count: number, title: string): SessionMeta {
+    const parent = this.meta;
+    const messages = this.messages.slice(0, count);
+    this.meta = {
+      ...this.createMeta(),
+      title,
+      titleSource: 'user',
+      team: parent.team,
+      parentId: parent.id,
+      parentIndex: messages.length
+    };
+    this.messages = messages;
+
+    const parentArchive = path.join(ARCHIVE_DIR, parent.id);
+    if (this.persist && fs.existsSync(parentArchive)) {
+      fs.cpSync(parentArchive, path.join(ARCHIVE_DIR, this.meta.id), { recursive: true });
+    }
+    if (this.messages.length > 0) this.save();
+    return this.meta;
+  }
+
+  // Заменяет первые count сообщений закрепленной сводкой; исходные сообщения уходят в архив
+  replaceWithSummary(count: number, text: string): Message {
+    const archived = this.messages.slice(0, count);
+    const archiveId = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 6)}`;
+    this.archive.set(archiveId, archived);
+    if (this.persist) {
+      const dir = path.join(ARCHIVE_DIR, this.meta.id);
+      if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+      fs.writeFileSync(path.join(dir, `${archiveId}.json`), JSON.stringify(archived, null, 2), { mode: 0o600 });
+    }
+
+    const summary: Message = {
+      role: 'summary',
+      text,
+      timestamp: archived[archived.length - 1]?.timestamp ?? Date.now(),
+      archiveId
+    };
+    this.messages = [summary, ...this.messages.slice(count)];
+    this.save();
+    return summary;
+  }
+
+  getArchived(archiveId: string): Message[] | null {
+    const cached = this.archive.get(archiveId);
+    if (cached) return cached;
+    try {
+      return JSON.parse(fs.readFileSync(path.join(ARCHIVE_DIR, this.meta.id, `${archiveId}.json`), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  // Разворачивает закрепленную сводку обратно в исходные сообщения (в них может быть предыдущая сводка)
+  expandSummary(): number {
+    const summary = this.messages[0];
+    if (summary?.role !== 'summary' || !summary.archiveId) return 0;
+    const archived = this.getArchived(summary.archiveId);
+    if (!archived) return 0;
+    this.messages = [...archived, ...this.messages.slice(1)];
+    this.save();
+    return archived.length;
+  }
+
   compact(keepCount: number = 10) {
     if (this.messages.length > keepCount) {
       this.messages = this.messages.slice(-keepCount);
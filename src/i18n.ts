@@ -6,13 +6,27 @@ export const I18N: Record<Language, Record<string, string>> = {
     'cmd_login': 'Ключи API',
     'cmd_agents': 'Управление агентами',
     'cmd_council': 'Вкл/Выкл Совет',
+    'cmd_team': 'Команды (составы)',
     'cmd_stats': 'Эффективность',
+    'cmd_cost': 'Расход токенов и стоимость',
+    'cmd_budget': 'Бюджеты расходов',
     'cmd_status': 'Статус команды',
     'cmd_mute': 'Тихий режим',
     'cmd_compact': 'Сжать память',
     'cmd_lang': 'Язык / Language',
     'cmd_settings': 'Настройки доступа',
     'cmd_new': 'Новый чат',
+    'cmd_sessions': 'Сессии (список, поиск)',
+    'cmd_export': 'Экспорт сессии (md, html, json)',
+    'cmd_rewind': 'Вернуться к прежнему вопросу и задать его заново',
+    'cmd_branch': 'Ответвить новую сессию от текущей',
+    'cmd_retry': 'Повторить последний вопрос (team|chair <имя>)',
+    'cmd_changes': 'Изменения файлов агентами (диффы)',
+    'cmd_undo': 'Откатить изменения файлов последнего запроса',
+    'cmd_plan': 'Режим плана: действия только после вашего выбора (/plan, /plan <вопрос>)',
+    'cmd_policy': 'Правила команд терминала (/policy test <команда> — проверить)',
+    'cmd_redactions': 'Секреты, скрытые от провайдеров в последнем запросе',
+    'cmd_audit': 'Журнал действий агентов (/audit 50 tool=command decision=denied since=1d)',
     'cmd_exit': 'Выход',
     'cmd_update': 'Обновить',
     'cmd_doctor': 'Диагностика системы',
@@ -34,15 +48,95 @@ export const I18N: Record<Language, Record<string, string>> = {
     'setup_now_prompt': 'Настроить агентов сейчас?',
     'yes': 'Да',
     'no': 'Нет',
-    'resume_session_title': 'НАЙДЕНА ПРЕДЫДУЩАЯ СЕССИЯ',
-    'resume_session_desc': 'Хотите загрузить историю сообщений?',
-    'resume_session_yes': 'Да, загрузить историю',
-    'resume_session_no': 'Нет, начать с нуля',
+    'resume_session_title': 'ПРОДОЛЖИТЬ СЕССИЮ?',
+    'resume_session_no': '+ Новая сессия',
     'history_loaded': '✓ История загружена',
+    'sessions_title': 'Сессии',
+    'sessions_messages': 'сообщ.',
+    'sessions_untitled': '(без названия)',
+    'sessions_empty': 'Сессий пока нет',
+    'sessions_search': 'Поиск',
+    'sessions_search_prompt': 'Текст для поиска (в заголовках и сообщениях)',
+    'sessions_all': 'Все сессии',
+    'sessions_resume': 'Продолжить',
+    'sessions_rename': 'Переименовать',
+    'sessions_delete': 'Удалить',
+    'sessions_delete_confirm': 'Удалить сессию',
+    'sessions_deleted': '✓ Сессия удалена',
+    'sessions_cwd_hint': 'Сессия начиналась в папке',
+    'export_format': 'Формат экспорта',
+    'export_empty': 'В сессии пока нет сообщений',
+    'export_bad_format': 'Неизвестный формат',
+    'export_done': '✓ Сессия сохранена',
+    'export_failed': 'Не удалось экспортировать',
+    'export_images': 'Картинок',
+    'export_session': 'Сессия',
+    'export_cwd': 'Папка',
+    'export_exported': 'Экспорт',
+    'export_total': 'Итого',
+    'export_summary': 'Сводка ранних сообщений',
+    'export_question': 'Вопрос',
+    'export_reasoning': 'Рассуждения',
+    'export_tool_output': 'Результаты инструментов',
+    'export_answer': 'Ответ',
+    'rewind_select': 'С какого вопроса начать заново? (история с него будет удалена)',
+    'rewind_empty': 'В сессии пока нет вопросов',
+    'rewind_done': '✓ История отмотана, удалено сообщений',
+    'branch_select': 'Откуда ответвить новую сессию?',
+    'branch_current': 'С текущего места (вся история)',
+    'branch_after': 'После ответа на',
+    'branch_title': 'Название ветки',
+    'branch_suffix': 'ветка',
+    'branch_done': '✓ Вы в новой ветке',
+    'branch_parent': 'Ответвлена от',
+    'retry_usage': 'Использование: /retry [team <команда> | chair <агент>]',
+    'retry_agent_not_found': 'Агент не найден',
+    'retry_running': 'Повторяем последний вопрос...',
+    'changes_title': 'Изменения файлов (новые сверху)',
+    'changes_empty': 'Агенты пока не меняли файлы в этой сессии',
+    'changes_files': 'файл(ов)',
+    'changes_undone': 'отменено',
+    'changes_no_diff': 'дифф недоступен',
+    'changes_identical': 'без изменений',
+    'changes_undo': 'Откатить этот запрос',
+    'undo_title': 'Откат изменений запроса',
+    'undo_restore': 'вернуть ',
+    'undo_delete': 'удалить ',
+    'undo_conflicts': 'Эти файлы менялись после агента, правки будут потеряны',
+    'undo_confirm': 'Откатить?',
+    'undo_done': '✓ Откат выполнен',
+    'undo_restored': 'восстановлено',
+    'undo_deleted': 'удалено',
+    'undo_not_found': 'Нет запроса с таким номером (см. /changes)',
+    'policy_title': 'Политика команд',
+    'policy_denied': 'Запрещено политикой команд',
+    'policy_missing': 'нет файла',
+    'policy_default': 'Без подходящего правила',
+    'policy_rules': 'Правила (DENY важнее ASK, ASK важнее ALLOW)',
+    'policy_errors': 'Пропущенные правила',
+    'policy_no_rule': 'нет подходящего правила — действие по умолчанию',
+    'policy_result': 'Итог',
+    'policy_test_usage': 'Использование: /policy test <команда>',
+    'policy_hint': 'Формат файла: {"default": "allow", "rules": [{"action": "deny", "pattern": "docker *", "reason": "..."}]}; шаблон /.../ — регулярное выражение',
+    'redactions_title': 'Скрыто от провайдеров в последнем запросе',
+    'redactions_empty': 'В последнем запросе секретов не найдено',
+    'redactions_hint': 'Настоящие значения остаются на этом компьютере: в командах и файлах Председателя они подставляются перед выполнением.',
+    'redaction_user_key': 'ваш ключ API',
+    'redaction_private_key': 'приватный ключ',
+    'redaction_api_key': 'ключ API',
+    'redaction_token': 'токен',
+    'redaction_jwt': 'JWT',
+    'redaction_password': 'пароль в URL',
+    'redaction_secret': 'секрет из переменной',
+    'redaction_high_entropy': 'случайная строка',
+    'audit_title': 'Журнал аудита',
+    'audit_empty': 'Нет записей',
+    'audit_bad_since': 'Неверный период (пример: 30m, 2h, 7d или 2026-01-31)',
+    'audit_hint': 'Фильтры: N, tool=, decision=, session=<id>|current, since=, текст. Файлы журнала',
     
     // Settings
     'settings_title': 'НАСТРОЙКИ ДОСТУПА',
-    'settings_desc': 'Включите или отключите возможности агента:',
+    'settings_desc': 'Включите, отключите возможности агента или включите подтверждение каждого действия:',
     'perm_browser': 'Браузер (Интернет)',
     'perm_desktop': 'Управление ПК (Мышь/Клавиатура/Экран)',
     'perm_file_read': 'Чтение файлов',
@@ -51,6 +145,32 @@ export const I18N: Record<Language, Record<string, string>> = {
     'perm_command': 'Терминал (Выполнение команд)',
     'settings_on': 'ВКЛ',
     'settings_off': 'ВЫКЛ',
+    'settings_ask': 'СПРАШИВАТЬ',
+    'settings_patterns': 'Всегда разрешено в этом проекте',
+    'settings_patterns_empty': 'Шаблонов пока нет (добавляются из запроса подтверждения)',
+    'settings_patterns_delete': 'Выберите шаблон, чтобы удалить его',
+    'settings_workspace': 'Рабочие папки файловых инструментов',
+    'workspace_desc': 'read/file/edit/tree/search работают только в этих папках (после раскрытия .. и ссылок). ~/.council-ai закрыта всегда.',
+    'workspace_launch_dir': 'папка запуска',
+    'workspace_add': 'Добавить папку',
+    'workspace_remove': 'Убрать папку',
+    'workspace_outside_mode': 'Доступ вне папок',
+    'workspace_add_prompt': 'Путь к папке',
+    'workspace_not_dir': 'Папка не найдена',
+    'workspace_protected': '~/.council-ai закрыта для инструментов',
+    'workspace_outside': 'Путь вне рабочих папок',
+    'approval_title': 'Агент просит подтверждения',
+    'approval_prompt': 'Выполнить?',
+    'approval_approve': 'Разрешить',
+    'approval_reject': 'Отклонить (с причиной)',
+    'approval_edit': 'Исправить команду',
+    'approval_always': 'Всегда разрешать по шаблону',
+    'approval_edit_prompt': 'Команда',
+    'approval_pattern_prompt': 'Шаблон (* — любые символы, в путях — в пределах папки; ** — любые папки)',
+    'approval_reason_prompt': 'Причина для Председателя (необязательно)',
+    'approval_why': 'Почему спрашиваем',
+    'approval_rejected': 'Отклонено пользователем',
+    'approval_by_pattern': 'Разрешено шаблоном',
     'settings_back': '⬅ Назад',
 
     // Voice
@@ -62,6 +182,7 @@ export const I18N: Record<Language, Record<string, string>> = {
 
     // Status
     'status_loading': 'Загрузка данных...',
+    'status_team': '🗂 КОМАНДА',
     'status_chair': '👔 ПРЕДСЕДАТЕЛЬ',
     'status_chair_none': 'не назначен. Используйте /agents для выбора.',
     'status_secretary': '📝 СЕКРЕТАРЬ',
@@ -82,6 +203,16 @@ export const I18N: Record<Language, Record<string, string>> = {
     'login_create_agent': 'Создать агента с этим ключом?',
     'login_yes': 'Да, создать агента',
     'login_no': 'Нет, позже',
+    'login_custom_add': '+ Свой OpenAI-совместимый сервер (Ollama, LM Studio, vLLM, Azure)',
+    'login_custom_name': 'Название',
+    'login_custom_url': 'Base URL (до /chat/completions)',
+    'login_custom_key': 'API ключ (Enter — без ключа)',
+    'login_custom_headers': 'Доп. заголовки (Имя: значение; ...), Enter — пропустить',
+    'login_custom_invalid_url': 'URL должен начинаться с http:// или https://',
+    'login_custom_saved': '✓ Эндпоинт сохранен',
+    'login_custom_edit': 'Изменить',
+    'login_custom_delete': 'Удалить (вместе с его агентами)',
+    'login_custom_deleted': '✗ Эндпоинт удален',
     
     // Agents
     'agents_title': 'УПРАВЛЕНИЕ АГЕНТАМИ',
@@ -115,6 +246,34 @@ export const I18N: Record<Language, Record<string, string>> = {
     'agents_toggle_exclude': 'Исключить из Совета',
     'agents_toggle_include': 'Включить в Совет',
     'agents_delete': 'Удалить',
+    'agents_tool_mode': 'Протокол инструментов',
+    'agents_tool_mode_markdown': 'Markdown-блоки',
+    'agents_tool_mode_native': 'Function calling (native)',
+    'agents_persona': 'Роль (персона)',
+    'agents_persona_none': 'Без роли',
+    'agents_system_prompt': 'Свои инструкции (system prompt)',
+    'agents_system_prompt_edit': 'Введи инструкции для агента. Пустой ввод — удалить.',
+    'agents_temperature': 'Температура',
+    'agents_temperature_prompt': 'Температура 0–2 (Enter — по умолчанию 0.7)',
+    'agents_default': 'по умолчанию',
+    'persona_header': 'ТВОЯ РОЛЬ В СОВЕТЕ',
+    'persona_custom_header': 'ДОПОЛНИТЕЛЬНЫЕ ИНСТРУКЦИИ',
+    'persona_security': 'Эксперт по безопасности',
+    'persona_security_prompt': 'Смотри на задачу глазами атакующего: инъекции, утечки секретов, права доступа, небезопасные зависимости и опасные команды. Называй конкретный риск и как его закрыть.',
+    'persona_devils_advocate': 'Адвокат дьявола',
+    'persona_devils_advocate_prompt': 'Намеренно ищи слабые места в очевидном решении и в мнениях коллег. Предлагай контраргументы и альтернативы. Не соглашайся, пока не проверил допущения.',
+    'persona_performance': 'Эксперт по производительности',
+    'persona_performance_prompt': 'Оценивай сложность алгоритмов, память, I/O, сетевые вызовы и кэширование. Указывай узкие места и способ их измерить.',
+    'persona_architect': 'Архитектор',
+    'persona_architect_prompt': 'Думай о структуре: границы модулей, зависимости, расширяемость и цена поддержки. Предупреждай, если решение усложняет систему без необходимости.',
+    'persona_tester': 'Тестировщик',
+    'persona_tester_prompt': 'Ищи граничные случаи, сценарии ошибок и регрессии. Предлагай конкретные проверки и тесты для решения.',
+    'persona_ux': 'UX-эксперт',
+    'persona_ux_prompt': 'Оценивай решение с точки зрения пользователя: понятность, сообщения об ошибках, доступность и привычные сценарии.',
+    'persona_domain_expert': 'Эксперт предметной области',
+    'persona_domain_expert_prompt': 'Опирайся на знания предметной области запроса: терминологию, стандарты, правила и типичные ошибки новичков в этой сфере.',
+    'persona_pragmatist': 'Прагматик',
+    'persona_pragmatist_prompt': 'Предлагай самое простое решение, которое работает сейчас. Отсекай лишнее и оценивай трудозатраты.',
     'agents_cancel': 'Отмена',
     'agents_updated': '✓ Обновлено',
     'agents_deleted': '✓ Агент удален',
@@ -125,13 +284,46 @@ export const I18N: Record<Language, Record<string, string>> = {
     // Commands Output
     'mute_on': '✓ Режим "Без шума" ВКЛЮЧЕН (ответы Совета скрыты)',
     'mute_off': '✓ Режим "Без шума" ВЫКЛЮЧЕН (ответы Совета видны)',
+    'plan_on': '✓ Режим плана ВКЛЮЧЕН: команды и изменения файлов сначала показываются планом',
+    'plan_off': '✓ Режим плана ВЫКЛЮЧЕН',
+    'plan_hint': 'Для одного запроса: /plan <вопрос> или префикс plan:',
+    'plan_status': 'ПЛАН',
+    'plan_title': 'План Председателя',
+    'plan_prompt': 'Что сделать с планом?',
+    'plan_execute_all': 'Выполнить все шаги',
+    'plan_execute_some': 'Выполнить выбранные шаги',
+    'plan_revise': 'Отправить отзыв и доработать план',
+    'plan_cancel': 'Отменить',
+    'plan_steps_prompt': 'Номера шагов (например 1,3-4)',
+    'plan_bad_steps': 'Неверные номера шагов',
+    'plan_feedback_prompt': 'Что изменить в плане',
+    'plan_cancelled': '⏸ План отменен, ничего не выполнено.',
+    'plan_not_executed': '⏸ Режим плана: действия не выполнены. Предложенный план:',
     'council_off': '⚪ Совет и Секретарь ВЫКЛЮЧЕНЫ. Работает только Председатель (Экономия).',
     'council_menu_title': 'Управление Советом',
     'council_menu_enable': 'Включить Совет (Коллективный разум)',
     'council_menu_disable': 'Выключить Совет (Экономия, только Председатель)',
     'council_menu_cancel': 'Отмена',
+    'council_menu_rounds': 'Раунды дебатов',
+    'council_menu_convergence': 'Досрочно завершать при согласии',
+    'council_rounds_prompt': 'Количество раундов дебатов (1 — без дебатов, максимум 5)',
+    'council_rounds_set': '✓ Раундов дебатов',
+    'council_menu_turns': 'Лимит ходов Председателя с инструментами',
+    'council_turns_prompt': 'Лимит ходов Председателя (сохраняется в активную команду; пусто — по умолчанию)',
+    'council_turns_set': '✓ Лимит ходов Председателя',
+    'council_menu_tools': 'Инструменты чтения у членов Совета (ходов)',
+    'council_tools_prompt': 'Ходов с read, tree, search и browser:search у членов Совета (0 — выключено, максимум 5)',
+    'council_tools_set': '✓ Ходов инструментов у членов Совета',
+    'council_debate_round': 'Раунд дебатов Совета',
+    'council_debate_converged': 'Мнения Совета сошлись, дебаты завершены',
     'compact_done': '✓ Контекст сжат. Удалено сообщений',
     'compact_left': 'Осталось',
+    'compact_summarizing': 'Пишу сводку старой части диалога',
+    'compact_summary_by': 'Сводка',
+    'compact_summary_failed': 'Не удалось получить сводку, старые сообщения просто удалены',
+    'compact_summary_header': '[Сводка предыдущей части диалога — исходные сообщения в архиве]',
+    'compact_expanded': '✓ Сводка развернута. Восстановлено сообщений',
+    'compact_nothing_to_expand': 'В истории нет сводки для разворачивания',
     'stats_title': 'ЭФФЕКТИВНОСТЬ СОВЕТА',
     'stats_no_data': 'Нет данных.',
     'stats_col_agent': 'Агент',
@@ -142,7 +334,101 @@ export const I18N: Record<Language, Record<string, string>> = {
     'stats_col_partial': 'Частично',
     'stats_col_rejected': 'Отклонено',
     'stats_col_eff': 'Эфф.',
-    'new_chat': '✓ Новый чат (история и статистика сброшены)',
+    'cost_title': 'РАСХОД ТОКЕНОВ',
+    'cost_last_ask': 'Последний запрос',
+    'cost_session': 'Сессия',
+    'cost_today': 'Сегодня',
+    'cost_all_time': 'За все время',
+    'cost_col_name': 'Агент / провайдер',
+    'cost_col_calls': 'Вызовы',
+    'cost_col_in': 'Вход',
+    'cost_col_out': 'Выход',
+    'cost_col_cached': 'Кэш',
+    'cost_col_reasoning': 'Рассужд.',
+    'cost_col_cost': 'USD',
+    'cost_total': 'Итого',
+    'cost_turn': 'ход',
+    'cost_round': 'раунд',
+    'cost_unpriced': '* цена модели неизвестна, стоимость не учтена',
+    'budget_title': 'БЮДЖЕТЫ (USD)',
+    'budget_session': 'Лимит на сессию',
+    'budget_daily': 'Лимит в сутки',
+    'budget_per_agent': 'Лимит агента в сутки',
+    'budget_policy': 'При превышении',
+    'budget_policy_warn': 'Предупредить',
+    'budget_policy_warn_desc': 'продолжить, но показать предупреждение',
+    'budget_policy_skip_expensive': 'Убрать дорогих',
+    'budget_policy_skip_expensive_desc': 'не опрашивать самых дорогих членов Совета',
+    'budget_policy_chair_only': 'Только Председатель',
+    'budget_policy_chair_only_desc': 'отвечает один Председатель, без Совета',
+    'budget_policy_refuse': 'Отказать',
+    'budget_policy_refuse_desc': 'не отправлять запрос',
+    'budget_none': 'нет',
+    'budget_limit_hint': 'Enter или 0 — без лимита',
+    'budget_invalid': 'Нужна сумма в USD, например 2.5',
+    'budget_left': 'Бюджет',
+    'budget_projected': 'прогноз',
+    'budget_remaining': 'осталось',
+    'budget_warning': '⚠️ Запрос может превысить бюджет',
+    'budget_refused': 'Запрос отклонен: бюджет превышен (/budget)',
+    'budget_skipped': '💰 Бюджет: пропускаю членов Совета',
+    'budget_exhausted': '⚠️ Бюджет исчерпан, продолжаю (политика: предупредить)',
+    'budget_stopped': 'Выполнение остановлено: бюджет исчерпан (/budget)',
+    'team_title': 'Команды — сохраненные составы (Председатель, Секретарь, Совет)',
+    'team_active': 'Активная',
+    'team_none': 'нет (состав не сохранен)',
+    'team_chair': 'Председатель',
+    'team_members': 'Совет',
+    'team_turns': 'ходов',
+    'team_create': 'Сохранить текущий состав как команду',
+    'team_name': 'Название команды',
+    'team_exists': 'Команда с таким названием уже есть',
+    'team_created': '✓ Команда создана',
+    'team_switch': 'Переключиться',
+    'team_clone': 'Клонировать',
+    'team_rename': 'Переименовать',
+    'team_delete': 'Удалить',
+    'team_delete_confirm': 'Удалить команду',
+    'team_deleted': '✓ Команда удалена',
+    'team_switched': '✓ Команда',
+    'team_not_found': 'Команда не найдена',
+    'team_available': 'Доступные команды',
+    'ask_usage': `Использование: hause ask [опции] "вопрос"   |   echo вопрос | hause ask -
+
+  -t, --team <имя>      Команда (состав Совета) для запроса
+  -m, --mute            Без прогресса и мнений Совета в stderr
+      --json            JSON в stdout: ответ, мнения Совета, токены и стоимость
+      --max-turns <n>   Лимит ходов Председателя с инструментами
+      --allow <список>  Разрешить инструменты: read,write,edit,command,browser,desktop или all
+      --deny <список>   Запретить инструменты (тот же формат)
+      --no-tools        Запретить все инструменты
+  -h, --help            Эта справка
+
+Ответ Председателя — в stdout, прогресс — в stderr. Код выхода: 0 — успех, 1 — ошибка, 2 — неверные аргументы.`,
+    'ask_empty_question': 'Пустой вопрос',
+    'ask_bad_tool': 'Неизвестный инструмент',
+    'ask_bad_turns': 'Нужно целое число ходов >= 1',
+    'serve_usage': `Использование: hause serve [--port 8765] [--host 127.0.0.1] [--token <токен>]
+
+  -p, --port <n>        Порт (по умолчанию 8765, 0 — любой свободный)
+      --host <адрес>    Адрес (по умолчанию только localhost)
+      --token <токен>   Bearer-токен (или переменная HAUSE_API_TOKEN; иначе генерируется при запуске)
+
+Все запросы, кроме GET /health, требуют заголовок Authorization: Bearer <токен>.
+  POST   /ask               {"question", "session"?, "stream"?} — ответ Совета (stream: SSE-события)
+  GET    /agents            Агенты и их роли
+  PATCH  /agents/:id        {"enabled"?, "role"?: chair|secretary|council}
+  GET    /teams             Команды;  POST /teams/switch {"team"}
+  GET    /stats             Эффективность и расходы
+  GET    /sessions          Сессии;  POST /sessions — новая
+  GET    /sessions/:id      История сессии;  DELETE — удалить (default — начать новую)
+  GET    /v1/models         Команды как модели OpenAI API (hause — текущий состав)
+  POST   /v1/chat/completions  OpenAI-совместимый ответ Совета (model — команда, stream)`,
+    'serve_bad_port': 'Неверный порт',
+    'serve_listening': 'API сервер запущен',
+    'serve_token': 'Токен (Authorization: Bearer ...)',
+    'serve_public_warning': 'Сервер доступен не только с localhost — храните токен в секрете',
+    'new_chat': '✓ Новая сессия (статистика сброшена, прошлые — в /sessions)',
     'unknown_cmd': 'Неизвестная команда',
     'bye': '👋 До встречи!',
     'error': 'Ошибка',
@@ -164,6 +450,14 @@ export const I18N: Record<Language, Record<string, string>> = {
     
     // Tools
     'tool_executing': 'Выполняю инструменты',
+    'loop_turn_limit': 'Достигнут лимит ходов Председателя, задача может быть не завершена',
+    'loop_stuck_calls': 'Цикл остановлен: Председатель повторяет одни и те же вызовы инструментов',
+    'loop_stuck_error': 'Цикл остановлен: одна и та же ошибка повторяется',
+    'continue_prompt': 'Продолжить выполнение задачи?',
+    'continue_more': 'Еще ходов',
+    'continue_custom': 'Указать число ходов',
+    'continue_stop': 'Остановиться',
+    'continue_turns_prompt': 'Сколько ходов добавить',
     'tool_bash': '🖥️ Терминал',
     'tool_file_write': '📝 Запись файла',
     'tool_file_read': '📖 Чтение файла',
@@ -179,6 +473,8 @@ export const I18N: Record<Language, Record<string, string>> = {
     'sys_chair_facts_instruction': 'ВАЖНО: Если вопрос касается ФАКТОВ (дата, время, новости, курсы валют), и мнения Совета расходятся, ДОВЕРЯЙ ТОЛЬКО тем агентам, которые имеют доступ к интернету (например, Perplexity, Sonar, Google) или приводят источники. Игнорируй галлюцинации моделей, которые просто выдумывают даты.',
     'sys_chair_council_suffix': 'Учитывай мнения Совета. ВАЖНО: Не пиши блок "Эффективность" или "Evaluation" в ответе. Просто ответь пользователю.',
     'sys_secretary': 'Ты — Секретарь Совета ИИ. Твоя единственная задача — проанализировать, как Председатель использовал советы членов Совета. Сравни советы с итоговым решением. Оцени каждого советника: "accepted" (совет полностью использован), "partial" (использован частично/учтен), "rejected" (проигнорирован или не подошел). ВЫВЕДИ ТОЛЬКО ЧИСТЫЙ JSON (RAW JSON). БЕЗ MARKDOWN (```json), БЕЗ КОММЕНТАРИЕВ.\nПример:\n{\n  "agent_id_1": "accepted",\n  "agent_id_2": "rejected"\n}',
+    'sys_session_title': 'Ты — Секретарь Совета ИИ. Придумай короткий заголовок (3–6 слов) для диалога по первому вопросу пользователя и ответу. Выведи только заголовок, без кавычек и пояснений, на языке вопроса.',
+    'sys_compact_summary': 'Ты — Секретарь Совета ИИ. Тебе дана старая часть диалога пользователя с Советом (может начинаться с предыдущей сводки). Она будет удалена из контекста, поэтому напиши сводку, по которой Председатель сможет продолжить работу. Структура (markdown):\n## Цели\n## Принятые решения\n## Затронутые файлы и команды\n## Открытые задачи (TODO)\n## Важные факты\nБудь конкретен: пути, имена, значения, причины решений. Пропускай пустые разделы. Пиши на языке диалога, без вступлений.',
     
     // Misc
     'menu_header': 'Команды',
@@ -205,13 +501,27 @@ export const I18N: Record<Language, Record<string, string>> = {
     'cmd_login': 'API Keys',
     'cmd_agents': 'Manage Agents',
     'cmd_council': 'Toggle Council',
+    'cmd_team': 'Team presets',
     'cmd_stats': 'Efficiency',
+    'cmd_cost': 'Token usage and cost',
+    'cmd_budget': 'Spending budgets',
     'cmd_status': 'Team Status',
     'cmd_mute': 'Quiet Mode',
     'cmd_compact': 'Compact Memory',
     'cmd_lang': 'Switch Language',
     'cmd_voice': 'Voice Input',
     'cmd_new': 'New Chat',
+    'cmd_sessions': 'Sessions (list, search)',
+    'cmd_export': 'Export session (md, html, json)',
+    'cmd_rewind': 'Go back to an earlier question and re-ask it',
+    'cmd_branch': 'Fork a new session from the current one',
+    'cmd_retry': 'Re-run the last question (team|chair <name>)',
+    'cmd_changes': 'Files changed by agents (diffs)',
+    'cmd_undo': 'Revert file changes of the last request',
+    'cmd_plan': 'Plan mode: actions run only after you choose (/plan, /plan <question>)',
+    'cmd_policy': 'Terminal command rules (/policy test <command> to check one)',
+    'cmd_redactions': 'Secrets masked from providers in the last request',
+    'cmd_audit': 'Agent action log (/audit 50 tool=command decision=denied since=1d)',
     'cmd_exit': 'Exit',
     'cmd_doctor': 'System Doctor (Diagnostics)',
     'doctor_running': 'Running system diagnostics...',
@@ -221,13 +531,93 @@ export const I18N: Record<Language, Record<string, string>> = {
     'update_available': 'Update available!',
     'update_confirm': 'Update now?',
     'update_up_to_date': 'You are up to date',
-    'resume_session_title': 'PREVIOUS SESSION FOUND',
-    'resume_session_desc': 'Do you want to load message history?',
-    'resume_session_yes': 'Yes, load history',
-    'resume_session_no': 'No, start fresh',
+    'resume_session_title': 'RESUME A SESSION?',
+    'resume_session_no': '+ New session',
     'history_loaded': '✓ History loaded',
+    'sessions_title': 'Sessions',
+    'sessions_messages': 'msgs',
+    'sessions_untitled': '(untitled)',
+    'sessions_empty': 'No sessions yet',
+    'sessions_search': 'Search',
+    'sessions_search_prompt': 'Text to search for (titles and messages)',
+    'sessions_all': 'All sessions',
+    'sessions_resume': 'Resume',
+    'sessions_rename': 'Rename',
+    'sessions_delete': 'Delete',
+    'sessions_delete_confirm': 'Delete session',
+    'sessions_deleted': '✓ Session deleted',
+    'sessions_cwd_hint': 'The session was started in',
+    'export_format': 'Export format',
+    'export_empty': 'The session has no messages yet',
+    'export_bad_format': 'Unknown format',
+    'export_done': '✓ Session exported',
+    'export_failed': 'Export failed',
+    'export_images': 'Images',
+    'export_session': 'Session',
+    'export_cwd': 'Folder',
+    'export_exported': 'Exported',
+    'export_total': 'Total',
+    'export_summary': 'Summary of earlier messages',
+    'export_question': 'Question',
+    'export_reasoning': 'Reasoning',
+    'export_tool_output': 'Tool outputs',
+    'export_answer': 'Answer',
+    'rewind_select': 'Which question to start over from? (history from it on is removed)',
+    'rewind_empty': 'The session has no questions yet',
+    'rewind_done': '✓ History rewound, messages removed',
+    'branch_select': 'Where to fork the new session from?',
+    'branch_current': 'From here (whole history)',
+    'branch_after': 'After the answer to',
+    'branch_title': 'Branch title',
+    'branch_suffix': 'branch',
+    'branch_done': '✓ You are in the new branch',
+    'branch_parent': 'Forked from',
+    'retry_usage': 'Usage: /retry [team <team> | chair <agent>]',
+    'retry_agent_not_found': 'Agent not found',
+    'retry_running': 'Re-running the last question...',
+    'changes_title': 'File changes (newest first)',
+    'changes_empty': 'Agents have not changed any files in this session yet',
+    'changes_files': 'file(s)',
+    'changes_undone': 'undone',
+    'changes_no_diff': 'diff not available',
+    'changes_identical': 'no changes',
+    'changes_undo': 'Undo this request',
+    'undo_title': 'Undo changes of request',
+    'undo_restore': 'restore',
+    'undo_delete': 'delete ',
+    'undo_conflicts': 'These files changed after the agent, those edits will be lost',
+    'undo_confirm': 'Undo?',
+    'undo_done': '✓ Undone',
+    'undo_restored': 'restored',
+    'undo_deleted': 'deleted',
+    'undo_not_found': 'No request with that number (see /changes)',
+    'policy_title': 'Command policy',
+    'policy_denied': 'Denied by command policy',
+    'policy_missing': 'no file',
+    'policy_default': 'When no rule matches',
+    'policy_rules': 'Rules (DENY beats ASK, ASK beats ALLOW)',
+    'policy_errors': 'Skipped rules',
+    'policy_no_rule': 'no matching rule — default action',
+    'policy_result': 'Result',
+    'policy_test_usage': 'Usage: /policy test <command>',
+    'policy_hint': 'File format: {"default": "allow", "rules": [{"action": "deny", "pattern": "docker *", "reason": "..."}]}; a /.../ pattern is a regular expression',
+    'redactions_title': 'Masked from providers in the last request',
+    'redactions_empty': 'No secrets found in the last request',
+    'redactions_hint': 'Real values stay on this machine: they are put back into the Chairman\'s commands and files right before execution.',
+    'redaction_user_key': 'your API key',
+    'redaction_private_key': 'private key',
+    'redaction_api_key': 'API key',
+    'redaction_token': 'token',
+    'redaction_jwt': 'JWT',
+    'redaction_password': 'password in URL',
+    'redaction_secret': 'secret variable',
+    'redaction_high_entropy': 'random string',
+    'audit_title': 'Audit log',
+    'audit_empty': 'No entries',
+    'audit_bad_since': 'Invalid period (e.g. 30m, 2h, 7d or 2026-01-31)',
+    'audit_hint': 'Filters: N, tool=, decision=, session=<id>|current, since=, text. Log files',
     'settings_title': 'ACCESS SETTINGS',
-    'settings_desc': 'Enable or disable agent capabilities:',
+    'settings_desc': 'Enable or disable agent capabilities, or require approval for each action:',
     'perm_browser': 'Browser (Internet)',
     'perm_desktop': 'Desktop Control (Mouse/Key/Screen)',
     'perm_file_read': 'Read Files',
@@ -236,6 +626,32 @@ export const I18N: Record<Language, Record<string, string>> = {
     'perm_command': 'Terminal (Run Commands)',
     'settings_on': 'ON',
     'settings_off': 'OFF',
+    'settings_ask': 'ASK',
+    'settings_patterns': 'Always allowed in this project',
+    'settings_patterns_empty': 'No patterns yet (they are added from approval prompts)',
+    'settings_patterns_delete': 'Select a pattern to delete it',
+    'settings_workspace': 'Workspace folders for file tools',
+    'workspace_desc': 'read/file/edit/tree/search only work inside these folders (after resolving .. and symlinks). ~/.council-ai is always blocked.',
+    'workspace_launch_dir': 'launch folder',
+    'workspace_add': 'Add folder',
+    'workspace_remove': 'Remove folder',
+    'workspace_outside_mode': 'Access outside folders',
+    'workspace_add_prompt': 'Folder path',
+    'workspace_not_dir': 'Folder not found',
+    'workspace_protected': '~/.council-ai is blocked for tools',
+    'workspace_outside': 'Path outside the workspace',
+    'approval_title': 'The agent asks for approval',
+    'approval_prompt': 'Run it?',
+    'approval_approve': 'Approve',
+    'approval_reject': 'Reject (with a reason)',
+    'approval_edit': 'Edit the command',
+    'approval_always': 'Always allow by pattern',
+    'approval_edit_prompt': 'Command',
+    'approval_pattern_prompt': 'Pattern (* matches anything, in paths within one folder; ** — any folders)',
+    'approval_reason_prompt': 'Reason for the Chairman (optional)',
+    'approval_why': 'Why',
+    'approval_rejected': 'Rejected by the user',
+    'approval_by_pattern': 'Allowed by pattern',
     'settings_back': '⬅ Back',
     
     // Voice
@@ -247,6 +663,7 @@ export const I18N: Record<Language, Record<string, string>> = {
     
     // Status
     'status_loading': 'Loading data...',
+    'status_team': '🗂 TEAM',
     'status_chair': '👔 CHAIRMAN',
     'status_chair_none': 'not assigned. Use /agents to select.',
     'status_secretary': '📝 SECRETARY',
@@ -267,6 +684,16 @@ export const I18N: Record<Language, Record<string, string>> = {
     'login_create_agent': 'Create an agent with this key?',
     'login_yes': 'Yes, create agent',
     'login_no': 'No, later',
+    'login_custom_add': '+ Custom OpenAI-compatible server (Ollama, LM Studio, vLLM, Azure)',
+    'login_custom_name': 'Name',
+    'login_custom_url': 'Base URL (up to /chat/completions)',
+    'login_custom_key': 'API key (Enter — no key)',
+    'login_custom_headers': 'Extra headers (Name: value; ...), Enter to skip',
+    'login_custom_invalid_url': 'URL must start with http:// or https://',
+    'login_custom_saved': '✓ Endpoint saved',
+    'login_custom_edit': 'Edit',
+    'login_custom_delete': 'Delete (with its agents)',
+    'login_custom_deleted': '✗ Endpoint deleted',
     
     // Agents
     'agents_title': 'AGENT MANAGEMENT',
@@ -300,6 +727,34 @@ export const I18N: Record<Language, Record<string, string>> = {
     'agents_toggle_exclude': 'Remove from Council',
     'agents_toggle_include': 'Add to Council',
     'agents_delete': 'Delete',
+    'agents_tool_mode': 'Tool protocol',
+    'agents_tool_mode_markdown': 'Markdown blocks',
+    'agents_tool_mode_native': 'Function calling (native)',
+    'agents_persona': 'Role (persona)',
+    'agents_persona_none': 'No role',
+    'agents_system_prompt': 'Custom instructions (system prompt)',
+    'agents_system_prompt_edit': 'Enter instructions for the agent. Empty input removes them.',
+    'agents_temperature': 'Temperature',
+    'agents_temperature_prompt': 'Temperature 0–2 (Enter — default 0.7)',
+    'agents_default': 'default',
+    'persona_header': 'YOUR ROLE IN THE COUNCIL',
+    'persona_custom_header': 'ADDITIONAL INSTRUCTIONS',
+    'persona_security': 'Security reviewer',
+    'persona_security_prompt': 'Look at the task as an attacker would: injections, leaked secrets, permissions, unsafe dependencies and dangerous commands. Name the concrete risk and how to close it.',
+    'persona_devils_advocate': "Devil's advocate",
+    'persona_devils_advocate_prompt': "Deliberately look for weak spots in the obvious solution and in your colleagues' opinions. Offer counterarguments and alternatives. Do not agree until the assumptions are checked.",
+    'persona_performance': 'Performance expert',
+    'persona_performance_prompt': 'Assess algorithmic complexity, memory, I/O, network calls and caching. Point out bottlenecks and how to measure them.',
+    'persona_architect': 'Architect',
+    'persona_architect_prompt': 'Think about structure: module boundaries, dependencies, extensibility and maintenance cost. Warn when a solution adds complexity without need.',
+    'persona_tester': 'Tester',
+    'persona_tester_prompt': 'Look for edge cases, failure scenarios and regressions. Suggest concrete checks and tests for the solution.',
+    'persona_ux': 'UX expert',
+    'persona_ux_prompt': "Judge the solution from the user's point of view: clarity, error messages, accessibility and familiar flows.",
+    'persona_domain_expert': 'Domain specialist',
+    'persona_domain_expert_prompt': "Rely on knowledge of the request's domain: terminology, standards, rules and typical beginner mistakes in that field.",
+    'persona_pragmatist': 'Pragmatist',
+    'persona_pragmatist_prompt': 'Propose the simplest solution that works now. Cut the excess and estimate the effort.',
     'agents_cancel': 'Cancel',
     'agents_updated': '✓ Updated',
     'agents_deleted': '✓ Agent deleted',
@@ -310,14 +765,47 @@ export const I18N: Record<Language, Record<string, string>> = {
     // Commands Output
     'mute_on': '✓ Quiet Mode ON (Council responses hidden)',
     'mute_off': '✓ Quiet Mode OFF (Council responses visible)',
+    'plan_on': '✓ Plan mode ON: commands and file changes are shown as a plan first',
+    'plan_off': '✓ Plan mode OFF',
+    'plan_hint': 'For a single ask: /plan <question> or the plan: prefix',
+    'plan_status': 'PLAN',
+    'plan_title': "Chairman's plan",
+    'plan_prompt': 'What to do with the plan?',
+    'plan_execute_all': 'Execute all steps',
+    'plan_execute_some': 'Execute selected steps',
+    'plan_revise': 'Send feedback to revise the plan',
+    'plan_cancel': 'Cancel',
+    'plan_steps_prompt': 'Step numbers (e.g. 1,3-4)',
+    'plan_bad_steps': 'Invalid step numbers',
+    'plan_feedback_prompt': 'What to change in the plan',
+    'plan_cancelled': '⏸ Plan cancelled, nothing was executed.',
+    'plan_not_executed': '⏸ Plan mode: no actions were executed. Proposed plan:',
     'council_on': '🟢 Council and Secretary ENABLED. All agents active.',
     'council_off': '⚪ Council and Secretary DISABLED. Only Chairman active (Cost saving).',
     'council_menu_title': 'Council Management',
     'council_menu_enable': 'Enable Council (Collective Intelligence)',
     'council_menu_disable': 'Disable Council (Cost saving, Chairman only)',
     'council_menu_cancel': 'Cancel',
+    'council_menu_rounds': 'Debate rounds',
+    'council_menu_convergence': 'Stop early on agreement',
+    'council_rounds_prompt': 'Number of debate rounds (1 — no debate, max 5)',
+    'council_rounds_set': '✓ Debate rounds',
+    'council_menu_turns': 'Chairman tool turn limit',
+    'council_turns_prompt': 'Chairman turn limit (saved to the active team; empty — default)',
+    'council_turns_set': '✓ Chairman turn limit',
+    'council_menu_tools': 'Read-only tools for council members (turns)',
+    'council_tools_prompt': 'Turns with read, tree, search and browser:search for council members (0 — off, max 5)',
+    'council_tools_set': '✓ Council member tool turns',
+    'council_debate_round': 'Council debate round',
+    'council_debate_converged': 'Council opinions converged, debate finished',
     'compact_done': '✓ Context compacted. Messages removed',
     'compact_left': 'Remaining',
+    'compact_summarizing': 'Summarizing the earlier part of the conversation',
+    'compact_summary_by': 'Summary',
+    'compact_summary_failed': 'Could not get a summary, old messages were dropped',
+    'compact_summary_header': '[Summary of the earlier conversation — original messages are archived]',
+    'compact_expanded': '✓ Summary expanded. Messages restored',
+    'compact_nothing_to_expand': 'There is no summary in the history to expand',
     'stats_title': 'COUNCIL EFFICIENCY',
     'stats_no_data': 'No data.',
     'stats_col_agent': 'Agent',
@@ -327,7 +815,101 @@ export const I18N: Record<Language, Record<string, string>> = {
     'stats_col_partial': 'Partial',
     'stats_col_rejected': 'Rejected',
     'stats_col_eff': 'Eff.',
-    'new_chat': '✓ New chat (history and stats reset)',
+    'cost_title': 'TOKEN USAGE',
+    'cost_last_ask': 'Last request',
+    'cost_session': 'Session',
+    'cost_today': 'Today',
+    'cost_all_time': 'All time',
+    'cost_col_name': 'Agent / provider',
+    'cost_col_calls': 'Calls',
+    'cost_col_in': 'In',
+    'cost_col_out': 'Out',
+    'cost_col_cached': 'Cached',
+    'cost_col_reasoning': 'Reasoning',
+    'cost_col_cost': 'USD',
+    'cost_total': 'Total',
+    'cost_turn': 'turn',
+    'cost_round': 'round',
+    'cost_unpriced': '* model price unknown, cost not counted',
+    'budget_title': 'BUDGETS (USD)',
+    'budget_session': 'Session limit',
+    'budget_daily': 'Daily limit',
+    'budget_per_agent': 'Per-agent daily limit',
+    'budget_policy': 'When exceeded',
+    'budget_policy_warn': 'Warn',
+    'budget_policy_warn_desc': 'continue, but show a warning',
+    'budget_policy_skip_expensive': 'Skip expensive',
+    'budget_policy_skip_expensive_desc': 'do not ask the most expensive council members',
+    'budget_policy_chair_only': 'Chairman only',
+    'budget_policy_chair_only_desc': 'only the Chairman answers, no Council',
+    'budget_policy_refuse': 'Refuse',
+    'budget_policy_refuse_desc': 'do not send the request',
+    'budget_none': 'none',
+    'budget_limit_hint': 'Enter or 0 — no limit',
+    'budget_invalid': 'Enter an amount in USD, e.g. 2.5',
+    'budget_left': 'Budget',
+    'budget_projected': 'projected',
+    'budget_remaining': 'remaining',
+    'budget_warning': '⚠️ This request may exceed the budget',
+    'budget_refused': 'Request refused: budget exceeded (/budget)',
+    'budget_skipped': '💰 Budget: skipping council members',
+    'budget_exhausted': '⚠️ Budget exhausted, continuing (policy: warn)',
+    'budget_stopped': 'Execution stopped: budget exhausted (/budget)',
+    'team_title': 'Teams — saved lineups (Chairman, Secretary, Council)',
+    'team_active': 'Active',
+    'team_none': 'none (lineup not saved)',
+    'team_chair': 'Chairman',
+    'team_members': 'Council',
+    'team_turns': 'turns',
+    'team_create': 'Save current lineup as a team',
+    'team_name': 'Team name',
+    'team_exists': 'A team with this name already exists',
+    'team_created': '✓ Team created',
+    'team_switch': 'Switch to',
+    'team_clone': 'Clone',
+    'team_rename': 'Rename',
+    'team_delete': 'Delete',
+    'team_delete_confirm': 'Delete team',
+    'team_deleted': '✓ Team deleted',
+    'team_switched': '✓ Team',
+    'team_not_found': 'Team not found',
+    'team_available': 'Available teams',
+    'ask_usage': `Usage: hause ask [options] "question"   |   echo question | hause ask -
+
+  -t, --team <name>     Team (Council lineup) for this request
+  -m, --mute            No progress or Council opinions on stderr
+      --json            JSON on stdout: answer, Council opinions, tokens and cost
+      --max-turns <n>   Limit of Chairman tool turns
+      --allow <list>    Allow tools: read,write,edit,command,browser,desktop or all
+      --deny <list>     Deny tools (same format)
+      --no-tools        Deny all tools
+  -h, --help            This help
+
+The Chairman's answer goes to stdout, progress to stderr. Exit code: 0 — success, 1 — error, 2 — invalid arguments.`,
+    'ask_empty_question': 'Empty question',
+    'ask_bad_tool': 'Unknown tool',
+    'ask_bad_turns': 'Expected an integer number of turns >= 1',
+    'serve_usage': `Usage: hause serve [--port 8765] [--host 127.0.0.1] [--token <token>]
+
+  -p, --port <n>        Port (default 8765, 0 — any free port)
+      --host <address>  Address (default: localhost only)
+      --token <token>   Bearer token (or HAUSE_API_TOKEN env; otherwise generated at startup)
+
+All requests except GET /health require the header Authorization: Bearer <token>.
+  POST   /ask               {"question", "session"?, "stream"?} — Council answer (stream: SSE events)
+  GET    /agents            Agents and their roles
+  PATCH  /agents/:id        {"enabled"?, "role"?: chair|secretary|council}
+  GET    /teams             Teams;  POST /teams/switch {"team"}
+  GET    /stats             Efficiency and spending
+  GET    /sessions          Sessions;  POST /sessions — new one
+  GET    /sessions/:id      Session history;  DELETE — remove (default — start a new one)
+  GET    /v1/models         Teams as OpenAI API models (hause — current lineup)
+  POST   /v1/chat/completions  OpenAI-compatible Council answer (model — team, stream)`,
+    'serve_bad_port': 'Invalid port',
+    'serve_listening': 'API server is listening',
+    'serve_token': 'Token (Authorization: Bearer ...)',
+    'serve_public_warning': 'The server is reachable beyond localhost — keep the token secret',
+    'new_chat': '✓ New session (stats reset, previous ones are in /sessions)',
     'unknown_cmd': 'Unknown command',
     'bye': '👋 See you later!',
     'error': 'Error',
@@ -349,6 +931,14 @@ export const I18N: Record<Language, Record<string, string>> = {
     
     // Tools
     'tool_executing': 'Executing tools',
+    'loop_turn_limit': 'Chairman turn limit reached, the task may be unfinished',
+    'loop_stuck_calls': 'Loop stopped: the Chairman keeps repeating the same tool calls',
+    'loop_stuck_error': 'Loop stopped: the same error keeps repeating',
+    'continue_prompt': 'Continue the task?',
+    'continue_more': 'More turns',
+    'continue_custom': 'Enter number of turns',
+    'continue_stop': 'Stop',
+    'continue_turns_prompt': 'How many turns to add',
     'tool_bash': '🖥️ Terminal',
     'tool_file_write': '📝 Write File',
     'tool_file_read': '📖 Read File',
@@ -364,6 +954,8 @@ export const I18N: Record<Language, Record<string, string>> = {
     'sys_chair_facts_instruction': 'IMPORTANT: If the question is about FACTS (date, time, news, prices), and Council opinions differ, ONLY TRUST agents that have internet access (e.g., Perplexity, Sonar, Google) or cite sources. Ignore hallucinations from models that just guess dates.',
     'sys_chair_council_suffix': 'Consider Council opinions. IMPORTANT: Do NOT output an "Efficiency" or "Evaluation" block. Just answer the user.',
     'sys_secretary': 'You are the Secretary of the AI Council. Your ONLY task is to analyze how the Chairman used the advice from Council members. Compare the advice with the final decision. Rate each advisor: "accepted" (fully used), "partial" (partially used/considered), "rejected" (ignored or not applicable). OUTPUT ONLY RAW JSON. NO MARKDOWN (```json), NO COMMENTS.\nExample:\n{\n  "agent_id_1": "accepted",\n  "agent_id_2": "rejected"\n}',
+    'sys_session_title': 'You are the Secretary of the AI Council. Write a short title (3–6 words) for the conversation based on the user\'s first question and the answer. Output only the title, no quotes or explanations, in the language of the question.',
+    'sys_compact_summary': 'You are the Secretary of the AI Council. You are given the older part of a conversation between the user and the Council (it may start with a previous summary). It will be removed from the context, so write a summary that lets the Chairman continue the work. Structure (markdown):\n## Goals\n## Decisions\n## Files and commands touched\n## Open TODOs\n## Key facts\nBe specific: paths, names, values, reasons for decisions. Skip empty sections. Write in the language of the conversation, no preamble.',
     
     // Misc
     'menu_header': 'Commands',
@@ -4,8 +4,12 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { ConfigManager } from './config.js';
 import { HistoryManager } from './history.js';
-import { Council } from './council.js';
-import { handleCommand, getCommandFromMenu } from './commands.js';
+import { AskResult, Council } from './council.js';
+import { handleCommand, getCommandFromMenu, formatCost, formatSessionLabel, promptApproval, promptPlan, promptContinue } from './commands.js';
+import { summarize } from './usage.js';
+import { getRemaining } from './budget.js';
+import { runAsk } from './oneshot.js';
+import { runServe } from './server.js';
 import * as ui from './ui.js';
 import { t, setLanguage } from './i18n.js';
 import { emitKeypressEvents } from 'node:readline';
@@ -16,7 +20,7 @@ import fs from 'node:fs';
 import os from 'node:os';
 import { fileURLToPath } from 'node:url';
 import { logger } from './logger.js';
-import { CouncilEvent } from './types.js';
+import { CouncilEvent, ProviderResponse, StreamToken } from './types.js';
 
 const execAsync = util.promisify(exec);
 
@@ -25,43 +29,77 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const projectRoot = path.join(__dirname, '..');
 
+// Сколько последних сессий предлагать при запуске
+const RECENT_SESSIONS = 8;
+
+// Аргументы запуска: hause [--team <имя>]
+function parseCliArgs() {
+  const { values } = util.parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      team: { type: 'string', short: 't' }
+    },
+    allowPositionals: true,
+    strict: false
+  });
+  return { team: typeof values.team === 'string' ? values.team : undefined };
+}
+
 async function main() {
+  // hause ask ... — разовый запрос без интерактивного режима
+  if (process.argv[2] === 'ask') {
+    process.exit(await runAsk(process.argv.slice(3)));
+  }
+  // hause serve ... — локальный HTTP API
+  if (process.argv[2] === 'serve') {
+    process.exit(await runServe(process.argv.slice(3)));
+  }
+
+  const args = parseCliArgs();
   const config = new ConfigManager();
   const history = new HistoryManager();
   
   // Set language FIRST to ensure UI strings are correct
   setLanguage(config.getLanguage());
 
+  if (args.team) {
+      const team = config.findTeam(args.team);
+      if (!team) {
+          console.error(chalk.red(`  ${t('team_not_found')}: ${args.team}`));
+          const names = config.getTeams().map(tm => tm.name);
+          if (names.length > 0) console.error(chalk.gray(`  ${t('team_available')}: ${names.join(', ')}`));
+          process.exit(1);
+      }
+      config.switchTeam(team.id);
+  }
+
   // Init UI early for the check
   ui.initReadline();
 
   const council = new Council(config, history);
+  // Права в режиме "ask": пауза цикла Председателя и вопрос пользователю
+  council.setApprovalHandler(request => ui.suspendCancel(() => promptApproval(request)));
+  council.setPlanHandler(steps => ui.suspendCancel(() => promptPlan(steps)));
   
-  // Check for previous session (History Persistence)
-  // We check if history has messages. Since history is NOT loaded by default in constructor anymore (or load is empty),
-  // we need to peek or try loading. Actually, HistoryManager constructor does NOT load now.
-  // We can call load() and see if it has messages.
-  history.load(); 
-  const hasHistory = history.getMessages().length > 0;
-  
-  if (hasHistory) {
-      const choice = await ui.select(t('resume_session_title'), [
-          { label: t('resume_session_yes'), value: 'yes' },
-          { label: t('resume_session_no'), value: 'no' }
+  // Выбор сессии: последние сессии или новая
+  const sessions = history.listSessions().slice(0, RECENT_SESSIONS);
+  const team = config.getActiveTeam()?.name;
+  let resumeId: string | null = null;
+
+  if (sessions.length > 0) {
+      resumeId = await ui.select(t('resume_session_title'), [
+          { label: chalk.green(t('resume_session_no')), value: '__new' },
+          ...sessions.map(s => ({ label: formatSessionLabel(s), value: s.id }))
       ]);
-      
-      if (choice === 'yes') {
-          // Already loaded. Keep stats as is (loaded in Council constructor).
-          console.log(chalk.green(`  ${t('history_loaded')}\n`));
-      } else {
-          // Clear
-          history.clear();
-          council.resetStats(); // Start fresh
-          console.log(chalk.green(`  ${t('new_chat')}\n`));
-      }
+  }
+
+  if (resumeId && resumeId !== '__new' && history.load(resumeId)) {
+      // Keep stats as is (loaded in Council constructor).
+      console.log(chalk.green(`  ${t('history_loaded')}: ${history.getMeta().title}\n`));
   } else {
-      // No history, ensure stats are reset for clean start
-      council.resetStats();
+      history.newSession(team);
+      council.resetStats(); // Start fresh
+      if (sessions.length > 0) console.log(chalk.green(`  ${t('new_chat')}\n`));
   }
   
   const ctx = { config, history, council };
@@ -161,7 +199,13 @@ async function processPrompt(text: string, council: Council, config: ConfigManag
     });
 
     try {
-        await askCouncil(text, council, config, controller.signal);
+        let result = await askCouncil(text, council, config, controller.signal);
+        // Лимит ходов Председателя: продолжить задачу без повторного опроса Совета
+        while (result.stopped?.reason === 'turn_limit' && !controller.signal.aborted) {
+            const turns = await ui.suspendCancel(() => promptContinue(council.getMaxTurns()));
+            if (!turns) break;
+            result = await askCouncil(text, council, config, controller.signal, turns);
+        }
     } catch (err: any) {
         const msg = (err.message || '').toLowerCase();
         if (msg === 'aborted' || err.name === 'AbortError' || msg.includes('canceled')) {
@@ -188,6 +232,11 @@ function printStatus(config: ConfigManager) {
   const chairId = config.getChairId();
   const chair = agents.find(a => a.id === chairId);
 
+  const team = config.getActiveTeam();
+  if (team) {
+      console.log(chalk.cyan(`  ${t('status_team')}: `) + chalk.white(team.name));
+  }
+
   // Председатель
   if (chair) {
       console.log(chalk.cyan(`  ${t('status_chair')}: `) + chalk.green(`${chair.name} (${chair.providerType}/${chair.model})`));
@@ -216,11 +265,16 @@ function printStatus(config: ConfigManager) {
   console.log('');
 }
 
-async function askCouncil(question: string, council: Council, config: ConfigManager, signal?: AbortSignal) {
+// continueTurns — продолжение прерванного лимитом цикла инструментов (Council.continueAsk)
+async function askCouncil(question: string, council: Council, config: ConfigManager, signal?: AbortSignal, continueTurns?: number): Promise<AskResult> {
   console.log('');
-  
+
+  const view = createStreamView(config);
+  let result: AskResult;
+
   try {
-    const result = await council.ask(question, (event: CouncilEvent) => {
+    const onEvent = (event: CouncilEvent) => {
+        view.closeChair(); // События инструментов печатаются с новой строки
         if (config.getMuteMode()) return;
 
         switch (event.type) {
@@ -257,49 +311,35 @@ async function askCouncil(question: string, council: Council, config: ConfigMana
                 logger.success(event.message || '');
                 break;
         }
-    }, signal, (res) => {
-        // Callback for individual council responses (Detailed View)
-        if (config.getMuteMode()) return;
+    };
+    const onToken = (token: StreamToken) => view.onToken(token);
 
-        if (!res.error) {
-            const agent = config.getAgent(res.providerId);
-            const name = agent ? agent.name : res.providerId;
-            const model = agent ? agent.model : res.model;
-            
-            logger.agent(name, model);
-            
-            // Display reasoning for council members if available
-            if (res.reasoning) {
-                logger.agentLine(`💭 ${t('reasoning') || 'Reasoning'}:`);
-                res.reasoning.split('\n').forEach(line => {
-                    logger.agentLine(`  ${chalk.italic(line)}`);
-                });
-            }
+    result = continueTurns
+        ? await council.continueAsk(continueTurns, onEvent, signal, onToken)
+        : await council.ask(question, onEvent, signal, (res) => {
+            // Callback for individual council responses (Detailed View)
+            if (config.getMuteMode()) return;
+            view.onCouncilResponse(res);
+        }, onToken);
 
-            logger.agentLine('');
-            res.text.split('\n').forEach(l => logger.agentLine(l));
-            logger.agentEnd();
-        } else {
-            const agent = config.getAgent(res.providerId);
-            const name = agent ? agent.name : res.providerId;
-            logger.error(`[${name}] ${t('error')}: ${res.error}`);
-        }
-    });
+    view.closeChair();
 
     // Председатель
-    console.log(chalk.cyan(`\n  ${t('status_chair')}`));
-    if (result.chairResponse && !result.chairResponse.error) {
-      // Reasoning block for Chair
-      if (result.chairResponse.reasoning) {
-          console.log(chalk.gray(`\n  💭 ${chalk.bold('Reasoning')}:`));
-          console.log(chalk.gray(result.chairResponse.reasoning.split('\n').map(l => `  ${chalk.italic(l)}`).join('\n')));
-          console.log(chalk.gray('  ' + '─'.repeat(40))); // Separator line
-          console.log('');
+    if (view.chairStreamed()) {
+      // Ответ уже выведен потоком, остается показать только ошибку
+      if (result.chairResponse?.error) {
+        console.log(chalk.red(`  ✗ ${t('error')}: ${result.chairResponse.error}`));
       }
+    } else {
+      printChairResponse(result.chairResponse);
+    }
 
-      console.log(result.chairResponse.text.split('\n').map(l => `  ${l}`).join('\n'));
-    } else if (result.chairResponse?.error) {
-      console.log(chalk.red(`  ✗ ${t('error')}: ${result.chairResponse.error}`));
+    // Стоимость запроса (Секретарь работает в фоне и попадает только в /cost)
+    if (result.askId) {
+      const totals = summarize(council.getUsage().getAskRecords(result.askId)).total;
+      if (totals.calls > 0) {
+        console.log(chalk.gray(`  💰 ${formatCost(totals.cost)} · ${totals.input} in / ${totals.output} out`));
+      }
     }
   } catch (err: any) {
       logger.error(`${t('error')}: ${err.message}`);
@@ -307,6 +347,222 @@ async function askCouncil(question: string, council: Council, config: ConfigMana
   }
 
   console.log('');
+  return result;
+}
+
+function printChairResponse(chairResponse: ProviderResponse | null) {
+    console.log(chalk.cyan(`\n  ${t('status_chair')}`));
+    if (chairResponse && !chairResponse.error) {
+      // Reasoning block for Chair
+      if (chairResponse.reasoning) {
+          console.log(chalk.gray(`\n  💭 ${chalk.bold('Reasoning')}:`));
+          console.log(chalk.gray(chairResponse.reasoning.split('\n').map(l => `  ${chalk.italic(l)}`).join('\n')));
+          console.log(chalk.gray('  ' + '─'.repeat(40))); // Separator line
+          console.log('');
+      }
+
+      console.log(chairResponse.text.split('\n').map(l => `  ${l}`).join('\n'));
+    } else if (chairResponse?.error) {
+      console.log(chalk.red(`  ✗ ${t('error')}: ${chairResponse.error}`));
+    }
+}
+
+function printCouncilResponse(config: ConfigManager, res: ProviderResponse) {
+    if (!res.error) {
+        const agent = config.getAgent(res.providerId);
+        const name = agent ? agent.name : res.providerId;
+        const model = agent ? agent.model : res.model;
+
+        logger.agent(name, model);
+
+        // Display reasoning for council members if available
+        if (res.reasoning) {
+            logger.agentLine(`💭 ${t('reasoning') || 'Reasoning'}:`);
+            res.reasoning.split('\n').forEach(line => {
+                logger.agentLine(`  ${chalk.italic(line)}`);
+            });
+        }
+
+        logger.agentLine('');
+        res.text.split('\n').forEach(l => logger.agentLine(l));
+        logger.agentEnd();
+    } else {
+        const agent = config.getAgent(res.providerId);
+        const name = agent ? agent.name : res.providerId;
+        logger.error(`[${name}] ${t('error')}: ${res.error}`);
+    }
+}
+
+// Живой вывод потоковых ответов.
+// Члены Совета отвечают параллельно, поэтому терминал в каждый момент "принадлежит" одному из них:
+// его блок заполняется по мере прихода токенов, остальные копятся в буфере и выводятся по очереди.
+function createStreamView(config: ConfigManager) {
+    interface Pending { reasoning: string; text: string; done?: ProviderResponse; }
+    const pending = new Map<string, Pending>();
+    const queue: string[] = [];
+    let active: string | null = null;
+    let activePart: 'reasoning' | 'text' | null = null;
+    let lineOpen = false;
+
+    let chairOpen = false;
+    let chairPart: 'reasoning' | 'text' | null = null;
+    let chairHeaderPrinted = false;
+    let chairLineOpen = false;
+
+    // Пишет фрагмент построчно, добавляя префикс в начале каждой строки
+    const writeChunk = (chunk: string, prefix: string, style: (s: string) => string, open: boolean): boolean => {
+        const parts = chunk.split('\n');
+        parts.forEach((part, i) => {
+            if (i > 0) {
+                process.stdout.write('\n');
+                open = false;
+            }
+            if (part) {
+                if (!open) {
+                    process.stdout.write(prefix);
+                    open = true;
+                }
+                process.stdout.write(style(part));
+            }
+        });
+        return open;
+    };
+
+    const writeCouncil = (part: 'reasoning' | 'text', chunk: string) => {
+        if (activePart !== part) {
+            if (lineOpen) process.stdout.write('\n');
+            lineOpen = false;
+            if (part === 'reasoning') logger.agentLine(`💭 ${t('reasoning')}:`);
+            else logger.agentLine('');
+            activePart = part;
+        }
+        const style = part === 'reasoning' ? (x: string) => chalk.gray.italic(x) : (x: string) => x;
+        lineOpen = writeChunk(chunk, chalk.gray('  │ '), style, lineOpen);
+    };
+
+    const activate = (id: string) => {
+        const entry = pending.get(id)!;
+        const agent = config.getAgent(id);
+        active = id;
+        activePart = null;
+        lineOpen = false;
+        if (entry.done?.error && !entry.text && !entry.reasoning) return; // Ошибку печатаем без блока
+        logger.agent(agent ? agent.name : id, agent ? agent.model : (entry.done?.model || ''));
+        if (entry.reasoning) writeCouncil('reasoning', entry.reasoning);
+        if (entry.text) writeCouncil('text', entry.text);
+    };
+
+    const finish = (id: string) => {
+        const entry = pending.get(id)!;
+        const res = entry.done!;
+        const hadStream = !!(entry.text || entry.reasoning);
+
+        if (!hadStream) {
+            // Провайдер не прислал ни одного токена (ошибка до начала потока)
+            printCouncilResponse(config, res);
+        } else {
+            if (lineOpen) process.stdout.write('\n');
+            logger.agentEnd();
+            if (res.error) {
+                const agent = config.getAgent(id);
+                logger.error(`[${agent ? agent.name : id}] ${t('error')}: ${res.error}`);
+            }
+        }
+
+        pending.delete(id);
+        queue.splice(queue.indexOf(id), 1);
+        active = null;
+        activePart = null;
+        lineOpen = false;
+    };
+
+    const advance = () => {
+        while (active === null && queue.length > 0) {
+            const next = queue[0];
+            activate(next);
+            if (pending.get(next)!.done) finish(next);
+        }
+    };
+
+    const ensureEntry = (id: string): Pending => {
+        let entry = pending.get(id);
+        if (!entry) {
+            entry = { reasoning: '', text: '' };
+            pending.set(id, entry);
+            queue.push(id);
+        }
+        return entry;
+    };
+
+    const writeChair = (part: 'reasoning' | 'text', chunk: string) => {
+        if (!chairHeaderPrinted) {
+            console.log(chalk.cyan(`\n  ${t('status_chair')}`));
+            chairHeaderPrinted = true;
+        }
+        if (!chairOpen) {
+            process.stdout.write('\n');
+            chairOpen = true;
+            chairPart = null;
+            chairLineOpen = false;
+        }
+        if (chairPart !== part) {
+            if (chairLineOpen) process.stdout.write('\n');
+            chairLineOpen = false;
+            if (part === 'reasoning') {
+                console.log(chalk.gray(`  💭 ${chalk.bold('Reasoning')}:`));
+            } else if (chairPart === 'reasoning') {
+                console.log(chalk.gray('  ' + '─'.repeat(40)));
+                console.log('');
+            }
+            chairPart = part;
+        }
+        const style = part === 'reasoning' ? (x: string) => chalk.gray.italic(x) : (x: string) => x;
+        chairLineOpen = writeChunk(chunk, '  ', style, chairLineOpen);
+    };
+
+    return {
+        onToken(token: StreamToken) {
+            if (token.role === 'chair') {
+                if (token.reasoning) writeChair('reasoning', token.reasoning);
+                if (token.text) writeChair('text', token.text);
+                return;
+            }
+
+            if (config.getMuteMode()) return;
+            const entry = ensureEntry(token.agentId);
+            if (token.reasoning) entry.reasoning += token.reasoning;
+            if (token.text) entry.text += token.text;
+
+            if (active === null) {
+                activate(token.agentId); // Печатает накопленное, включая текущий фрагмент
+            } else if (active === token.agentId) {
+                if (token.reasoning) writeCouncil('reasoning', token.reasoning);
+                if (token.text) writeCouncil('text', token.text);
+            }
+        },
+
+        onCouncilResponse(res: ProviderResponse) {
+            const entry = ensureEntry(res.providerId);
+            entry.done = res;
+            if (active === res.providerId) {
+                finish(res.providerId);
+            }
+            advance();
+        },
+
+        // Завершает текущий потоковый блок Председателя (перед событиями инструментов и в конце)
+        closeChair() {
+            if (chairOpen) {
+                if (chairLineOpen) process.stdout.write('\n');
+                chairOpen = false;
+                chairLineOpen = false;
+            }
+        },
+
+        chairStreamed(): boolean {
+            return chairHeaderPrinted;
+        }
+    };
 }
 
 function getStatusBar(ctx: { history: HistoryManager, config: ConfigManager, council: Council }) {
@@ -314,7 +570,25 @@ function getStatusBar(ctx: { history: HistoryManager, config: ConfigManager, cou
   const limit = 50; 
   const contextPct = Math.min(Math.round((msgs / limit) * 100), 100);
   
-  return `${t('context')}: ${contextPct}%`;
+  let status = `${t('context')}: ${contextPct}%`;
+
+  const team = ctx.config.getActiveTeam();
+  if (team) {
+    status = `${team.name} | ${status}`;
+  }
+
+  // Остаток бюджета (минимум из сессионного и дневного лимита)
+  const usage = ctx.council.getUsage();
+  const remaining = getRemaining(ctx.config.getBudget(), usage.getSessionRecords(), usage.getTodayRecords());
+  if (remaining !== undefined) {
+    status += ` | ${t('budget_left')}: ${formatCost(Math.max(remaining, 0))}`;
+  }
+
+  if (ctx.config.getPlanMode()) {
+    status += ` | ${t('plan_status')}`;
+  }
+
+  return status;
 }
 
 async function checkUpdate() {
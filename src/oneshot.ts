@@ -0,0 +1,217 @@
+// Разовый запрос без интерактива: hause ask "вопрос" | echo вопрос | hause ask -
+// Ответ Председателя — в stdout, прогресс — в stderr, при ошибке код выхода != 0
+import util from 'node:util';
+import { chalkStderr as chalk } from 'chalk';
+import { ConfigManager } from './config.js';
+import { HistoryManager } from './history.js';
+import { Council } from './council.js';
+import { summarize } from './usage.js';
+import { PERMISSION_NAMES } from './approvals.js';
+import { formatCost } from './commands.js';
+import { t, setLanguage } from './i18n.js';
+import { AppPermissions, CouncilEvent, ProviderResponse } from './types.js';
+
+const EXIT_OK = 0;
+const EXIT_ERROR = 1;
+const EXIT_USAGE = 2;
+const EXIT_ABORTED = 130;
+
+export interface AskOptions {
+  question: string;
+  team?: string;
+  mute: boolean;
+  json: boolean;
+  maxTurns?: number;
+  allow: (keyof AppPermissions)[];
+  deny: (keyof AppPermissions)[];
+}
+
+class UsageError extends Error {}
+
+function parseToolList(raw: string | undefined): (keyof AppPermissions)[] {
+  if (!raw) return [];
+  const names = raw.split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+  if (names.includes('all')) return Object.values(PERMISSION_NAMES);
+  return names.map(name => {
+    const perm = PERMISSION_NAMES[name];
+    if (!perm) throw new UsageError(`${t('ask_bad_tool')}: ${name} (${Object.keys(PERMISSION_NAMES).join(', ')}, all)`);
+    return perm;
+  });
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+export async function parseAskArgs(argv: string[], stdin: () => Promise<string> = readStdin): Promise<AskOptions | null> {
+  const { values, positionals } = util.parseArgs({
+    args: argv,
+    options: {
+      team: { type: 'string', short: 't' },
+      mute: { type: 'boolean', short: 'm', default: false },
+      json: { type: 'boolean', default: false },
+      'max-turns': { type: 'string' },
+      allow: { type: 'string' },
+      deny: { type: 'string' },
+      'no-tools': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    },
+    allowPositionals: true
+  });
+
+  if (values.help) return null;
+
+  // "-" или пустые аргументы при перенаправленном stdin — читаем вопрос из stdin
+  let question = positionals.join(' ');
+  if (question === '-' || (!question && !process.stdin.isTTY)) {
+    question = await stdin();
+  }
+  question = question.trim();
+  if (!question) throw new UsageError(t('ask_empty_question'));
+
+  let maxTurns: number | undefined;
+  if (values['max-turns'] !== undefined) {
+    maxTurns = parseInt(values['max-turns'], 10);
+    if (isNaN(maxTurns) || maxTurns < 1) throw new UsageError(`${t('ask_bad_turns')}: ${values['max-turns']}`);
+  }
+
+  return {
+    question,
+    team: values.team,
+    mute: values.mute,
+    json: values.json,
+    maxTurns,
+    allow: parseToolList(values.allow),
+    deny: values['no-tools'] ? Object.values(PERMISSION_NAMES) : parseToolList(values.deny)
+  };
+}
+
+// Ответ в JSON (hause ask --json и HTTP API): Председатель, мнения Совета, ошибка
+export function askResultJson(config: ConfigManager, chairResponse: ProviderResponse | null, councilResponses: ProviderResponse[], failure?: string) {
+  const chair = chairResponse ? config.getAgent(chairResponse.providerId) : undefined;
+  return {
+    answer: chairResponse && !chairResponse.error ? chairResponse.text : null,
+    error: failure || null,
+    team: config.getActiveTeam()?.name || null,
+    chair: chair ? { id: chair.id, name: chair.name, model: chairResponse!.model } : null,
+    council: councilResponses.map(r => ({
+      id: r.providerId,
+      name: config.getAgent(r.providerId)?.name || r.providerId,
+      model: r.model,
+      text: r.text,
+      error: r.error || null
+    }))
+  };
+}
+
+function printProgress(event: CouncilEvent) {
+  switch (event.type) {
+    case 'step':
+      console.error(chalk.white(`● ${event.message || ''}`));
+      break;
+    case 'tool_start':
+      if (event.payload) console.error(chalk.gray('  └ ') + chalk.cyan(String(event.payload.tool).padEnd(6)) + chalk.white(event.payload.input));
+      break;
+    case 'agent_response':
+      if (event.payload) console.error(chalk.gray(`    ${event.payload.agent.name} (${event.payload.agent.model}): ${t('answer_received')} (${event.payload.duration}s)`));
+      break;
+    case 'info':
+      console.error(chalk.gray(`  ${event.message || ''}`));
+      break;
+    case 'error':
+      console.error(chalk.red(`✗ ${event.message || ''}`));
+      break;
+    case 'success':
+      console.error(chalk.green(`✓ ${event.message || ''}`));
+      break;
+  }
+}
+
+export async function runAsk(argv: string[]): Promise<number> {
+  // Конфиг и история только в памяти: --team и --allow не меняют настройки, сессия не перезаписывается
+  const config = new ConfigManager({ persist: false });
+  setLanguage(config.getLanguage());
+
+  let options: AskOptions | null;
+  try {
+    options = await parseAskArgs(argv);
+  } catch (err: any) {
+    console.error(chalk.red(`${t('error')}: ${err.message}`));
+    console.error(t('ask_usage'));
+    return EXIT_USAGE;
+  }
+  if (!options) {
+    console.error(t('ask_usage'));
+    return EXIT_OK;
+  }
+
+  if (options.team) {
+    const team = config.findTeam(options.team);
+    if (!team) {
+      console.error(chalk.red(`${t('team_not_found')}: ${options.team}`));
+      return EXIT_USAGE;
+    }
+    config.switchTeam(team.id);
+  }
+
+  const perms = { ...config.getPermissions() };
+  options.allow.forEach(p => perms[p] = true);
+  options.deny.forEach(p => perms[p] = false);
+  config.setPermissions(perms);
+  config.setMuteMode(options.mute);
+
+  const council = new Council(config, new HistoryManager({ persist: false }));
+  if (options.maxTurns) council.setMaxTurns(options.maxTurns);
+
+  const controller = new AbortController();
+  const onSigint = () => controller.abort();
+  process.once('SIGINT', onSigint);
+
+  const councilResponses: ProviderResponse[] = [];
+  let chairResponse: ProviderResponse | null = null;
+  let askId: string | undefined;
+  let failure: string | undefined;
+
+  try {
+    const result = await council.ask(options.question, event => {
+      if (!options!.mute) printProgress(event);
+    }, controller.signal, res => {
+      if (options!.mute) return;
+      const agent = config.getAgent(res.providerId);
+      console.error(chalk.gray(`  ┌── [${agent?.name || res.providerId}] (${res.model})`));
+      (res.error ? `${t('error')}: ${res.error}` : res.text).split('\n').forEach(line => console.error(chalk.gray(`  │ ${line}`)));
+      console.error(chalk.gray('  └──'));
+    });
+    askId = result.askId;
+    chairResponse = result.chairResponse;
+    councilResponses.push(...result.councilResponses);
+    if (!chairResponse) failure = 'No response from chair';
+    else if (chairResponse.error) failure = chairResponse.error;
+  } catch (err: any) {
+    failure = controller.signal.aborted ? t('aborted') : err.message;
+  } finally {
+    process.removeListener('SIGINT', onSigint);
+    await council.cleanup();
+  }
+
+  const totals = summarize(askId ? council.getUsage().getAskRecords(askId) : []).total;
+
+  if (options.json) {
+    process.stdout.write(JSON.stringify({
+      question: options.question,
+      ...askResultJson(config, chairResponse, councilResponses, failure),
+      usage: totals
+    }, null, 2) + '\n');
+  } else {
+    if (chairResponse && !chairResponse.error) process.stdout.write(chairResponse.text.trimEnd() + '\n');
+    if (failure) console.error(chalk.red(`✗ ${t('error')}: ${failure}`));
+    if (totals.calls > 0 && !options.mute) {
+      console.error(chalk.gray(`💰 ${formatCost(totals.cost)} · ${totals.input} in / ${totals.output} out`));
+    }
+  }
+
+  if (controller.signal.aborted) return EXIT_ABORTED;
+  return failure ? EXIT_ERROR : EXIT_OK;
+}
@@ -0,0 +1,121 @@
+// OpenAI-совместимый формат для hause serve: /v1/models и /v1/chat/completions
+// Входящие messages превращаются в историю HistoryManager (обратное преобразование к OpenAI-ветке
+// prepareMessages), дальше работает обычный Council.ask — при отправке провайдерам история снова
+// проходит через prepareMessages и обрезается под контекст модели.
+import { Message, TeamPreset, TokenUsage } from './types.js';
+
+// Модель "hause" — текущий состав без выбора команды
+export const DEFAULT_MODEL_ID = 'hause';
+
+export interface OpenAIMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+  content?: string | null | { type: string; text?: string; image_url?: { url: string } | string }[];
+  name?: string;
+  tool_calls?: { id: string; function: { name: string; arguments: string } }[];
+  tool_call_id?: string;
+}
+
+export interface ConvertedConversation {
+  history: Message[];
+  question: string;
+}
+
+// data:image/png;base64,.... -> base64; внешние URL провайдерам не передаем
+function imageFromUrl(url: string): string | null {
+  const match = url.match(/^data:image\/[\w.+-]+;base64,(.+)$/);
+  return match ? match[1] : null;
+}
+
+function contentToParts(content: OpenAIMessage['content']): { text: string; images: string[] } {
+  if (content === null || content === undefined) return { text: '', images: [] };
+  if (typeof content === 'string') return { text: content, images: [] };
+
+  const texts: string[] = [];
+  const images: string[] = [];
+  for (const part of content) {
+    if (part.type === 'text' && part.text) texts.push(part.text);
+    if (part.type === 'image_url' && part.image_url) {
+      const url = typeof part.image_url === 'string' ? part.image_url : part.image_url.url;
+      const img = imageFromUrl(url);
+      if (img) images.push(img);
+      else texts.push(`[image: ${url}]`);
+    }
+  }
+  return { text: texts.join('\n'), images };
+}
+
+// Последнее сообщение пользователя — вопрос к Совету, все до него — история.
+// Системные инструкции клиента идут первым сообщением истории; инструменты клиента
+// не вызываются (у Совета свои), их вызовы и результаты сохраняются как текст.
+export function fromOpenAIMessages(messages: OpenAIMessage[], now: number = Date.now()): ConvertedConversation {
+  if (!Array.isArray(messages) || messages.length === 0) throw new Error('Field "messages" must be a non-empty array');
+
+  let lastUser = -1;
+  messages.forEach((m, i) => { if (m?.role === 'user') lastUser = i; });
+  if (lastUser === -1) throw new Error('At least one user message is required');
+
+  const history: Message[] = [];
+  const system: string[] = [];
+  messages.slice(0, lastUser).forEach((m, i) => {
+    const { text, images } = contentToParts(m.content);
+    const timestamp = now - (lastUser - i);
+    if (m.role === 'system' || m.role === 'developer') {
+      if (text) system.push(text);
+      return;
+    }
+    if (m.role === 'assistant') {
+      const calls = (m.tool_calls || []).map(c => `[tool call ${c.function.name}(${c.function.arguments})]`);
+      history.push({ role: 'assistant', text: [text, ...calls].filter(Boolean).join('\n'), timestamp });
+      return;
+    }
+    const prefix = m.role === 'tool' ? `[tool result${m.name ? ` ${m.name}` : ''}]\n` : '';
+    history.push({ role: 'user', text: prefix + text, timestamp, images: images.length > 0 ? images : undefined });
+  });
+
+  if (system.length > 0) {
+    history.unshift({ role: 'user', text: `System instructions:\n${system.join('\n\n')}`, timestamp: now - lastUser - 1 });
+  }
+
+  // Council.ask принимает вопрос текстом, поэтому картинки из него уходят отдельным сообщением перед ним
+  const { text: question, images } = contentToParts(messages[lastUser].content);
+  if (images.length > 0) {
+    history.push({ role: 'user', text: '[attached images]', timestamp: now - 1, images });
+  }
+
+  // Сообщения после последнего user (например, system) дописываем к вопросу
+  const tail = messages.slice(lastUser + 1).map(m => contentToParts(m.content).text).filter(Boolean);
+  return { history, question: [question, ...tail].join('\n\n').trim() };
+}
+
+export function modelList(teams: TeamPreset[], created: number) {
+  return {
+    object: 'list',
+    data: [DEFAULT_MODEL_ID, ...teams.map(t => t.name)].map(id => ({ id, object: 'model', created, owned_by: 'hause' }))
+  };
+}
+
+function usageJson(usage: TokenUsage) {
+  return { prompt_tokens: usage.input, completion_tokens: usage.output, total_tokens: usage.input + usage.output };
+}
+
+export function completionJson(id: string, model: string, created: number, content: string, usage: TokenUsage) {
+  return {
+    id,
+    object: 'chat.completion',
+    created,
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: usageJson(usage)
+  };
+}
+
+export function completionChunk(id: string, model: string, created: number, delta: { role?: string; content?: string }, finishReason: string | null = null, usage?: TokenUsage) {
+  return {
+    id,
+    object: 'chat.completion.chunk',
+    created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+    ...(usage ? { usage: usageJson(usage) } : {})
+  };
+}
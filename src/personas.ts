@@ -0,0 +1,37 @@
+// Роли (персоны) агентов: встроенные шаблоны и сборка системного промпта
+import { AgentConfig } from './types.js';
+import { t } from './i18n.js';
+
+// Тексты шаблонов лежат в i18n: persona_<id> (название) и persona_<id>_prompt
+export const PERSONA_IDS = [
+  'security',
+  'devils_advocate',
+  'performance',
+  'architect',
+  'tester',
+  'ux',
+  'domain_expert',
+  'pragmatist'
+] as const;
+
+export type PersonaId = typeof PERSONA_IDS[number];
+
+export function isPersonaId(id: string | undefined): id is PersonaId {
+  return !!id && (PERSONA_IDS as readonly string[]).includes(id);
+}
+
+export function getPersonaName(id: string | undefined): string {
+  return isPersonaId(id) ? t(`persona_${id}`) : '';
+}
+
+// Базовый промпт роли (Совет/Председатель) + персона + собственные инструкции агента
+export function composeSystemPrompt(agent: AgentConfig, basePrompt: string): string {
+  let prompt = basePrompt;
+  if (isPersonaId(agent.persona)) {
+    prompt += `\n\n${t('persona_header')}: ${t(`persona_${agent.persona}`)}. ${t(`persona_${agent.persona}_prompt`)}`;
+  }
+  if (agent.systemPrompt && agent.systemPrompt.trim()) {
+    prompt += `\n\n${t('persona_custom_header')}:\n${agent.systemPrompt.trim()}`;
+  }
+  return prompt;
+}
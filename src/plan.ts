@@ -0,0 +1,61 @@
+// Режим плана (/plan или префикс "plan:" в вопросе): команды, запись и правка файлов
+// Председателя не выполняются сразу. Пользователь видит пронумерованный план с диффами
+// и выполняет его целиком, выбранные шаги или отправляет отзыв на доработку.
+import { ParsedTool, ParsedToolType } from './types.js';
+import { toolTarget } from './approvals.js';
+
+const PLAN_PREFIX = /^\s*plan:\s*/i;
+
+// Только чтение: выполняются и в режиме плана, чтобы Председатель мог изучить проект
+const READ_ONLY_TOOLS: ParsedToolType[] = ['read', 'tree', 'search'];
+
+export interface PlanStep {
+  index: number; // Номер шага для пользователя (с 1)
+  tool: ParsedTool;
+  target: string; // Команда, путь, URL или действие
+  preview?: string; // Unified diff для file: и edit:
+}
+
+export type PlanDecision =
+  | { action: 'execute'; steps: number[] } // Номера выполняемых шагов
+  | { action: 'revise'; feedback: string }
+  | { action: 'cancel' };
+
+export type PlanHandler = (steps: PlanStep[]) => Promise<PlanDecision>;
+
+// "plan: вопрос" -> режим плана только для этого запроса
+export function parsePlanPrefix(question: string): { question: string; plan: boolean } {
+  const match = question.match(PLAN_PREFIX);
+  return match ? { question: question.substring(match[0].length), plan: true } : { question, plan: false };
+}
+
+// План нужен, если ход Председателя что-то меняет; одно чтение выполняется как обычно
+export function needsPlan(tools: ParsedTool[]): boolean {
+  return tools.some(tool => !READ_ONLY_TOOLS.includes(tool.type));
+}
+
+export function planStep(index: number, tool: ParsedTool, preview?: string): PlanStep {
+  return { index, tool, target: toolTarget(tool), preview: preview || undefined };
+}
+
+// "1,3-4" -> [1, 3, 4]; undefined — номер вне плана или мусор
+export function parseStepSelection(input: string, total: number): number[] | undefined {
+  const steps = new Set<number>();
+  for (const part of input.split(/[\s,]+/).filter(Boolean)) {
+    const range = part.match(/^(\d+)(?:-(\d+))?$/);
+    if (!range) return undefined;
+    const from = parseInt(range[1], 10);
+    const to = range[2] ? parseInt(range[2], 10) : from;
+    if (from < 1 || to > total || from > to) return undefined;
+    for (let i = from; i <= to; i++) steps.add(i);
+  }
+  return steps.size > 0 ? [...steps].sort((a, b) => a - b) : undefined;
+}
+
+// Текст плана для режимов без интерактивного выбора (hause ask, HTTP API)
+export function formatPlan(steps: PlanStep[]): string {
+  return steps.map(step => {
+    const head = `${step.index}. ${step.tool.type}: ${step.target}`;
+    return step.preview ? `${head}\n${step.preview}` : head;
+  }).join('\n\n');
+}
@@ -0,0 +1,299 @@
+// Политика команд терминала: правила allow/deny/ask для блоков bash Председателя.
+// ~/.council-ai/policy.json — глобальные правила, .council_policy.json в папке проекта — правила проекта.
+// Правила сравниваются с argv каждого сегмента конвейера (a | b && c; d), а не с исходной строкой.
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+export const GLOBAL_POLICY_FILE = path.join(os.homedir(), '.council-ai', 'policy.json');
+export const PROJECT_POLICY_NAME = '.council_policy.json';
+
+export type PolicyAction = 'allow' | 'ask' | 'deny';
+export type PolicySource = 'builtin' | 'global' | 'project';
+
+export interface PolicyRule {
+  action: PolicyAction;
+  pattern: string; // Маска ("git push*") или регулярное выражение ("/^npm (test|run)\b/")
+  reason?: string;
+  source?: PolicySource;
+}
+
+// Формат файла политики
+export interface PolicyFile {
+  default?: PolicyAction; // Для сегментов без подходящего правила (по умолчанию allow)
+  builtins?: boolean; // false — отключить встроенные запреты (учитывается только в глобальном файле)
+  rules?: PolicyRule[];
+}
+
+export interface CommandPolicy {
+  rules: PolicyRule[];
+  defaultAction: PolicyAction;
+  errors: string[]; // Нечитаемые файлы и неверные правила (пропущены)
+}
+
+export interface SegmentDecision {
+  command: string; // Нормализованный argv сегмента
+  action: PolicyAction;
+  rule?: PolicyRule;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction; // Самое строгое решение по всем сегментам
+  rule?: PolicyRule;
+  command?: string;
+  segments: SegmentDecision[];
+}
+
+// Встроенные запреты разрушительных команд
+export const BUILTIN_RULES: PolicyRule[] = [
+  { action: 'deny', pattern: '/^rm (.* )?-[a-zA-Z]*[rR][a-zA-Z]*( .*)? (\\/|\\/\\*|~|~\\/|~\\/\\*|\\$HOME|\\$HOME\\/|\\$HOME\\/\\*)( |$)/', reason: 'recursive delete of / or home' },
+  { action: 'deny', pattern: '/^rm (.* )?--no-preserve-root( |$)/', reason: 'rm --no-preserve-root' },
+  { action: 'deny', pattern: '/^git (.* )?push (.* )?(--force|-f|--mirror)( |$)/', reason: 'force push' },
+  { action: 'deny', pattern: '/^mkfs(\\.\\w+)?( |$)/', reason: 'formats a file system' },
+  { action: 'deny', pattern: '/^dd (.* )?of=\\/dev\\//', reason: 'writes to a raw device' },
+  { action: 'deny', pattern: '/^(chmod|chown) (.* )?-R (.* )?\\/( |$)/', reason: 'recursive permission change on /' },
+  { action: 'deny', pattern: '/^(shutdown|reboot|halt|poweroff)( |$)/', reason: 'powers off the machine' }
+];
+
+// Обертки, за которыми стоит настоящая команда, и их флаги со значением (sudo -u root, xargs -n 1)
+const WRAPPERS = new Set(['sudo', 'env', 'command', 'exec', 'nohup', 'time', 'nice', 'xargs']);
+const WRAPPER_VALUE_FLAGS = /^-(u|g|n|I|P|L)$/;
+// Ключевые слова shell перед командой ({ rm ...; }, if ...; then rm ...)
+const KEYWORDS = new Set(['{', '}', '!', 'if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until']);
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash']);
+
+const STRICTNESS: Record<PolicyAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+// Разбирает строку shell на сегменты (по | || && ; & переводам строк и скобкам) и возвращает argv каждого.
+// Кавычки и экранирование снимаются, перенаправления (> file, 2>&1) отбрасываются,
+// содержимое $(...) и `...` проверяется как отдельные команды.
+export function parseCommand(cmd: string): string[][] {
+  const segments: string[][] = [];
+  let argv: string[] = [];
+  let word = '';
+  let inWord = false;
+  let redirect = false; // Следующее слово — цель перенаправления
+
+  const endWord = () => {
+    if (!inWord) return;
+    if (redirect) redirect = false;
+    else argv.push(word);
+    word = '';
+    inWord = false;
+  };
+  const endSegment = () => {
+    endWord();
+    if (argv.length > 0) segments.push(argv);
+    argv = [];
+    redirect = false;
+  };
+  // Вложенная команда до закрывающего символа; возвращает индекс после него
+  const nested = (start: number, close: string): number => {
+    let depth = 1;
+    let i = start;
+    for (; i < cmd.length; i++) {
+      if (cmd[i] === '\\') { i++; continue; }
+      if (close === ')' && cmd[i] === '(') depth++;
+      if (cmd[i] === close && --depth === 0) break;
+    }
+    segments.push(...parseCommand(cmd.substring(start, i)));
+    return i + 1;
+  };
+
+  let i = 0;
+  while (i < cmd.length) {
+    const c = cmd[i];
+    if (c === '\\') {
+      if (cmd[i + 1] === '\n') { i += 2; continue; }
+      word += cmd[i + 1] ?? '';
+      inWord = true;
+      i += 2;
+    } else if (c === "'") {
+      const end = cmd.indexOf("'", i + 1);
+      const stop = end === -1 ? cmd.length : end;
+      word += cmd.substring(i + 1, stop);
+      inWord = true;
+      i = stop + 1;
+    } else if (c === '"') {
+      i++;
+      inWord = true;
+      while (i < cmd.length && cmd[i] !== '"') {
+        if (cmd[i] === '\\' && i + 1 < cmd.length) {
+          word += cmd[i + 1];
+          i += 2;
+        } else if (cmd[i] === '$' && cmd[i + 1] === '(') {
+          i = nested(i + 2, ')');
+        } else if (cmd[i] === '`') {
+          i = nested(i + 1, '`');
+        } else {
+          word += cmd[i++];
+        }
+      }
+      i++;
+    } else if (c === '$' && cmd[i + 1] === '(') {
+      i = nested(i + 2, ')');
+    } else if (c === '`') {
+      i = nested(i + 1, '`');
+    } else if (c === '#' && !inWord) {
+      // Комментарий до конца строки
+      while (i < cmd.length && cmd[i] !== '\n') i++;
+    } else if (/[|&;\n()]/.test(c)) {
+      // 2>&1, >&2: & внутри перенаправления — не разделитель
+      if (c === '&' && (cmd[i - 1] === '>' || cmd[i - 1] === '<')) {
+        i++;
+        while (i < cmd.length && /[0-9-]/.test(cmd[i])) i++;
+        redirect = false;
+        continue;
+      }
+      endSegment();
+      i++;
+    } else if (c === '>' || c === '<') {
+      // Номер дескриптора (2>) — часть перенаправления, а не аргумент
+      if (inWord && /^\d+$/.test(word)) {
+        word = '';
+        inWord = false;
+      } else {
+        endWord();
+      }
+      while (cmd[i + 1] === '>' || cmd[i + 1] === '<') i++;
+      redirect = true;
+      i++;
+    } else if (/\s/.test(c)) {
+      endWord();
+      i++;
+    } else {
+      word += c;
+      inWord = true;
+      i++;
+    }
+  }
+  endSegment();
+  return segments;
+}
+
+// argv без переменных окружения (FOO=1 cmd) и оберток (sudo, env, nohup...); путь к программе — по имени
+export function commandArgv(argv: string[]): string[] {
+  let rest = [...argv];
+  while (rest.length > 0) {
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(rest[0]) || KEYWORDS.has(rest[0])) {
+      rest.shift();
+    } else if (WRAPPERS.has(rest[0])) {
+      rest.shift();
+      // Флаги обертки (sudo -u root, nice -n 10)
+      while (rest.length > 1 && rest[0].startsWith('-')) {
+        const flag = rest.shift()!;
+        if (WRAPPER_VALUE_FLAGS.test(flag)) rest.shift();
+      }
+    } else {
+      break;
+    }
+  }
+  if (rest.length > 0) rest[0] = rest[0].replace(/^.*[\\/]/, '');
+  return rest;
+}
+
+// Нормализованные argv всех команд строки, включая скрипты sh -c "..."
+export function commandSegments(cmd: string): string[][] {
+  const result: string[][] = [];
+  for (const segment of parseCommand(cmd)) {
+    const argv = commandArgv(segment);
+    if (argv.length === 0) continue;
+    result.push(argv);
+    const script = argv.indexOf('-c');
+    if (SHELLS.has(argv[0]) && script !== -1 && argv[script + 1]) {
+      result.push(...commandSegments(argv[script + 1]));
+    }
+  }
+  return result;
+}
+
+function wildcardToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 's');
+}
+
+// "/.../flags" — регулярное выражение, иначе маска с * и ?
+export function compilePattern(pattern: string): RegExp {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/s);
+  return regex ? new RegExp(regex[1], regex[2]) : wildcardToRegExp(pattern);
+}
+
+export function ruleMatches(rule: PolicyRule, argv: string[]): boolean {
+  try {
+    return compilePattern(rule.pattern).test(argv.join(' '));
+  } catch {
+    return false;
+  }
+}
+
+function readPolicyFile(file: string, source: PolicySource, errors: string[]): PolicyFile | null {
+  if (!fs.existsSync(file)) return null;
+  let data: PolicyFile;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e: any) {
+    errors.push(`${file}: ${e.message}`);
+    return null;
+  }
+
+  const rules: PolicyRule[] = [];
+  for (const rule of Array.isArray(data.rules) ? data.rules : []) {
+    if (!rule || !['allow', 'ask', 'deny'].includes(rule.action) || typeof rule.pattern !== 'string') {
+      errors.push(`${file}: invalid rule ${JSON.stringify(rule)}`);
+      continue;
+    }
+    try {
+      compilePattern(rule.pattern);
+    } catch (e: any) {
+      errors.push(`${file}: ${rule.pattern}: ${e.message}`);
+      continue;
+    }
+    rules.push({ ...rule, source });
+  }
+  return { ...data, rules };
+}
+
+// Глобальная политика + политика проекта. Проект может только добавлять правила:
+// встроенные запреты отключаются лишь глобальным файлом, а default берется самый строгий.
+export function loadCommandPolicy(projectDir: string): CommandPolicy {
+  const errors: string[] = [];
+  const global = readPolicyFile(GLOBAL_POLICY_FILE, 'global', errors);
+  const project = readPolicyFile(path.join(projectDir, PROJECT_POLICY_NAME), 'project', errors);
+
+  const builtins = global?.builtins === false ? [] : BUILTIN_RULES.map(r => ({ ...r, source: 'builtin' as const }));
+  const defaults = [global?.default, project?.default].filter((a): a is PolicyAction => !!a && a in STRICTNESS);
+  const defaultAction = defaults.reduce<PolicyAction>((acc, a) => STRICTNESS[a] > STRICTNESS[acc] ? a : acc, 'allow');
+
+  return {
+    rules: [...builtins, ...(global?.rules || []), ...(project?.rules || [])],
+    defaultAction,
+    errors
+  };
+}
+
+// Решение для команды: по каждому сегменту — самое строгое из подошедших правил (deny > ask > allow),
+// без подходящих правил — действие по умолчанию. Итог — самый строгий сегмент.
+export function evaluateCommand(cmd: string, policy: Pick<CommandPolicy, 'rules' | 'defaultAction'>): PolicyDecision {
+  const segments: SegmentDecision[] = commandSegments(cmd).map(argv => {
+    const matched = policy.rules.filter(r => ruleMatches(r, argv));
+    const rule = matched.reduce<PolicyRule | undefined>(
+      (acc, r) => !acc || STRICTNESS[r.action] > STRICTNESS[acc.action] ? r : acc, undefined);
+    return { command: argv.join(' '), action: rule ? rule.action : policy.defaultAction, rule };
+  });
+
+  const worst = segments.reduce<SegmentDecision | undefined>(
+    (acc, s) => !acc || STRICTNESS[s.action] > STRICTNESS[acc.action] ? s : acc, undefined);
+  return {
+    action: worst ? worst.action : 'allow',
+    rule: worst?.rule,
+    command: worst?.command,
+    segments
+  };
+}
+
+// Описание решения для Председателя и пользователя
+export function describeDecision(decision: PolicyDecision): string {
+  const rule = decision.rule;
+  if (!rule) return `default policy (${decision.action}) for "${decision.command}"`;
+  return `${rule.source || 'policy'} rule "${rule.pattern}"${rule.reason ? ` (${rule.reason})` : ''} matched "${decision.command}"`;
+}
@@ -2,7 +2,8 @@
 import axios from 'axios';
 import FormData from 'form-data';
 import fs from 'node:fs';
-import { AgentConfig, ProviderResponse, Message, ProviderType } from './types.js';
+import { StringDecoder } from 'node:string_decoder';
+import { AgentConfig, ProviderResponse, Message, ProviderType, StreamDelta, ToolCall, ToolSchema, CustomProvider, TokenUsage } from './types.js';
 import { MODEL_PRICING, updatePricing, ModelPrice, getModelInfo } from './pricing.js';
 
 const DEFAULT_SYSTEM_PROMPT = `Ты — член Совета ИИ. Твоя задача — давать краткие, точные и полезные советы Председателю. Не пытайся выполнять команды, только анализируй и советуй.`;
@@ -39,8 +40,54 @@ const DEFAULT_MODELS: Record<string, string> = {
   openrouter: 'google/gemini-2.0-flash-001',
 };
 
+export interface SendOptions {
+  temperature?: number;
+  onToken?: (delta: StreamDelta) => void; // Если задан — ответ запрашивается потоком (SSE)
+  tools?: ToolSchema[]; // Native function calling: инструменты уходят в API, вызовы возвращаются в toolCalls
+  endpoint?: CustomProvider; // Обязателен для providerType 'custom'
+  redact?: (text: string) => string; // Маскирование секретов (Redactor) во всем, что уходит провайдеру
+}
+
+// Строки внутри аргументов инструмента: маска в сериализованном JSON могла бы сломать экранирование
+function redactArgs(value: unknown, redact: (text: string) => string): any {
+  if (typeof value === 'string') return redact(value);
+  if (Array.isArray(value)) return value.map(item => redactArgs(item, redact));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactArgs(item, redact)]));
+  }
+  return value;
+}
+
+// Прогоняет через redact все тексты запроса: промпты, историю, аргументы и результаты инструментов
+function redactRequest(redact: (text: string) => string, prompt: string, systemPrompt: string, history: Message[]) {
+  return {
+    prompt: redact(prompt),
+    systemPrompt: redact(systemPrompt),
+    history: history.map(m => ({
+      ...m,
+      text: redact(m.text),
+      reasoning: m.reasoning && redact(m.reasoning),
+      toolCalls: m.toolCalls?.map(c => ({ ...c, args: redactArgs(c.args, redact) })),
+      toolResults: m.toolResults?.map(r => ({ ...r, output: redact(r.output) }))
+    }))
+  };
+}
+
 // --- Helper Functions ---
 
+// Путь API добавляется перед query-строкой: у Azure base URL вида .../deployments/x?api-version=...
+export function endpointUrl(baseUrl: string, apiPath: string): string {
+  const [base, query] = baseUrl.trim().split('?');
+  const url = base.replace(/\/+$/, '') + apiPath;
+  return query ? `${url}?${query}` : url;
+}
+
+function endpointHeaders(endpoint: CustomProvider, apiKey: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  return { ...headers, ...(endpoint.headers || {}) };
+}
+
 export function estimateTokens(text: string): number {
   // Conservative estimate: ~2.5-3 chars per token for Cyrillic/mixed text
   // Standard English is ~4, but we want to be safe.
@@ -55,11 +102,66 @@ export function getMimeType(base64: string): string {
     return 'image/jpeg'; // Default fallback
 }
 
+// Аргументы вызова приходят строкой JSON (OpenAI, потоки); битый JSON не должен ронять запрос
+function parseToolArgs(raw: any): Record<string, any> {
+  if (raw && typeof raw === 'object') return raw;
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// usage-блоки провайдеров -> TokenUsage (input включает cached, output включает reasoning)
+function openAIUsage(u: any): TokenUsage | undefined {
+  if (!u) return undefined;
+  return {
+    input: u.prompt_tokens || 0,
+    output: u.completion_tokens || 0,
+    cached: u.prompt_tokens_details?.cached_tokens ?? u.prompt_cache_hit_tokens, // DeepSeek: prompt_cache_hit_tokens
+    reasoning: u.completion_tokens_details?.reasoning_tokens
+  };
+}
+
+function anthropicUsage(u: any): TokenUsage | undefined {
+  if (!u) return undefined;
+  // У Anthropic input_tokens не включает чтение/запись кэша
+  const cacheRead = u.cache_read_input_tokens || 0;
+  return {
+    input: (u.input_tokens || 0) + cacheRead + (u.cache_creation_input_tokens || 0),
+    output: u.output_tokens || 0,
+    cached: cacheRead || undefined
+  };
+}
+
+function geminiUsage(u: any): TokenUsage | undefined {
+  if (!u) return undefined;
+  // thoughtsTokenCount оплачивается как выход, но в candidatesTokenCount не входит
+  const thoughts = u.thoughtsTokenCount || 0;
+  return {
+    input: u.promptTokenCount || 0,
+    output: (u.candidatesTokenCount || 0) + thoughts,
+    cached: u.cachedContentTokenCount,
+    reasoning: thoughts || undefined
+  };
+}
+
+function toolCallAsText(c: any): string {
+  return `[Tool call: ${c.name} ${JSON.stringify(c.args)}]`;
+}
+
+function toolResultAsText(c: any): string {
+  return `Tool Output (${c.name}):\n${c.output}`;
+}
+
 function prepareMessages(
   history: Message[], 
   prompt: string, 
   systemPrompt: string, 
-  model: string
+  model: string,
+  nativeTools: boolean = false,
+  viewerId?: string
 ): { role: string, content: any[] }[] {
   // 1. Get context limit
   const modelInfo = getModelInfo(model);
@@ -81,13 +183,20 @@ function prepareMessages(
   if (remainingTokens < 0) remainingTokens = 0; // Should not happen ideally
 
   const textHistory: { role: string, content: any[] }[] = [];
+
+  // Сводка сжатой истории закреплена: всегда идет первой и не вытесняется новыми сообщениями
+  const pinned = history[0]?.role === 'summary' ? history[0] : undefined;
+  if (pinned) remainingTokens = Math.max(0, remainingTokens - estimateTokens(pinned.text));
   
   // Iterate from end to start
-  for (let i = history.length - 1; i >= 0; i--) {
+  for (let i = history.length - 1; i >= (pinned ? 1 : 0); i--) {
     const msg = history[i];
+
+    // Мнения Совета: модель видит только свои (как собственные ответы), ошибки не отправляем
+    if (msg.role === 'council' && (msg.providerId !== viewerId || msg.error)) continue;
     
     // Map internal roles to standard API roles
-    const apiRole = msg.role === 'chair' ? 'assistant' : (msg.role === 'assistant' ? 'assistant' : 'user');
+    const apiRole = msg.role === 'chair' || msg.role === 'assistant' || msg.role === 'council' ? 'assistant' : 'user';
     const tokens = estimateTokens(msg.text); // Rough estimate for text only
     
     // Images add tokens too, roughly 1000 per image for safety
@@ -110,7 +219,16 @@ function prepareMessages(
       // Actually, refactoring prepareMessages return type is best.
       
       // Let's construct a content array for this message
-      const contentParts: any[] = [{ type: 'text', text: msg.text }];
+      let contentParts: any[] = [{ type: 'text', text: msg.text }];
+      if (msg.toolCalls && msg.toolCalls.length > 0) {
+          msg.toolCalls.forEach(c => {
+              contentParts.push({ type: 'tool_call', id: c.id, name: c.name, args: c.args });
+          });
+      }
+      if (msg.toolResults && msg.toolResults.length > 0) {
+          // Текст tool-сообщения дублирует результаты, поэтому отправляем только структурированные части
+          contentParts = msg.toolResults.map(r => ({ type: 'tool_result', id: r.id, name: r.name, output: r.output }));
+      }
       if (msg.images) {
           msg.images.forEach(img => {
               contentParts.push({ type: 'image', data: img });
@@ -123,6 +241,7 @@ function prepareMessages(
       break; // No more space
     }
   }
+  if (pinned) textHistory.unshift({ role: 'user', content: [{ type: 'text', text: pinned.text }] });
 
   // 4. Assemble final array: System -> History -> Current Prompt
   // Current prompt might also have images (not supported in current call signature, but usually Chair tools output images as history)
@@ -133,7 +252,25 @@ function prepareMessages(
       { role: 'user', content: [{ type: 'text', text: prompt }] }
   ];
 
-  // 5. Sanitize: Merge consecutive messages with the same role
+  // 5. Tool calls/results are only sent as structured parts when tools are enabled for this request
+  // and both halves of the pair survived truncation; otherwise they degrade to plain text.
+  const callIds = new Set<string>();
+  const resultIds = new Set<string>();
+  for (const msg of rawMessages) {
+      for (const c of msg.content) {
+          if (c.type === 'tool_call') callIds.add(c.id);
+          if (c.type === 'tool_result' && callIds.has(c.id)) resultIds.add(c.id);
+      }
+  }
+  for (const msg of rawMessages) {
+      msg.content = msg.content.map((c: any) => {
+          if (c.type === 'tool_call' && !(nativeTools && resultIds.has(c.id))) return { type: 'text', text: toolCallAsText(c) };
+          if (c.type === 'tool_result' && !(nativeTools && resultIds.has(c.id))) return { type: 'text', text: toolResultAsText(c) };
+          return c;
+      });
+  }
+
+  // 6. Sanitize: Merge consecutive messages with the same role
   const sanitizedMessages: { role: string, content: any[] }[] = [];
   
   for (const msg of rawMessages) {
@@ -163,7 +300,7 @@ export async function sendToProvider(
   prompt: string,
   history: Message[],
   systemPrompt: string = DEFAULT_SYSTEM_PROMPT,
-  options: { temperature?: number } = {},
+  options: SendOptions = {},
   signal?: AbortSignal
 ): Promise<ProviderResponse> {
   const model = agent.model;
@@ -172,17 +309,31 @@ export async function sendToProvider(
   // Safety: trim key to avoid header errors
   const safeApiKey = apiKey ? apiKey.trim() : '';
 
-  if (!safeApiKey) {
+  // Локальные OpenAI-совместимые серверы (Ollama, LM Studio) работают без ключа
+  if (type === 'custom') {
+    if (!options.endpoint) {
+      return { providerId: agent.id, model, text: '', error: 'Эндпоинт не найден (/login)' };
+    }
+  } else if (!safeApiKey) {
     return { providerId: agent.id, model, text: '', error: 'Нет API ключа' };
   }
 
   // Prepare messages with potential images
   // We need to cast the return type of prepareMessages as we changed implementation above
-  const messages = prepareMessages(history, prompt, systemPrompt, model) as any[];
+  if (options.redact) ({ prompt, systemPrompt, history } = redactRequest(options.redact, prompt, systemPrompt, history));
+  const nativeTools = !!options.tools && options.tools.length > 0;
+  const messages = prepareMessages(history, prompt, systemPrompt, model, nativeTools, agent.id) as any[];
 
   let attempts = 0;
   const maxAttempts = 2; // Try once, then retry once
 
+  // Если часть ответа уже ушла в UI потоком, повтор запроса задублировал бы вывод
+  let streamed = false;
+  if (options.onToken) {
+    const onToken = options.onToken;
+    options = { ...options, onToken: delta => { streamed = true; onToken(delta); } };
+  }
+
   while (attempts < maxAttempts) {
     attempts++;
     try {
@@ -205,7 +356,7 @@ export async function sendToProvider(
           error.message?.toLowerCase().includes('timeout') ||
           (error.response && error.response.status >= 500);
 
-      if (isRetryable && attempts < maxAttempts) {
+      if (isRetryable && !streamed && attempts < maxAttempts) {
           // Log retry (optional, maybe debug only, or console.log/error)
           // console.error(`[Provider] Retry ${attempts}/${maxAttempts} for ${model} due to: ${error.message}`);
           await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2s
@@ -236,6 +387,70 @@ export async function sendToProvider(
   return { providerId: agent.id, model, text: '', error: 'Max retries exceeded' };
 }
 
+// --- Streaming (SSE) ---
+
+// POST с ответом-потоком. Тело ошибки тоже приходит потоком, поэтому вычитываем его,
+// чтобы sendToProvider смог показать нормальное сообщение об ошибке.
+async function postStream(url: string, body: any, config: any): Promise<NodeJS.ReadableStream> {
+  try {
+    const res = await axios.post(url, body, { ...config, responseType: 'stream' });
+    return res.data;
+  } catch (err: any) {
+    const data = err?.response?.data;
+    if (data && typeof data.on === 'function') {
+      let raw = '';
+      try {
+        for await (const chunk of data) raw += chunk.toString();
+      } catch {
+        // ignore
+      }
+      try {
+        err.response.data = JSON.parse(raw);
+      } catch {
+        err.response.data = raw;
+      }
+    }
+    throw err;
+  }
+}
+
+// Разбор Server-Sent Events: вызывает onData для каждой строки "data: ..."
+async function readSSE(stream: NodeJS.ReadableStream, onData: (data: string) => void): Promise<void> {
+  const decoder = new StringDecoder('utf8'); // Не рвем многобайтовые символы на границе чанков
+  let buffer = '';
+
+  const flushLine = (line: string) => {
+    if (!line.startsWith('data:')) return;
+    const data = line.slice(5).trim();
+    if (data && data !== '[DONE]') onData(data);
+  };
+
+  for await (const chunk of stream as any) {
+    buffer += decoder.write(chunk);
+    let idx;
+    while ((idx = buffer.indexOf('\n')) !== -1) {
+      flushLine(buffer.slice(0, idx).replace(/\r$/, ''));
+      buffer = buffer.slice(idx + 1);
+    }
+  }
+  buffer += decoder.end();
+  if (buffer) flushLine(buffer.trim());
+}
+
+function parseStreamJson(data: string): any {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+// Ошибка внутри потока (например, OpenRouter/Anthropic присылают её событием)
+function streamError(error: any): Error {
+  const msg = typeof error === 'string' ? error : (error?.message || JSON.stringify(error));
+  return new Error(msg);
+}
+
 // --- Provider Implementations ---
 
 // Helper to determine timeout based on model
@@ -255,10 +470,12 @@ async function sendOpenAICompatible(
   model: string,
   systemPrompt: string,
   agentId: string,
-  options: { temperature?: number } = {},
+  options: SendOptions = {},
   signal?: AbortSignal
 ): Promise<ProviderResponse> {
-  const baseUrl = API_URLS[type] || API_URLS.openai;
+  const chatUrl = type === 'custom' && options.endpoint
+      ? endpointUrl(options.endpoint.baseUrl, '/chat/completions')
+      : `${API_URLS[type] || API_URLS.openai}/chat/completions`;
 
   // Transform our internal content structure to OpenAI format
   // Internal: [{ type: 'text', text: '...' }, { type: 'image', data: 'base64...' }]
@@ -266,7 +483,7 @@ async function sendOpenAICompatible(
   
   const isOpenRouterClaude = type === 'openrouter' && model.toLowerCase().includes('claude');
 
-  const formattedMessages = messages.map(m => {
+  const formattedMessages = messages.flatMap(m => {
       // System message is usually just text for OpenAI, but GPT-4o supports array?
       // Best to keep system as string if possible, but let's see.
       // Usually system is just text.
@@ -290,6 +507,34 @@ async function sendOpenAICompatible(
           return { role: 'system', content: text };
       }
 
+      // Native tools: assistant carries tool_calls, results go as separate role "tool" messages
+      const toolCalls = m.content.filter((c: any) => c.type === 'tool_call');
+      if (toolCalls.length > 0) {
+          const text = m.content.filter((c: any) => c.type === 'text').map((c: any) => c.text).join('\n');
+          return {
+              role: 'assistant',
+              content: text || null,
+              tool_calls: toolCalls.map((c: any) => ({
+                  id: c.id,
+                  type: 'function',
+                  function: { name: c.name, arguments: JSON.stringify(c.args || {}) }
+              }))
+          };
+      }
+
+      const toolResults = m.content.filter((c: any) => c.type === 'tool_result');
+      if (toolResults.length > 0) {
+          const rest = m.content.filter((c: any) => c.type !== 'tool_result');
+          const resultMessages: any[] = toolResults.map((c: any) => ({ role: 'tool', tool_call_id: c.id, content: c.output }));
+          if (rest.length === 0) return resultMessages;
+          m = { ...m, content: rest };
+          return [...resultMessages, formatContent(m)];
+      }
+
+      return formatContent(m);
+  });
+
+  function formatContent(m: any): any {
       // Check if message has images
       const hasImages = m.content.some((c: any) => c.type === 'image');
 
@@ -312,12 +557,11 @@ async function sendOpenAICompatible(
               .join('\n');
           return { role: m.role, content: textContent };
       }
-  });
+  }
 
-  const headers: Record<string, string> = {
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json'
-  };
+  const headers: Record<string, string> = type === 'custom' && options.endpoint
+      ? { 'Content-Type': 'application/json', ...endpointHeaders(options.endpoint, apiKey) }
+      : { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' };
 
   if (type === 'openrouter') {
       headers['HTTP-Referer'] = 'https://github.com/StanislavHerman/House-of-Collective-Intelligence'; // Optional but recommended
@@ -332,6 +576,13 @@ async function sendOpenAICompatible(
               temperature: options.temperature ?? 0.7,
           };
 
+          if (options.tools && options.tools.length > 0) {
+              payload.tools = options.tools.map(tool => ({
+                  type: 'function',
+                  function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+              }));
+          }
+
           // Handle max_tokens vs max_completion_tokens
           if (model.includes('o1-') || model.includes('o3-')) {
                payload.max_completion_tokens = 32768; // o1 supports large outputs
@@ -339,8 +590,66 @@ async function sendOpenAICompatible(
                payload.max_tokens = 4096; // Safe default matching our reserve
           }
 
+          if (options.onToken) {
+              payload.stream = true;
+              payload.stream_options = { include_usage: true }; // usage приходит последним чанком
+              const stream = await postStream(chatUrl, payload, {
+                  headers,
+                  timeout: getTimeoutForModel(model),
+                  signal
+              });
+
+              let text = '';
+              let reasoning = '';
+              // Вызовы инструментов приходят кусками: id/имя в первом чанке, аргументы дописываются по index
+              const calls: { id: string, name: string, args: string }[] = [];
+              let usage: TokenUsage | undefined;
+              await readSSE(stream, data => {
+                  const json = parseStreamJson(data);
+                  if (!json) return;
+                  if (json.error) throw streamError(json.error);
+                  if (json.usage) usage = openAIUsage(json.usage);
+
+                  const delta = json.choices?.[0]?.delta;
+                  if (!delta) return;
+
+                  for (const tc of delta.tool_calls || []) {
+                      const idx = tc.index ?? calls.length;
+                      const call = calls[idx] ||= { id: '', name: '', args: '' };
+                      if (tc.id) call.id = tc.id;
+                      if (tc.function?.name) call.name += tc.function.name;
+                      if (tc.function?.arguments) call.args += tc.function.arguments;
+                  }
+
+                  // Reasoning (DeepSeek R1 / OpenRouter)
+                  const r = delta.reasoning_content || delta.reasoning;
+                  if (r) {
+                      reasoning += r;
+                      options.onToken!({ reasoning: r });
+                  }
+                  if (delta.content) {
+                      text += delta.content;
+                      options.onToken!({ text: delta.content });
+                  }
+              });
+
+              const toolCalls = calls.filter(Boolean).map((c, i) => ({
+                  id: c.id || `call_${i}`,
+                  name: c.name,
+                  args: parseToolArgs(c.args)
+              }));
+              return {
+                  providerId: agentId,
+                  model,
+                  text,
+                  reasoning: reasoning || undefined,
+                  toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                  usage
+              };
+          }
+
           const res = await axios.post(
-            `${baseUrl}/chat/completions`,
+            chatUrl,
             payload,
             {
               headers,
@@ -353,8 +662,21 @@ async function sendOpenAICompatible(
           
           // Capture reasoning if available (DeepSeek R1 / OpenRouter)
           const reasoning = msgObj?.reasoning_content || msgObj?.reasoning;
+
+          const toolCalls: ToolCall[] | undefined = msgObj?.tool_calls?.map((c: any, i: number) => ({
+              id: c.id || `call_${i}`,
+              name: c.function?.name || '',
+              args: parseToolArgs(c.function?.arguments)
+          }));
           
-          return { providerId: agentId, model, text, reasoning };
+          return {
+              providerId: agentId,
+              model,
+              text,
+              reasoning,
+              toolCalls: toolCalls?.length ? toolCalls : undefined,
+              usage: openAIUsage(res.data?.usage)
+          };
       } catch (err: any) {
           // Debug logging for OpenRouter/API errors
           if (err.response?.data) {
@@ -377,7 +699,7 @@ async function sendAnthropic(
   model: string,
   systemPrompt: string,
   agentId: string,
-  options: { temperature?: number } = {},
+  options: SendOptions = {},
   signal?: AbortSignal
 ): Promise<ProviderResponse> {
   // Anthropic format:
@@ -385,7 +707,9 @@ async function sendAnthropic(
   
   const chatMessages = messages.filter(m => m.role !== 'system').map(m => {
       const content = m.content.map((c: any) => {
-          if (c.type === 'text') return { type: 'text', text: c.text };
+          if (c.type === 'text') return c.text ? { type: 'text', text: c.text } : null; // Пустые text-блоки API отклоняет
+          if (c.type === 'tool_call') return { type: 'tool_use', id: c.id, name: c.name, input: c.args || {} };
+          if (c.type === 'tool_result') return { type: 'tool_result', tool_use_id: c.id, content: c.output };
           if (c.type === 'image') return { 
               type: 'image', 
               source: { 
@@ -410,28 +734,95 @@ async function sendAnthropic(
       }
   ];
 
-  const res = await axios.post(
-    `${API_URLS.anthropic}/messages`,
-    {
-      model,
-      max_tokens: 8192,
-      system: systemWithCache,
-      messages: chatMessages,
-      temperature: options.temperature ?? 0.7,
+  const payload: any = {
+    model,
+    max_tokens: 8192,
+    system: systemWithCache,
+    messages: chatMessages,
+    temperature: options.temperature ?? 0.7,
+  };
+  if (options.tools && options.tools.length > 0) {
+    payload.tools = options.tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters
+    }));
+  }
+  const requestConfig = {
+    headers: {
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01',
+      'anthropic-beta': 'prompt-caching-2024-07-31',
+      'Content-Type': 'application/json'
     },
-    {
-      headers: {
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-        'anthropic-beta': 'prompt-caching-2024-07-31',
-        'Content-Type': 'application/json'
-      },
-      timeout: getTimeoutForModel(model),
-      signal
-    }
-  );
-  const text = res.data?.content?.[0]?.text || '';
-  return { providerId: agentId, model, text };
+    timeout: getTimeoutForModel(model),
+    signal
+  };
+
+  if (options.onToken) {
+    payload.stream = true;
+    const stream = await postStream(`${API_URLS.anthropic}/messages`, payload, requestConfig);
+
+    let text = '';
+    let reasoning = '';
+    const toolBlocks: Record<number, { id: string, name: string, json: string }> = {};
+    let rawUsage: any = {};
+    await readSSE(stream, data => {
+      const json = parseStreamJson(data);
+      if (!json) return;
+      if (json.type === 'error') throw streamError(json.error);
+      // Входные токены приходят в message_start, итоговые выходные — в message_delta
+      if (json.type === 'message_start' && json.message?.usage) rawUsage = { ...rawUsage, ...json.message.usage };
+      if (json.type === 'message_delta' && json.usage) rawUsage = { ...rawUsage, ...json.usage };
+      if (json.type === 'content_block_start' && json.content_block?.type === 'tool_use') {
+        toolBlocks[json.index] = { id: json.content_block.id, name: json.content_block.name, json: '' };
+        return;
+      }
+      // Без потока текстовые блоки склеиваются через перевод строки — здесь так же
+      if (json.type === 'content_block_start' && json.content_block?.type === 'text' && text) {
+        text += '\n';
+        options.onToken!({ text: '\n' });
+      }
+      if (json.type !== 'content_block_delta') return;
+
+      if (json.delta?.type === 'input_json_delta' && toolBlocks[json.index]) {
+        toolBlocks[json.index].json += json.delta.partial_json || '';
+      } else if (json.delta?.type === 'text_delta' && json.delta.text) {
+        text += json.delta.text;
+        options.onToken!({ text: json.delta.text });
+      } else if (json.delta?.type === 'thinking_delta' && json.delta.thinking) {
+        reasoning += json.delta.thinking;
+        options.onToken!({ reasoning: json.delta.thinking });
+      }
+    });
+
+    const toolCalls = Object.values(toolBlocks).map(b => ({ id: b.id, name: b.name, args: parseToolArgs(b.json) }));
+    return {
+      providerId: agentId,
+      model,
+      text,
+      reasoning: reasoning || undefined,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: anthropicUsage(rawUsage)
+    };
+  }
+
+  const res = await axios.post(`${API_URLS.anthropic}/messages`, payload, requestConfig);
+  const blocks: any[] = res.data?.content || [];
+  // С инструментами текст может идти не первым блоком
+  const text = blocks.filter(b => b.type === 'text').map(b => b.text).join('\n');
+  const reasoning = blocks.filter(b => b.type === 'thinking').map(b => b.thinking).join('');
+  const toolCalls: ToolCall[] = blocks
+    .filter(b => b.type === 'tool_use')
+    .map(b => ({ id: b.id, name: b.name, args: b.input || {} }));
+  return {
+    providerId: agentId,
+    model,
+    text,
+    reasoning: reasoning || undefined,
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    usage: anthropicUsage(res.data?.usage)
+  };
 }
 
 async function sendGemini(
@@ -440,7 +831,7 @@ async function sendGemini(
   model: string,
   systemPrompt: string,
   agentId: string,
-  options: { temperature?: number } = {},
+  options: SendOptions = {},
   signal?: AbortSignal
 ): Promise<ProviderResponse> {
   // Gemini format: parts: [{ text: "..." }, { inlineData: { mimeType: "...", data: "..." } }]
@@ -451,6 +842,8 @@ async function sendGemini(
           role: m.role === 'assistant' ? 'model' : 'user',
           parts: m.content.map((c: any) => {
               if (c.type === 'text') return { text: c.text };
+              if (c.type === 'tool_call') return { functionCall: { name: c.name, args: c.args || {} } };
+              if (c.type === 'tool_result') return { functionResponse: { name: c.name, response: { output: c.output } } };
               if (c.type === 'image') return { inlineData: { mimeType: getMimeType(c.data), data: c.data } };
               return null;
           }).filter(Boolean)
@@ -464,13 +857,81 @@ async function sendGemini(
       }
   };
 
+  if (options.tools && options.tools.length > 0) {
+      requestBody.tools = [{
+          functionDeclarations: options.tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              // Gemini не принимает пустой объект properties
+              ...(Object.keys(tool.parameters.properties).length > 0 ? { parameters: tool.parameters } : {})
+          }))
+      }];
+  }
+
+  // Gemini не присваивает вызовам id, а они нужны для связи с результатами в истории
+  const toolCalls: ToolCall[] = [];
+  const addToolCall = (fc: any) => {
+      toolCalls.push({ id: `call_${Date.now()}_${toolCalls.length}`, name: fc.name, args: fc.args || {} });
+  };
+
+  if (options.onToken) {
+    const stream = await postStream(
+      `${API_URLS.gemini}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`,
+      requestBody,
+      { timeout: getTimeoutForModel(model), signal }
+    );
+
+    let text = '';
+    let reasoning = '';
+    let usage: TokenUsage | undefined;
+    await readSSE(stream, data => {
+      const json = parseStreamJson(data);
+      if (!json) return;
+      if (json.error) throw streamError(json.error);
+      if (json.usageMetadata) usage = geminiUsage(json.usageMetadata); // Каждый чанк несет накопленные значения
+
+      const parts = json.candidates?.[0]?.content?.parts || [];
+      for (const part of parts) {
+        if (part.functionCall) addToolCall(part.functionCall);
+        if (!part.text) continue;
+        if (part.thought) {
+          reasoning += part.text;
+          options.onToken!({ reasoning: part.text });
+        } else {
+          text += part.text;
+          options.onToken!({ text: part.text });
+        }
+      }
+    });
+
+    return {
+      providerId: agentId,
+      model,
+      text,
+      reasoning: reasoning || undefined,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage
+    };
+  }
+
   const res = await axios.post(
     `${API_URLS.gemini}/models/${model}:generateContent?key=${apiKey}`,
     requestBody,
     { timeout: getTimeoutForModel(model), signal }
   );
-  const text = res.data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
-  return { providerId: agentId, model, text };
+  const parts: any[] = res.data?.candidates?.[0]?.content?.parts || [];
+  parts.filter(p => p.functionCall).forEach(p => addToolCall(p.functionCall));
+  // Мысли (thought: true) идут отдельными частями, как и в потоке
+  const text = parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+  const reasoning = parts.filter(p => p.text && p.thought).map(p => p.text).join('');
+  return {
+    providerId: agentId,
+    model,
+    text,
+    reasoning: reasoning || undefined,
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    usage: geminiUsage(res.data?.usageMetadata)
+  };
 }
 
 // --- Utils ---
@@ -510,9 +971,20 @@ export async function getBalance(type: string, apiKey: string): Promise<string |
   }
 }
 
-export async function testApiKey(type: string, apiKey: string): Promise<{ valid: boolean, error?: string }> {
+export async function testApiKey(type: string, apiKey: string, endpoint?: CustomProvider): Promise<{ valid: boolean, error?: string }> {
   try {
     const safeKey = apiKey.trim();
+
+    // Для custom ключ необязателен: проверяем, что эндпоинт отвечает на /models
+    if (type === 'custom') {
+      if (!endpoint) return { valid: false, error: 'No endpoint' };
+      await axios.get(endpointUrl(endpoint.baseUrl, '/models'), {
+        headers: endpointHeaders(endpoint, safeKey),
+        timeout: 10000
+      });
+      return { valid: true };
+    }
+
     if (!safeKey) return { valid: false, error: 'Empty key' };
 
     if (type === 'gemini') {
@@ -572,10 +1044,21 @@ export async function testApiKey(type: string, apiKey: string): Promise<{ valid:
   }
 }
 
-export async function fetchModels(type: string, apiKey: string): Promise<string[]> {
+export async function fetchModels(type: string, apiKey: string, endpoint?: CustomProvider): Promise<string[]> {
   const safeKey = apiKey ? apiKey.trim() : '';
-  if (!safeKey) return [];
+  if (!safeKey && type !== 'custom') return [];
   try {
+    if (type === 'custom') {
+      if (!endpoint) return [];
+      const res = await axios.get(endpointUrl(endpoint.baseUrl, '/models'), {
+        headers: endpointHeaders(endpoint, safeKey),
+        timeout: 10000
+      });
+      // OpenAI формат { data: [{ id }] }; Ollama /api/tags-подобные ответы { models: [{ name }] }
+      const list = res.data?.data || res.data?.models || [];
+      return list.map((m: any) => m.id || m.name).filter(Boolean).sort();
+    }
+
     if (type === 'anthropic') {
       return [
         'claude-opus-4.5',
@@ -0,0 +1,462 @@
+// Локальный HTTP/JSON API: hause serve [--port 8765] [--host 127.0.0.1] [--token ...]
+// Запросы к Совету (JSON или SSE-поток CouncilEvent), агенты, команды, статистика, сессии истории
+import http from 'node:http';
+import crypto from 'node:crypto';
+import util from 'node:util';
+import { chalkStderr as chalk } from 'chalk';
+import { ConfigManager } from './config.js';
+import { HistoryManager } from './history.js';
+import { Council } from './council.js';
+import { summarize } from './usage.js';
+import { askResultJson } from './oneshot.js';
+import { DEFAULT_MODEL_ID, fromOpenAIMessages, modelList, completionJson, completionChunk } from './openai_compat.js';
+import { t, setLanguage } from './i18n.js';
+import { AgentConfig, ProviderResponse } from './types.js';
+
+export const DEFAULT_PORT = 8765;
+export const DEFAULT_HOST = '127.0.0.1';
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+export interface ServerSession {
+  id: string;
+  history: HistoryManager;
+  council: Council;
+  created: number;
+  busy: boolean;
+}
+
+export interface ServerContext {
+  config: ConfigManager;
+  sessions: Map<string, ServerSession>;
+  token: string;
+}
+
+export interface RouteRequest {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  params: string[];
+  body: any;
+  ctx: ServerContext;
+}
+
+export interface Route {
+  method: string;
+  path: RegExp;
+  handler: (r: RouteRequest) => Promise<void> | void;
+}
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export function sendJson(res: http.ServerResponse, status: number, data: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(data));
+}
+
+export function startSse(res: http.ServerResponse) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+}
+
+export function sendSse(res: http.ServerResponse, event: string | null, data: unknown) {
+  if (res.writableEnded) return;
+  res.write(`${event ? `event: ${event}\n` : ''}data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+}
+
+async function readBody(req: http.IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8').trim();
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+export function createSession(ctx: ServerContext, id: string = crypto.randomUUID(), history?: HistoryManager): ServerSession {
+  // Новые сессии живут в памяти сервера; default — общая с интерактивным режимом история
+  const sessionHistory = history || new HistoryManager({ persist: false });
+  const session: ServerSession = { id, history: sessionHistory, council: new Council(ctx.config, sessionHistory), created: Date.now(), busy: false };
+  ctx.sessions.set(id, session);
+  return session;
+}
+
+export function getSession(ctx: ServerContext, id?: string): ServerSession {
+  const session = ctx.sessions.get(id || 'default');
+  if (!session) throw new HttpError(404, `Session not found: ${id}`);
+  return session;
+}
+
+function agentJson(ctx: ServerContext, agent: AgentConfig) {
+  const role = agent.id === ctx.config.getChairId() ? 'chair'
+    : agent.id === ctx.config.getSecretaryId() ? 'secretary'
+    : agent.enabled ? 'council' : 'disabled';
+  return { id: agent.id, name: agent.name, provider: agent.providerType, model: agent.model, enabled: agent.enabled, role, persona: agent.persona || null };
+}
+
+function sessionJson(session: ServerSession) {
+  const messages = session.history.getMessages();
+  return { id: session.id, created: session.created, messages: messages.length, busy: session.busy };
+}
+
+// Запрос к Совету. stream: true (или Accept: text/event-stream) — SSE: event/council_response/token/result
+async function handleAsk({ req, res, body, ctx }: RouteRequest) {
+  const question = typeof body.question === 'string' ? body.question.trim() : '';
+  if (!question) throw new HttpError(400, 'Field "question" is required');
+  const session = getSession(ctx, body.session);
+  if (session.busy) throw new HttpError(409, 'Session is busy with another request');
+
+  const stream = body.stream === true || (req.headers.accept || '').includes('text/event-stream');
+  const controller = new AbortController();
+  // Клиент отключился — останавливаем Совет
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  if (stream) startSse(res);
+
+  session.busy = true;
+  let chairResponse: ProviderResponse | null = null;
+  let councilResponses: ProviderResponse[] = [];
+  let askId: string | undefined;
+  let failure: string | undefined;
+  try {
+    const result = await session.council.ask(question,
+      event => stream && sendSse(res, 'event', event),
+      controller.signal,
+      response => stream && sendSse(res, 'council_response', {
+        id: response.providerId,
+        name: ctx.config.getAgent(response.providerId)?.name || response.providerId,
+        model: response.model,
+        text: response.text,
+        error: response.error || null
+      }),
+      stream && body.tokens !== false ? token => sendSse(res, 'token', token) : undefined
+    );
+    chairResponse = result.chairResponse;
+    councilResponses = result.councilResponses;
+    askId = result.askId;
+    if (!chairResponse) failure = 'No response from chair';
+    else if (chairResponse.error) failure = chairResponse.error;
+  } catch (err: any) {
+    failure = controller.signal.aborted ? 'Aborted' : err.message;
+  } finally {
+    session.busy = false;
+  }
+
+  if (controller.signal.aborted) return;
+
+  const usage = summarize(askId ? session.council.getUsage().getAskRecords(askId) : []).total;
+  const payload = { session: session.id, ...askResultJson(ctx.config, chairResponse, councilResponses, failure), usage };
+  if (stream) {
+    sendSse(res, 'result', payload);
+    res.end();
+  } else {
+    sendJson(res, failure ? 502 : 200, payload);
+  }
+}
+
+// OpenAI-совместимый запрос: model — имя команды (или "hause" — текущий состав).
+// Каждый запрос без состояния: своя история из messages и свой конфиг в памяти, общий состав не меняется.
+// stream: в content идет только финальный ход Председателя (тот же текст, что и без stream) — чанками,
+// как он пришел от провайдера. Ходы с вызовом инструментов и прогресс Совета — SSE-комментариями.
+async function handleChatCompletions({ res, body, ctx }: RouteRequest) {
+  const model = typeof body.model === 'string' && body.model ? body.model : DEFAULT_MODEL_ID;
+  const config = new ConfigManager({ persist: false });
+  if (model !== DEFAULT_MODEL_ID) {
+    const team = config.findTeam(model);
+    if (!team) throw new HttpError(404, `Model not found: ${model}`);
+    config.switchTeam(team.id);
+  }
+
+  let conversation;
+  try {
+    conversation = fromOpenAIMessages(body.messages);
+  } catch (err: any) {
+    throw new HttpError(400, err.message);
+  }
+  if (!conversation.question) throw new HttpError(400, 'The last user message is empty');
+
+  const history = new HistoryManager({ persist: false });
+  conversation.history.forEach(m => history.add(m));
+  const council = new Council(config, history);
+
+  const stream = body.stream === true;
+  const created = Math.floor(Date.now() / 1000);
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const id = `chatcmpl-${crypto.randomUUID()}`;
+  if (stream) {
+    startSse(res);
+    sendSse(res, null, completionChunk(id, model, created, { role: 'assistant', content: '' }));
+  }
+
+  // Токены текущего хода Председателя: финальный ли он, видно только когда ход закончится
+  let turnTokens: string[] = [];
+  const sendComment = (text: string) => {
+    if (stream && !res.writableEnded && text.trim()) res.write(`: ${text.trim().replace(/\s+/g, ' ')}\n\n`);
+  };
+  const sendContent = (content: string) => {
+    if (content && !res.writableEnded) sendSse(res, null, completionChunk(id, model, created, { content }));
+  };
+
+  let chairResponse: ProviderResponse | null = null;
+  let askId: string | undefined;
+  let failure: string | undefined;
+  try {
+    const result = await council.ask(conversation.question, event => {
+      // Ход закончился вызовом инструментов — он промежуточный
+      if (event.type === 'tool_start' && turnTokens.length > 0) {
+        sendComment(turnTokens.join(''));
+        turnTokens = [];
+      }
+      if (event.message) sendComment(event.message);
+    }, controller.signal, undefined, stream ? token => {
+      // Мнения Совета и рассуждения в content не идут
+      if (token.role === 'chair' && token.text) turnTokens.push(token.text);
+    } : undefined);
+    chairResponse = result.chairResponse;
+    askId = result.askId;
+    if (!chairResponse) failure = 'No response from chair';
+    else if (chairResponse.error) failure = chairResponse.error;
+  } catch (err: any) {
+    failure = err.message;
+  } finally {
+    await council.cleanup();
+  }
+
+  if (controller.signal.aborted) return;
+  if (failure || !chairResponse) throw new HttpError(502, failure || 'No response from chair');
+
+  const usage = summarize(askId ? council.getUsage().getAskRecords(askId) : []).total;
+  if (!stream) {
+    sendJson(res, 200, completionJson(id, model, created, chairResponse.text, usage));
+    return;
+  }
+  // Пометка о лимите или бюджете дописывается после потока. Если накопленное не совпало с ответом
+  // (ход без потока, инструменты не запускались) — отправляем ответ целиком
+  const streamed = turnTokens.join('');
+  if (!chairResponse.text.startsWith(streamed)) turnTokens = [];
+  turnTokens.forEach(sendContent);
+  sendContent(chairResponse.text.substring(turnTokens.join('').length));
+  sendSse(res, null, completionChunk(id, model, created, {}, 'stop', body.stream_options?.include_usage ? usage : undefined));
+  sendSse(res, null, '[DONE]');
+  res.end();
+}
+
+export const ROUTES: Route[] = [
+  { method: 'POST', path: /^\/ask$/, handler: handleAsk },
+
+  { method: 'POST', path: /^\/v1\/chat\/completions$/, handler: handleChatCompletions },
+
+  { method: 'GET', path: /^\/v1\/models$/, handler: ({ res, ctx }) => {
+    sendJson(res, 200, modelList(ctx.config.getTeams(), Math.floor(Date.now() / 1000)));
+  } },
+
+  { method: 'GET', path: /^\/agents$/, handler: ({ res, ctx }) => {
+    sendJson(res, 200, { agents: ctx.config.getAgents().map(a => agentJson(ctx, a)) });
+  } },
+
+  // { enabled?: boolean, role?: 'chair' | 'secretary' | 'council' }
+  { method: 'PATCH', path: /^\/agents\/([^/]+)$/, handler: ({ res, params, body, ctx }) => {
+    const agent = ctx.config.getAgent(params[0]);
+    if (!agent) throw new HttpError(404, `Agent not found: ${params[0]}`);
+    if (body.role !== undefined && !['chair', 'secretary', 'council'].includes(body.role)) {
+      throw new HttpError(400, 'Field "role" must be chair, secretary or council');
+    }
+    if (typeof body.enabled === 'boolean') ctx.config.updateAgent(agent.id, { enabled: body.enabled });
+    if (body.role === 'chair') {
+      ctx.config.updateAgent(agent.id, { enabled: true });
+      ctx.config.setChairId(agent.id);
+    } else if (body.role === 'secretary') {
+      ctx.config.setSecretaryId(agent.id);
+    } else if (body.role === 'council') {
+      ctx.config.updateAgent(agent.id, { enabled: true });
+      if (ctx.config.getChairId() === agent.id) ctx.config.setChairId(undefined);
+      if (ctx.config.getSecretaryId() === agent.id) ctx.config.setSecretaryId(undefined);
+    }
+    sendJson(res, 200, agentJson(ctx, agent));
+  } },
+
+  { method: 'GET', path: /^\/teams$/, handler: ({ res, ctx }) => {
+    const active = ctx.config.getActiveTeam()?.id;
+    sendJson(res, 200, { teams: ctx.config.getTeams().map(team => ({ ...team, active: team.id === active })) });
+  } },
+
+  // { team: id или имя }
+  { method: 'POST', path: /^\/teams\/switch$/, handler: ({ res, body, ctx }) => {
+    const team = typeof body.team === 'string' ? ctx.config.findTeam(body.team) : undefined;
+    if (!team) throw new HttpError(404, `Team not found: ${body.team}`);
+    ctx.config.switchTeam(team.id);
+    sendJson(res, 200, { team, agents: ctx.config.getAgents().map(a => agentJson(ctx, a)) });
+  } },
+
+  { method: 'GET', path: /^\/stats$/, handler: ({ res, ctx }) => {
+    const council = getSession(ctx).council;
+    const usage = [...ctx.sessions.values()].flatMap(s => s.council.getUsage().getSessionRecords());
+    sendJson(res, 200, {
+      efficiency: council.getGlobalEfficiency(),
+      agents: ctx.config.getAgents().map(a => ({ id: a.id, name: a.name, ...council.getStats(a.id) })),
+      usage: summarize(usage)
+    });
+  } },
+
+  { method: 'GET', path: /^\/sessions$/, handler: ({ res, ctx }) => {
+    sendJson(res, 200, { sessions: [...ctx.sessions.values()].map(sessionJson) });
+  } },
+
+  { method: 'POST', path: /^\/sessions$/, handler: ({ res, ctx }) => {
+    sendJson(res, 201, sessionJson(createSession(ctx)));
+  } },
+
+  { method: 'GET', path: /^\/sessions\/([^/]+)$/, handler: ({ res, params, ctx }) => {
+    const session = getSession(ctx, params[0]);
+    sendJson(res, 200, { ...sessionJson(session), history: session.history.getMessages() });
+  } },
+
+  // default начинает новую сессию (прошлая остается в /sessions), остальные удаляются
+  { method: 'DELETE', path: /^\/sessions\/([^/]+)$/, handler: async ({ res, params, ctx }) => {
+    const session = getSession(ctx, params[0]);
+    if (session.busy) throw new HttpError(409, 'Session is busy with another request');
+    if (session.id === 'default') {
+      session.history.newSession(ctx.config.getActiveTeam()?.name);
+    } else {
+      ctx.sessions.delete(session.id);
+      await session.council.cleanup();
+    }
+    res.writeHead(204).end();
+  } }
+];
+
+export function createApiServer(ctx: ServerContext, routes: Route[] = ROUTES): http.Server {
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    try {
+      if (req.method === 'GET' && url.pathname === '/health') {
+        sendJson(res, 200, { ok: true });
+        return;
+      }
+      if (!isAuthorized(req, ctx.token)) throw new HttpError(401, 'Missing or invalid bearer token');
+
+      let methodAllowed = false;
+      for (const route of routes) {
+        const match = url.pathname.match(route.path);
+        if (!match) continue;
+        if (route.method !== req.method) {
+          methodAllowed = true;
+          continue;
+        }
+        const body = req.method === 'GET' || req.method === 'DELETE' ? {} : await readBody(req);
+        await route.handler({ req, res, params: match.slice(1).map(decodeURIComponent), body, ctx });
+        return;
+      }
+      throw new HttpError(methodAllowed ? 405 : 404, methodAllowed ? 'Method not allowed' : 'Not found');
+    } catch (err: any) {
+      const status = err instanceof HttpError ? err.status : 500;
+      // Для /v1/* — формат ошибок OpenAI
+      const error = url.pathname.startsWith('/v1/')
+        ? { error: { message: err.message, type: status < 500 ? 'invalid_request_error' : 'server_error', code: status } }
+        : { error: err.message };
+      if (res.headersSent) {
+        sendSse(res, url.pathname.startsWith('/v1/') ? null : 'error', error);
+        res.end();
+      } else {
+        sendJson(res, status, error);
+      }
+    }
+  });
+}
+
+export async function runServe(argv: string[]): Promise<number> {
+  let values: { port?: string; host?: string; token?: string; help?: boolean };
+  try {
+    values = util.parseArgs({
+      args: argv,
+      options: {
+        port: { type: 'string', short: 'p' },
+        host: { type: 'string' },
+        token: { type: 'string' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    }).values;
+  } catch (err: any) {
+    console.error(chalk.red(`${t('error')}: ${err.message}`));
+    console.error(t('serve_usage'));
+    return 2;
+  }
+  if (values.help) {
+    console.error(t('serve_usage'));
+    return 0;
+  }
+
+  const port = values.port !== undefined ? parseInt(values.port, 10) : DEFAULT_PORT;
+  if (isNaN(port) || port < 0 || port > 65535) {
+    console.error(chalk.red(`${t('serve_bad_port')}: ${values.port}`));
+    return 2;
+  }
+  const host = values.host || DEFAULT_HOST;
+
+  // Токен: --token, HAUSE_API_TOKEN или случайный на время работы сервера
+  const token = values.token || process.env.HAUSE_API_TOKEN || crypto.randomBytes(24).toString('hex');
+
+  const config = new ConfigManager();
+  setLanguage(config.getLanguage());
+
+  const ctx: ServerContext = { config, sessions: new Map(), token };
+  const history = new HistoryManager();
+  history.load();
+  createSession(ctx, 'default', history);
+
+  const server = createApiServer(ctx);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+  } catch (err: any) {
+    console.error(chalk.red(`${t('error')}: ${err.message}`));
+    return 1;
+  }
+
+  const address = server.address();
+  const actualPort = typeof address === 'object' && address ? address.port : port;
+  console.error(chalk.green(`✓ ${t('serve_listening')}: http://${host}:${actualPort}`));
+  if (!values.token && !process.env.HAUSE_API_TOKEN) {
+    console.error(chalk.gray(`  ${t('serve_token')}: `) + chalk.yellow(token));
+  }
+  if (host !== DEFAULT_HOST && host !== 'localhost') {
+    console.error(chalk.yellow(`⚠️ ${t('serve_public_warning')}`));
+  }
+
+  // Работаем до Ctrl+C
+  await new Promise<void>(resolve => process.once('SIGINT', () => resolve()));
+  server.close();
+  for (const session of ctx.sessions.values()) await session.council.cleanup();
+  console.error(chalk.gray(t('bye')));
+  return 0;
+}
@@ -0,0 +1,61 @@
+// Признаки того, что Председатель зациклился: одни и те же вызовы инструментов ход за ходом
+// или одна и та же ошибка снова и снова (правка -> тот же упавший тест -> правка...).
+import { ParsedTool } from './types.js';
+
+// Сколько повторов считается зацикливанием
+export const STUCK_REPEATS = 3;
+
+export interface StuckReport {
+  reason: 'repeated_calls' | 'repeated_error';
+  detail: string; // Повторяющийся вызов или ошибка (первая строка)
+  count: number;
+}
+
+// Первая строка "Error: ..." из отчета инструмента; "Error: None" и пустая — не ошибка
+export function toolError(output: string): string | undefined {
+  return output.match(/^Error: (?!None\s*$)(\S.*)$/m)?.[1].trim();
+}
+
+// Числа (время, PID, номера строк в стектрейсе) не делают ошибку новой
+function normalize(text: string): string {
+  return text.replace(/\d+(?:\.\d+)?/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+function firstLine(text: string): string {
+  const line = text.split('\n')[0];
+  return line.length > 120 ? `${line.substring(0, 117)}...` : line;
+}
+
+export class StuckDetector {
+  private lastCalls = '';
+  private callRepeats = 0;
+  private errors = new Map<string, number>();
+
+  constructor(private repeats: number = STUCK_REPEATS) {}
+
+  // Один ход цикла: вызовы и их отчеты. Вызовы сравниваются с предыдущим ходом (подряд),
+  // ошибки — со всеми ходами: между одинаковыми падениями обычно есть правка файла.
+  // Ошибка сравнивается по всему отчету: "Command failed: npm test" с разными упавшими
+  // тестами — это прогресс, а не повтор.
+  check(tools: (ParsedTool | null)[], outputs: string[]): StuckReport | undefined {
+    const calls = JSON.stringify(tools.map(tool => tool ? [tool.type, tool.arg, tool.content.trim()] : null));
+    this.callRepeats = calls === this.lastCalls ? this.callRepeats + 1 : 1;
+    this.lastCalls = calls;
+    if (this.callRepeats >= this.repeats) {
+      const described = tools.filter((tool): tool is ParsedTool => !!tool).map(tool => `${tool.type}: ${tool.arg || tool.content}`);
+      return { reason: 'repeated_calls', detail: firstLine(described.join('; ')), count: this.callRepeats };
+    }
+
+    const seen = new Set<string>();
+    for (const output of outputs) {
+      const error = toolError(output);
+      const key = normalize(output);
+      if (!error || seen.has(key)) continue;
+      seen.add(key);
+      const count = (this.errors.get(key) || 0) + 1;
+      this.errors.set(key, count);
+      if (count >= this.repeats) return { reason: 'repeated_error', detail: firstLine(error), count };
+    }
+    return undefined;
+  }
+}
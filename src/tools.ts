@@ -6,6 +6,9 @@ import { BrowserManager } from './browser.js';
 import os from 'node:os';
 import axios from 'axios';
 import { createRequire } from 'node:module';
+import { ParsedTool, ToolCall, ToolSchema } from './types.js';
+import { CheckpointStore, unifiedDiff } from './checkpoints.js';
+import { PathCheck, checkPath, expandPath } from './workspace.js';
 const nodeRequire = createRequire(import.meta.url);
 const xcode = nodeRequire('xcode');
 
@@ -14,6 +17,7 @@ const execAsync = util.promisify(exec);
 export interface ToolResult {
   output: string;
   error?: string;
+  exitCode?: number; // runCommand: код завершения (нет — команда прервана)
 }
 
 export const TOOLS_DEF = `
@@ -118,10 +122,151 @@ export const TOOLS_DEF = `
      \`\`\`ios:config set <путь/к/project.pbxproj> <ключ> <значение> [target]\`\`\`
 `;
 
+// JSON Schema описания тех же 13 инструментов для native function calling
+export const TOOL_SCHEMAS: ToolSchema[] = [
+  {
+    name: 'run_command',
+    description: 'Выполнить команду оболочки (bash/zsh, на Windows PowerShell). `cd` меняет рабочую папку для следующих команд. Интерактивный ввод передавай через pipe, серверы запускай в фоне через `&`.',
+    parameters: { type: 'object', properties: { command: { type: 'string', description: 'Команда' } }, required: ['command'] }
+  },
+  {
+    name: 'write_file',
+    description: 'Создать или ПОЛНОСТЬЮ перезаписать файл. Только для новых или маленьких файлов.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Путь к файлу' },
+        content: { type: 'string', description: 'Полное содержимое файла' }
+      },
+      required: ['path', 'content']
+    }
+  },
+  {
+    name: 'edit_file',
+    description: 'Заменить кусок текста в файле (рекомендуется вместо write_file). Фрагмент search копируй точно.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Путь к файлу' },
+        search: { type: 'string', description: 'Старый фрагмент' },
+        replace: { type: 'string', description: 'Новый фрагмент' }
+      },
+      required: ['path', 'search', 'replace']
+    }
+  },
+  {
+    name: 'read_file',
+    description: 'Прочитать файл целиком или диапазон строк (нумерация с 1).',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Путь к файлу' },
+        start_line: { type: 'integer', description: 'Первая строка (необязательно)' },
+        end_line: { type: 'integer', description: 'Последняя строка (необязательно)' }
+      },
+      required: ['path']
+    }
+  },
+  {
+    name: 'tree_view',
+    description: 'Показать дерево файлов проекта без node_modules/.git. Используй перед поиском.',
+    parameters: { type: 'object', properties: { path: { type: 'string', description: 'Папка (обычно .)' } }, required: ['path'] }
+  },
+  {
+    name: 'search_smart',
+    description: 'Поиск буквального текста по файлам (git grep / grep). Ищи точечно в нужной папке.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Искомый текст' },
+        path: { type: 'string', description: 'Папка для поиска (по умолчанию .)' }
+      },
+      required: ['query']
+    }
+  },
+  {
+    name: 'browser_open',
+    description: 'Открыть сайт в браузере и получить его текстовое содержимое.',
+    parameters: { type: 'object', properties: { url: { type: 'string', description: 'URL' } }, required: ['url'] }
+  },
+  {
+    name: 'browser_search',
+    description: 'Поиск в интернете (DuckDuckGo).',
+    parameters: { type: 'object', properties: { query: { type: 'string', description: 'Запрос' } }, required: ['query'] }
+  },
+  {
+    name: 'browser_act',
+    description: 'Действие на текущей странице: "type <selector> <text>", "click <selector>" или "screenshot <path>".',
+    parameters: { type: 'object', properties: { action: { type: 'string', description: 'Действие' } }, required: ['action'] }
+  },
+  {
+    name: 'desktop_screenshot',
+    description: 'Скриншот всего экрана (macOS/Windows).',
+    parameters: { type: 'object', properties: { path: { type: 'string', description: 'Путь к .png файлу' } }, required: ['path'] }
+  },
+  {
+    name: 'desktop_act',
+    description: 'Управление клавиатурой (macOS/Windows): "type <текст>" или "key <клавиша>" (enter, tab, space, escape, backspace, стрелки).',
+    parameters: { type: 'object', properties: { action: { type: 'string', description: 'Действие' } }, required: ['action'] }
+  },
+  {
+    name: 'system_diagnostics',
+    description: 'Полная самодиагностика системы (файлы, shell, интернет, git).',
+    parameters: { type: 'object', properties: {}, required: [] }
+  },
+  {
+    name: 'ios_config',
+    description: 'Чтение/изменение настроек iOS проекта (.pbxproj): "list <project.pbxproj>", "get <project.pbxproj> <ключ> [target]", "set <project.pbxproj> <ключ> <значение> [target]".',
+    parameters: { type: 'object', properties: { args: { type: 'string', description: 'Аргументы' } }, required: ['args'] }
+  }
+];
+
+// Приводит структурированный вызов к тому же виду, что дают markdown-блоки,
+// чтобы выполнение и проверка прав шли по одному пути.
+export function toolCallToParsed(call: ToolCall): ParsedTool | null {
+  const a = call.args || {};
+  const str = (v: any) => (v === undefined || v === null ? '' : String(v));
+
+  switch (call.name) {
+    case 'run_command':
+      return { type: 'command', content: str(a.command), arg: '' };
+    case 'write_file':
+      return { type: 'file', content: str(a.content), arg: str(a.path) };
+    case 'edit_file':
+      return { type: 'edit', content: `<<<<<<< SEARCH\n${str(a.search)}\n=======\n${str(a.replace)}\n>>>>>>>`, arg: str(a.path) };
+    case 'read_file':
+      if (a.start_line && a.end_line) {
+        return { type: 'read', content: `${str(a.path)}:${a.start_line}-${a.end_line}`, arg: '' };
+      }
+      return { type: 'read', content: str(a.path), arg: '' };
+    case 'tree_view':
+      return { type: 'tree', content: str(a.path) || '.', arg: '' };
+    case 'search_smart':
+      return { type: 'search', content: `"${str(a.query).replace(/"/g, '')}" ${str(a.path) || '.'}`, arg: '' };
+    case 'browser_open':
+      return { type: 'browser_open', content: str(a.url), arg: '' };
+    case 'browser_search':
+      return { type: 'browser_search', content: str(a.query), arg: '' };
+    case 'browser_act':
+      return { type: 'browser_act', content: str(a.action), arg: '' };
+    case 'desktop_screenshot':
+      return { type: 'desktop_screenshot', content: str(a.path), arg: '' };
+    case 'desktop_act':
+      return { type: 'desktop_act', content: str(a.action), arg: '' };
+    case 'system_diagnostics':
+      return { type: 'system_diagnostics', content: '', arg: '' };
+    case 'ios_config':
+      return { type: 'ios_config', content: str(a.args), arg: '' };
+    default:
+      return null;
+  }
+}
+
 export class ToolManager {
   private browser = new BrowserManager();
 
-  constructor(private cwd: string = process.cwd()) {}
+  // checkpoints — снимки файлов перед записью и правкой (/undo)
+  constructor(private cwd: string = process.cwd(), private checkpoints?: CheckpointStore) {}
 
   async close() {
       await this.browser.close();
@@ -196,7 +341,7 @@ export class ToolManager {
               project.updateBuildProperty(key, val);
               
               const newContent = project.writeSync();
-              await fs.writeFile(targetFile, newContent);
+              await this.saveFile(targetFile, newContent);
               
               return { output: `Successfully set ${key} = ${val} in ${projectPath}` };
           }
@@ -289,11 +434,21 @@ export class ToolManager {
   }
 
   // Helper to resolve paths with ~ support
+  // ~/.council-ai закрыта для всех файловых операций, даже если проверка границ в Council пропущена
   private resolvePath(filePath: string): string {
-      if (filePath.startsWith('~/')) {
-          return path.join(os.homedir(), filePath.slice(2));
+      if (this.checkPath(filePath, []).status === 'protected') {
+          throw new Error(`Access denied: ${filePath} is inside ~/.council-ai`);
       }
-      return path.resolve(this.cwd, filePath);
+      return expandPath(filePath, this.cwd);
+  }
+
+  getCwd(): string {
+      return this.cwd;
+  }
+
+  // Положение пути относительно разрешенных папок (от текущей папки терминала, cd учитывается)
+  checkPath(filePath: string, roots: string[]): PathCheck {
+      return checkPath(filePath, this.cwd, roots);
   }
 
   async runCommand(cmd: string, signal?: AbortSignal): Promise<ToolResult> {
@@ -372,7 +527,7 @@ export class ToolManager {
           output = outLines.slice(0, MAX_LINES).join('\n') + `\n... [Output truncated: ${outLines.length - MAX_LINES} lines removed]`;
       }
       
-      return { output: output || '' }; 
+      return { output: output || '', exitCode: 0 };
     } catch (error: any) {
       // Check for timeout kill or abort
       if (error.signal === 'SIGTERM' || error.name === 'AbortError' || error.code === 'ABORT_ERR') {
@@ -384,7 +539,11 @@ export class ToolManager {
           errorMsg += ` (Exit Code: ${error.code})`;
       }
       
-      return { output: error.stdout || '', error: errorMsg + (error.stderr ? '\nSTDERR: ' + error.stderr : '') };
+      return {
+          output: error.stdout || '',
+          error: errorMsg + (error.stderr ? '\nSTDERR: ' + error.stderr : ''),
+          exitCode: typeof error.code === 'number' ? error.code : undefined
+      };
     }
   }
 
@@ -397,6 +556,29 @@ export class ToolManager {
       return JSON.parse(json);
   }
 
+  // Дифф будущей записи/правки для подтверждения пользователем (режим "ask")
+  async previewWrite(filePath: string, content: string): Promise<string> {
+      const target = this.resolvePath(filePath);
+      const current = await fs.readFile(target, 'utf8').catch(() => null);
+      return unifiedDiff(current, content, filePath);
+  }
+
+  async previewEdit(filePath: string, search: string, replace: string): Promise<string> {
+      const current = await fs.readFile(this.resolvePath(filePath), 'utf8').catch(() => null);
+      // Точное совпадение показываем в контексте файла, иначе (нечеткий поиск) — сам блок замены
+      if (current !== null && current.includes(search)) {
+          return unifiedDiff(current, current.replace(search, replace), filePath);
+      }
+      return unifiedDiff(search, replace, filePath);
+  }
+
+  // Запись с чекпоинтом: прежнее содержимое сохраняется до перезаписи
+  private async saveFile(target: string, content: string) {
+      this.checkpoints?.before(target);
+      await fs.writeFile(target, content);
+      this.checkpoints?.after(target, content);
+  }
+
   async writeFile(filePath: string, content: string): Promise<ToolResult> {
     try {
       const target = this.resolvePath(filePath);
@@ -422,7 +604,7 @@ export class ToolManager {
           }
       }
 
-      await fs.writeFile(target, content);
+      await this.saveFile(target, content);
       return { output: `File saved to ${filePath}` };
     } catch (error: any) {
       return { output: '', error: `Write failed: ${error.message}` };
@@ -447,7 +629,7 @@ export class ToolManager {
                   }
               }
 
-              await fs.writeFile(target, newContent);
+              await this.saveFile(target, newContent);
               return { output: `Successfully edited ${filePath} (Exact Match)` };
           }
 
@@ -527,7 +709,7 @@ export class ToolManager {
                   }
               }
 
-              await fs.writeFile(target, newContent);
+              await this.saveFile(target, newContent);
               return { output: `Successfully edited ${filePath} (Fuzzy Match)` };
           }
 
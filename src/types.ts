@@ -1,6 +1,15 @@
 // Типы данных
 
-export type ProviderType = 'openai' | 'anthropic' | 'deepseek' | 'grok' | 'gemini' | 'perplexity' | 'openrouter';
+export type ProviderType = 'openai' | 'anthropic' | 'deepseek' | 'grok' | 'gemini' | 'perplexity' | 'openrouter' | 'custom';
+
+// Пользовательский OpenAI-совместимый эндпоинт (Ollama, LM Studio, vLLM, Azure)
+export interface CustomProvider {
+  id: string;
+  name: string;
+  baseUrl: string; // Например http://localhost:11434/v1
+  apiKey?: string; // Локальным серверам ключ обычно не нужен
+  headers?: Record<string, string>; // Дополнительные заголовки (например api-key для Azure)
+}
 
 export interface AgentStats {
   totalSuggestions: number;
@@ -15,36 +24,144 @@ export interface AgentConfig {
   providerType: ProviderType;
   model: string;
   enabled: boolean; // Включен ли в совет
+  persona?: string; // Встроенный шаблон роли (см. PERSONA_IDS в personas.ts)
+  systemPrompt?: string; // Собственные инструкции агента, добавляются к базовому промпту
+  temperature?: number; // По умолчанию 0.7
+  customProviderId?: string; // Для providerType 'custom': id записи в customProviders
+  toolMode?: 'markdown' | 'native'; // Протокол инструментов: блоки ``` в тексте (по умолчанию) или function calling API
 }
 
+// true — разрешено, false — запрещено, 'ask' — спрашивать пользователя перед каждым вызовом
+export type PermissionMode = boolean | 'ask';
+
 export interface AppPermissions {
-  allow_browser?: boolean;
-  allow_desktop?: boolean;
-  allow_file_read?: boolean;
-  allow_file_write?: boolean;
-  allow_file_edit?: boolean;
-  allow_command?: boolean;
+  allow_browser?: PermissionMode;
+  allow_desktop?: PermissionMode;
+  allow_file_read?: PermissionMode;
+  allow_file_write?: PermissionMode;
+  allow_file_edit?: PermissionMode;
+  allow_command?: PermissionMode;
+}
+
+// Что делать, если прогноз или факт расходов выходит за бюджет
+export type BudgetPolicy = 'warn' | 'skip_expensive' | 'chair_only' | 'refuse';
+
+export interface BudgetConfig {
+  session?: number; // USD на сессию (запуск CLI)
+  daily?: number; // USD в сутки
+  perAgent?: Record<string, number>; // agentId -> USD в сутки
+  policy?: BudgetPolicy; // По умолчанию 'warn'
+}
+
+// Папки, с которыми работают файловые инструменты (папка запуска разрешена всегда)
+export interface WorkspaceConfig {
+  roots?: string[]; // Дополнительные разрешенные папки
+  outside?: 'ask' | 'deny'; // Доступ вне папок: спросить (по умолчанию) или запретить
+}
+
+// Именованный состав: Председатель, Секретарь и члены Совета
+export interface TeamPreset {
+  id: string;
+  name: string;
+  chairAgentId?: string;
+  secretaryAgentId?: string;
+  memberIds: string[]; // Включенные в Совет агенты
+  maxTurns?: number; // Лимит ходов Председателя с инструментами
 }
 
 export interface AppConfig {
   apiKeys: Record<string, string>; // ProviderType -> API Key
+  customProviders?: CustomProvider[];
   agents: AgentConfig[];
   chairAgentId?: string;
   secretaryAgentId?: string;
   muteMode?: boolean; // Скрывать ответы совета
+  planMode?: boolean; // Режим плана для всех запросов (/plan)
   councilActive?: boolean; // Активен ли Совет и Секретарь
+  debateRounds?: number; // Количество раундов дебатов Совета (1 = без дебатов)
+  debateConvergence?: boolean; // Завершать дебаты досрочно, если мнения сошлись
+  councilToolTurns?: number; // Ходы с инструментами чтения у членов Совета (0 — без инструментов)
+  maxTurns?: number; // Лимит ходов Председателя с инструментами (сохраняется в активную команду)
   autoCompact?: boolean; // Автоматическое сжатие контекста
   autoCompactLimit?: number; // Лимит сообщений для автосжатия (по умолчанию 20)
   language?: 'ru' | 'en'; // Язык интерфейса
   permissions?: AppPermissions; // Права доступа инструментов
+  budget?: BudgetConfig; // Лимиты расходов
+  teams?: TeamPreset[]; // Сохраненные составы (/team, --team)
+  activeTeamId?: string; // Текущий состав; изменения агентов сохраняются в него
+  approvedPatterns?: Record<string, string[]>; // Папка проекта -> шаблоны "всегда разрешать" (режим "ask")
+  workspace?: WorkspaceConfig; // Границы файловых инструментов
+}
+
+// Структурированный вызов инструмента (function calling)
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+// Описание инструмента в виде JSON Schema (OpenAI tools / Anthropic tools / Gemini functionDeclarations)
+export interface ToolSchema {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, { type: 'string' | 'integer'; description: string }>;
+    required: string[];
+  };
+}
+
+export interface ToolCallResult {
+  id: string;
+  name: string;
+  output: string;
+}
+
+export type ParsedToolType = 'command' | 'file' | 'edit' | 'read' | 'tree' | 'search' | 'browser_open' | 'browser_search' | 'browser_act' | 'desktop_screenshot' | 'desktop_act' | 'system_diagnostics' | 'ios_config';
+
+// Инструмент, готовый к выполнению (из markdown-блока или из ToolCall)
+export interface ParsedTool {
+  type: ParsedToolType;
+  content: string;
+  arg: string;
 }
 
 export interface Message {
-  role: 'user' | 'assistant' | 'chair';
+  role: 'user' | 'assistant' | 'chair' | 'tool' | 'summary' | 'council'; // summary — закрепленная сводка сжатой истории, council — мнение члена Совета
   text: string;
   providerId?: string;
   timestamp: number;
+  askId?: string; // Запрос, к которому относится сообщение (UsageRecord.askId)
+  model?: string; // council: модель, давшая мнение
+  round?: number; // council: раунд дебатов
+  reasoning?: string; // council: рассуждения модели
+  error?: string; // council: ошибка запроса
+  durationMs?: number; // Время ответа модели
   images?: string[]; // Base64 strings (jpeg/png)
+  toolCalls?: ToolCall[]; // Вызовы инструментов (assistant, native режим)
+  toolResults?: ToolCallResult[]; // Результаты инструментов (role: 'tool')
+  archiveId?: string; // Для summary: id архива с исходными сообщениями (HistoryManager.expandSummary)
+}
+
+// Сессия диалога (~/.council-ai/sessions/<id>.json)
+export interface SessionMeta {
+  id: string;
+  title: string;
+  titleSource?: 'question' | 'secretary' | 'user'; // Откуда заголовок: первый вопрос, Секретарь или пользователь
+  created: number;
+  updated: number;
+  team?: string; // Команда (TeamPreset.name), с которой шла сессия
+  cwd: string; // Рабочая папка запуска
+  parentId?: string; // Ветка (/branch): сессия, от которой она отделилась
+  parentIndex?: number; // Сколько сообщений родителя взято в ветку
+}
+
+// Токены из usage-блока ответа API. input включает cached, output включает reasoning.
+export interface TokenUsage {
+  input: number;
+  output: number;
+  cached?: number;
+  reasoning?: number;
 }
 
 export interface ProviderResponse {
@@ -52,9 +169,22 @@ export interface ProviderResponse {
   model: string;
   text: string;
   reasoning?: string;
+  toolCalls?: ToolCall[];
+  usage?: TokenUsage;
   error?: string;
 }
 
+// Фрагмент потокового ответа (SSE)
+export interface StreamDelta {
+  text?: string;
+  reasoning?: string;
+}
+
+export interface StreamToken extends StreamDelta {
+  agentId: string;
+  role: 'council' | 'chair';
+}
+
 export type CouncilEventType = 'step' | 'tool_start' | 'tool_result' | 'agent_thinking' | 'agent_response' | 'info' | 'error' | 'success';
 
 export interface CouncilEvent {
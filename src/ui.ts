@@ -357,6 +357,22 @@ async function runRawMode<T>(fn: (stdin: NodeJS.ReadStream, stdout: NodeJS.Write
     }
 }
 
+let cancelSuspended = false;
+
+// Диалог с пользователем посреди задачи (подтверждение инструмента): Esc в меню не должен
+// отменять всю задачу, а после диалога снова ждем Esc/Ctrl+C в raw mode
+export async function suspendCancel<T>(fn: () => Promise<T>): Promise<T> {
+    cancelSuspended = true;
+    try {
+        return await fn();
+    } finally {
+        cancelSuspended = false;
+        if (rl) rl.pause();
+        if (process.stdin.isTTY) process.stdin.setRawMode(true);
+        process.stdin.resume();
+    }
+}
+
 // New: Wait for cancellation (ESC/Ctrl+C) while task is running
 export function waitForCancel(signal: AbortSignal, onCancel: () => void): () => void {
     if (rl) rl.pause();
@@ -372,6 +388,7 @@ export function waitForCancel(signal: AbortSignal, onCancel: () => void): () =>
     }
 
     const onKey = (_str: string, key: any) => {
+        if (cancelSuspended || !key) return;
         if (key.name === 'escape' || (key.ctrl && key.name === 'c')) {
             onCancel();
         }
@@ -0,0 +1,148 @@
+// Учет токенов и стоимости ~/.council-ai/usage.jsonl (одна строка на вызов модели)
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { AgentConfig, TokenUsage } from './types.js';
+import { getModelInfo } from './pricing.js';
+
+const CONFIG_DIR = path.join(os.homedir(), '.council-ai');
+const USAGE_FILE = path.join(CONFIG_DIR, 'usage.jsonl');
+
+export type UsageRole = 'council' | 'chair' | 'secretary';
+
+export interface UsageRecord {
+  askId: string;
+  sessionId: string;
+  timestamp: number;
+  role: UsageRole;
+  turn?: number; // Ход Председателя (tool loop) или раунд дебатов Совета
+  agentId: string;
+  agentName: string;
+  providerType: string;
+  model: string;
+  usage: TokenUsage;
+  cost: number; // USD; 0, если цена модели неизвестна
+}
+
+export interface UsageTotals {
+  calls: number;
+  input: number;
+  output: number;
+  cached: number;
+  reasoning: number;
+  cost: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byAgent: Record<string, UsageTotals & { name: string }>;
+  byProvider: Record<string, UsageTotals>;
+}
+
+// Стоимость по ценам MODEL_PRICING (USD за 1M токенов). Кэшированные токены считаются по цене входа.
+export function calculateCost(model: string, usage: TokenUsage): number {
+  const price = getModelInfo(model);
+  if (!price) return 0;
+  return (usage.input * price.in + usage.output * price.out) / 1_000_000;
+}
+
+export function emptyTotals(): UsageTotals {
+  return { calls: 0, input: 0, output: 0, cached: 0, reasoning: 0, cost: 0 };
+}
+
+function addTo(totals: UsageTotals, r: UsageRecord) {
+  totals.calls++;
+  totals.input += r.usage.input;
+  totals.output += r.usage.output;
+  totals.cached += r.usage.cached || 0;
+  totals.reasoning += r.usage.reasoning || 0;
+  totals.cost += r.cost;
+}
+
+export function summarize(records: UsageRecord[]): UsageSummary {
+  const summary: UsageSummary = { total: emptyTotals(), byAgent: {}, byProvider: {} };
+  for (const r of records) {
+    addTo(summary.total, r);
+    addTo(summary.byAgent[r.agentId] ||= { ...emptyTotals(), name: r.agentName }, r);
+    addTo(summary.byProvider[r.providerType] ||= emptyTotals(), r);
+  }
+  return summary;
+}
+
+export class UsageTracker {
+  private sessionId = Math.random().toString(36).substring(2, 10);
+  private sessionRecords: UsageRecord[] = [];
+
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  newAskId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 6)}`;
+  }
+
+  record(askId: string, agent: AgentConfig, role: UsageRole, usage: TokenUsage, turn?: number): UsageRecord {
+    const entry: UsageRecord = {
+      askId,
+      sessionId: this.sessionId,
+      timestamp: Date.now(),
+      role,
+      turn,
+      agentId: agent.id,
+      agentName: agent.name,
+      providerType: agent.providerType,
+      model: agent.model,
+      usage,
+      cost: calculateCost(agent.model, usage)
+    };
+    this.sessionRecords.push(entry);
+    this.append(entry);
+    return entry;
+  }
+
+  getSessionRecords(): UsageRecord[] {
+    return this.sessionRecords;
+  }
+
+  getAskRecords(askId: string): UsageRecord[] {
+    return this.sessionRecords.filter(r => r.askId === askId);
+  }
+
+  // Все записи за все время; битые строки пропускаем
+  loadAll(): UsageRecord[] {
+    try {
+      if (!fs.existsSync(USAGE_FILE)) return [];
+      return fs.readFileSync(USAGE_FILE, 'utf8')
+        .split('\n')
+        .filter(Boolean)
+        .map(line => {
+          try {
+            return JSON.parse(line) as UsageRecord;
+          } catch {
+            return null;
+          }
+        })
+        .filter((r): r is UsageRecord => !!r);
+    } catch {
+      return [];
+    }
+  }
+
+  getTodayRecords(all: UsageRecord[] = this.loadAll()): UsageRecord[] {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    return all.filter(r => r.timestamp >= start.getTime());
+  }
+
+  private append(entry: UsageRecord) {
+    try {
+      // Secure directory: 700
+      if (!fs.existsSync(CONFIG_DIR)) {
+        fs.mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o700 });
+      }
+      fs.appendFileSync(USAGE_FILE, JSON.stringify(entry) + '\n', { mode: 0o600 });
+    } catch {
+      // Учет не должен ломать ответ
+    }
+  }
+}
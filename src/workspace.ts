@@ -0,0 +1,53 @@
+// Границы рабочей области для файловых инструментов: пути сравниваются после раскрытия ~,
+// "..", и символических ссылок. ~/.council-ai (ключи API, история) закрыта всегда.
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+export const PROTECTED_DIR = path.join(os.homedir(), '.council-ai');
+
+export type PathStatus = 'inside' | 'outside' | 'protected';
+
+export interface PathCheck {
+  path: string; // Реальный путь (симлинки раскрыты)
+  status: PathStatus;
+}
+
+// Путь так, как его поймет инструмент: ~/ — домашняя папка, относительный — от cwd
+export function expandPath(filePath: string, cwd: string): string {
+  if (filePath === '~') return os.homedir();
+  if (filePath.startsWith('~/')) return path.join(os.homedir(), filePath.slice(2));
+  return path.resolve(cwd, filePath);
+}
+
+// realpath для путей, которых еще нет (file: создает новые файлы):
+// раскрываем ближайшего существующего предка и дописываем остаток
+export function realPath(target: string): string {
+  const missing: string[] = [];
+  let current = path.resolve(target);
+  while (true) {
+    try {
+      return path.join(fs.realpathSync.native(current), ...missing.reverse());
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) return path.resolve(target);
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+export function isInside(target: string, root: string): boolean {
+  const rel = path.relative(root, target);
+  return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+}
+
+export function checkPath(filePath: string, cwd: string, roots: string[]): PathCheck {
+  const real = realPath(expandPath(filePath, cwd));
+  // Сравниваем и с реальным путем защищенной папки: ~/.council-ai может быть ссылкой
+  if (isInside(real, PROTECTED_DIR) || isInside(real, realPath(PROTECTED_DIR))) {
+    return { path: real, status: 'protected' };
+  }
+  const inside = roots.some(root => isInside(real, realPath(root)));
+  return { path: real, status: inside ? 'inside' : 'outside' };
+}
@@ -0,0 +1,131 @@
+import { Council } from '../src/council';
+import { ConfigManager } from '../src/config';
+import { HistoryManager } from '../src/history';
+import { askPermission, patternMatches, suggestPattern } from '../src/approvals';
+import { jest, describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+
+describe('tool approval patterns', () => {
+    test('matches by permission and wildcard, never across shell chaining', () => {
+        const npm = { permission: 'allow_command' as const, target: 'npm test -- --watch=false' };
+        expect(patternMatches('command:npm test*', npm)).toBe(true);
+        expect(patternMatches('write:npm test*', npm)).toBe(false);
+        expect(patternMatches('command:npm test*', { ...npm, target: 'npm test; rm -rf ~' })).toBe(false);
+        expect(patternMatches('write:src/**', { permission: 'allow_file_write', target: 'src/a/b.ts' })).toBe(true);
+    });
+
+    test('path wildcards stay inside a folder and never leave the project', () => {
+        const write = (target: string) => ({ permission: 'allow_file_write' as const, target });
+        expect(patternMatches('write:*', write('a.ts'))).toBe(true);
+        expect(patternMatches('write:*', write('src/a.ts'))).toBe(false);
+        expect(patternMatches('write:src/*', write('src/a/b.ts'))).toBe(false);
+        expect(patternMatches('write:*', write('../../etc/passwd'))).toBe(false);
+        expect(patternMatches('write:src/*', write('src/../../etc/passwd'))).toBe(false);
+        expect(patternMatches('write:**', write('/etc/passwd'))).toBe(false);
+        expect(patternMatches('write:src/*', write('/etc/src/a.ts'))).toBe(false);
+    });
+
+    test('suggests a pattern for the request', () => {
+        expect(suggestPattern({ tool: 'command', permission: 'allow_command', target: 'git status --short' })).toBe('command:git status*');
+        expect(suggestPattern({ tool: 'file', permission: 'allow_file_write', target: 'src/app.ts' })).toBe('write:src/*');
+        expect(suggestPattern({ tool: 'browser_open', permission: 'allow_browser', target: 'https://docs.rs/x?y=1' })).toBe('browser:https://docs.rs/*');
+    });
+
+    test('only "ask" permissions need approval', () => {
+        expect(askPermission('search', { allow_file_read: true, allow_command: 'ask' })).toBe('allow_command');
+        expect(askPermission('read', { allow_file_read: true, allow_command: 'ask' })).toBeUndefined();
+    });
+});
+
+describe('Council approval flow', () => {
+    let council: Council;
+    let config: ConfigManager;
+    const tool = { type: 'command' as const, content: 'make deploy', arg: '' };
+    const perms = { allow_command: 'ask' as const };
+
+    beforeEach(() => {
+        jest.spyOn(ConfigManager.prototype, 'load' as any).mockImplementation(() => {});
+        config = new ConfigManager({ persist: false });
+        council = new Council(config, new HistoryManager({ persist: false }));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const approve = () => (council as any).approveTool(tool, perms);
+
+    test('without a handler "ask" denies', async () => {
+        expect((await approve()).error).toContain('requires user approval');
+    });
+
+    test('reject feeds the reason back, edit replaces the command, always persists the pattern', async () => {
+        const decisions: any[] = [
+            { action: 'reject', reason: 'not on Friday' },
+            { action: 'edit', target: 'make deploy-staging' },
+            { action: 'always', pattern: 'command:make deploy*' }
+        ];
+        const handler = jest.fn(async () => decisions.shift());
+        council.setApprovalHandler(handler);
+
+        expect((await approve()).error).toContain('Reason: not on Friday');
+        expect((await approve()).tool.content).toBe('make deploy-staging');
+        expect((await approve()).tool.content).toBe('make deploy');
+        expect(config.getApprovedPatterns(process.cwd())).toEqual(['command:make deploy*']);
+
+        // Шаблон разрешает без вопроса
+        expect((await approve()).tool.content).toBe('make deploy');
+        expect(handler).toHaveBeenCalledTimes(3);
+    });
+
+    test('saved path patterns never approve targets outside the project', async () => {
+        const handler = jest.fn(async () => ({ action: 'reject' as const }));
+        council.setApprovalHandler(handler);
+        config.addApprovedPattern(process.cwd(), 'write:*');
+        config.addApprovedPattern(process.cwd(), 'write:src/*');
+        const write = (arg: string) => (council as any).approveTool({ type: 'file', content: 'x', arg }, { allow_file_write: 'ask' });
+
+        expect((await write('notes.txt')).tool).toBeDefined();
+        expect((await write('./src/new.ts')).tool).toBeDefined();
+        expect((await write('../../etc/cron.d/job')).error).toContain('Rejected');
+        expect((await write('src/../../outside.ts')).error).toContain('Rejected');
+        expect((await write('/etc/passwd')).error).toContain('Rejected');
+        expect((await write(`${process.cwd()}/src/../../outside.ts`)).error).toContain('Rejected');
+        expect(handler).toHaveBeenCalledTimes(4);
+    });
+
+    test('the suggested pattern for an absolute path inside the project is relative and matches', async () => {
+        const handler = jest.fn(async (request: any) => ({ action: 'always' as const, pattern: suggestPattern(request) }));
+        council.setApprovalHandler(handler);
+        const write = (arg: string) => (council as any).approveTool({ type: 'file', content: 'x', arg }, { allow_file_write: 'ask' });
+
+        expect((await write(`${process.cwd()}/src/new.ts`)).tool).toBeDefined();
+        expect(config.getApprovedPatterns(process.cwd())).toEqual(['write:src/*']);
+
+        // Сохраненный шаблон разрешает соседний файл без вопроса
+        expect((await write(`${process.cwd()}/src/other.ts`)).tool).toBeDefined();
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    test('a policy or workspace reason always asks, even with a matching pattern', async () => {
+        const handler = jest.fn(async () => ({ action: 'reject' as const }));
+        council.setApprovalHandler(handler);
+        config.addApprovedPattern(process.cwd(), 'command:make*');
+
+        expect((await (council as any).approveTool(tool, { allow_command: true }, undefined, 'policy rule: make *')).error).toContain('Rejected');
+        expect((await approve()).tool.content).toBe('make deploy');
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    test('command policy denials come back as tool errors before anything runs', async () => {
+        const handler = jest.fn(async () => ({ action: 'approve' as const }));
+        council.setApprovalHandler(handler);
+        const result = await (council as any).executeTool(
+            { type: 'command', content: 'git status && git push --force origin main', arg: '' },
+            { allow_command: true },
+            []
+        );
+        expect(result).toContain('Error: Denied by command policy');
+        expect(result).toContain('force push');
+        expect(handler).not.toHaveBeenCalled();
+    });
+});
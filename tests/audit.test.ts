@@ -0,0 +1,73 @@
+import { jest, describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const tempHome = `/tmp/council-test-audit-${Date.now()}`;
+
+// Council тянет зависимости, которым нужен весь модуль os
+jest.unstable_mockModule('node:os', () => ({
+    __esModule: true,
+    ...os,
+    homedir: () => tempHome,
+    default: { ...os, homedir: () => tempHome }
+}));
+
+describe('audit log', () => {
+    let council: any;
+    let audit: any;
+    const agent = { id: 'chair', name: 'Chair', providerType: 'openai', model: 'gpt-4o', enabled: true };
+
+    beforeAll(async () => {
+        fs.mkdirSync(tempHome, { recursive: true });
+        audit = await import('../src/audit.js');
+        const { Council } = await import('../src/council.js');
+        const { ConfigManager } = await import('../src/config.js');
+        const { HistoryManager } = await import('../src/history.js');
+        jest.spyOn(ConfigManager.prototype as any, 'load').mockImplementation(() => {});
+        council = new Council(new ConfigManager({ persist: false }), new HistoryManager({ persist: false }));
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+        try {
+            fs.rmSync(tempHome, { recursive: true, force: true });
+        } catch {}
+    });
+
+    const run = (content: string, perms: any) =>
+        council.runTool({ type: 'command', content, arg: '' }, perms, [], agent, 'ask1');
+
+    test('records every tool call with its decision, exit code and output hash', async () => {
+        const output = await run('echo audited && exit 3', { allow_command: true });
+        await run('git push --force', { allow_command: true });
+        await run('ls', { allow_command: false });
+
+        const events = new audit.AuditLog().read();
+        expect(events.map((e: any) => e.decision)).toEqual(['allowed', 'denied_policy', 'denied_permission']);
+
+        const [first] = events;
+        expect(first).toMatchObject({
+            sessionId: council['history'].getMeta().id,
+            askId: 'ask1',
+            agentId: 'chair',
+            tool: 'command',
+            content: 'echo audited && exit 3',
+            exitCode: 3,
+            outputHash: audit.sha256(output)
+        });
+        expect(first.cwd).toBe(process.cwd());
+        expect(fs.readdirSync(audit.AUDIT_DIR)).toHaveLength(1);
+    });
+
+    test('filters and tails', () => {
+        const log = new audit.AuditLog();
+        expect(log.read({ decision: 'denied' }).map((e: any) => e.content)).toEqual(['git push --force', 'ls']);
+        expect(log.read({ text: 'ECHO' })).toHaveLength(1);
+        expect(log.read({}, 1).map((e: any) => e.content)).toEqual(['ls']);
+        expect(log.read({ since: Date.now() + 60_000 })).toEqual([]);
+
+        expect(audit.parseSince('2h', 10_000_000)).toBe(10_000_000 - 7_200_000);
+        expect(audit.parseSince('yesterday')).toBeUndefined();
+    });
+});
@@ -0,0 +1,58 @@
+import { planBudget, isExhausted } from '../src/budget';
+import { UsageRecord } from '../src/usage';
+import { AgentConfig } from '../src/types';
+
+const agent = (id: string, model: string): AgentConfig => ({ id, name: id, providerType: 'openai', model, enabled: true });
+
+const chair = agent('chair', 'gpt-4o-mini');
+const cheap = agent('cheap', 'gpt-4o-mini');
+const pricey = agent('pricey', 'o1-pro');
+
+const spent = (agentId: string, cost: number): UsageRecord => ({
+  askId: 'a', sessionId: 's', timestamp: Date.now(), role: 'council',
+  agentId, agentName: agentId, providerType: 'openai', model: 'gpt-4o', usage: { input: 0, output: 0 }, cost
+});
+
+describe('planBudget', () => {
+  test('keeps everyone when no limits are set', () => {
+    const plan = planBudget({}, chair, [cheap, pricey], 10000, [], []);
+    expect(plan.action).toBe('ok');
+    expect(plan.members).toHaveLength(2);
+  });
+
+  test('skip_expensive drops the most expensive member first', () => {
+    const plan = planBudget({ session: 0.5, policy: 'skip_expensive' }, chair, [cheap, pricey], 10000, [], []);
+    expect(plan.action).toBe('skip');
+    expect(plan.members.map(a => a.id)).toEqual(['cheap']);
+    expect(plan.skipped.map(a => a.id)).toEqual(['pricey']);
+  });
+
+  test('chair_only removes the whole council', () => {
+    const plan = planBudget({ daily: 0.5, policy: 'chair_only' }, chair, [cheap, pricey], 10000, [], []);
+    expect(plan.action).toBe('chair_only');
+    expect(plan.members).toHaveLength(0);
+  });
+
+  test('refuses when even the chair does not fit', () => {
+    const plan = planBudget({ session: 1, policy: 'skip_expensive' }, chair, [cheap], 10000, [spent('x', 1)], []);
+    expect(plan.action).toBe('refuse');
+  });
+
+  test('warn policy keeps everyone', () => {
+    const plan = planBudget({ session: 0.01 }, chair, [cheap, pricey], 10000, [], []);
+    expect(plan.action).toBe('warn');
+    expect(plan.members).toHaveLength(2);
+  });
+
+  test('per-agent daily limit skips that member', () => {
+    const plan = planBudget({ perAgent: { cheap: 0.1 }, policy: 'skip_expensive' }, chair, [cheap], 1000, [], [spent('cheap', 0.1)]);
+    expect(plan.skipped.map(a => a.id)).toEqual(['cheap']);
+  });
+});
+
+describe('isExhausted', () => {
+  test('detects spent session budget', () => {
+    expect(isExhausted({ session: 1 }, chair, [spent('chair', 1.2)], [])).toBe(true);
+    expect(isExhausted({ session: 1 }, chair, [spent('chair', 0.2)], [])).toBe(false);
+  });
+});
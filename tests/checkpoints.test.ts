@@ -0,0 +1,67 @@
+import { jest, describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+
+const tempHome = `/tmp/council-test-checkpoints-${Date.now()}`;
+
+jest.unstable_mockModule('node:os', () => ({
+    __esModule: true,
+    default: {
+        homedir: () => tempHome,
+        platform: () => 'darwin',
+        release: () => '1.0.0',
+        arch: () => 'x64',
+        tmpdir: () => '/tmp'
+    }
+}));
+
+describe('file checkpoints', () => {
+    let CheckpointStore: any;
+    let unifiedDiff: any;
+    const work = path.join(tempHome, 'work');
+
+    beforeAll(async () => {
+        fs.mkdirSync(work, { recursive: true });
+        ({ CheckpointStore, unifiedDiff } = await import('../src/checkpoints.js'));
+    });
+
+    afterAll(() => {
+        try {
+            fs.rmSync(tempHome, { recursive: true, force: true });
+        } catch {}
+    });
+
+    test('undo restores edited files and deletes created ones', () => {
+        const edited = path.join(work, 'app.ts');
+        const created = path.join(work, 'new.ts');
+        fs.writeFileSync(edited, 'one\ntwo\n');
+
+        const store = new CheckpointStore();
+        store.begin('s1', 'ask1', 'refactor app');
+        for (const [file, content] of [[edited, 'one\n2\n'], [created, 'fresh\n'], [edited, 'one\n2\nthree\n']]) {
+            store.before(file);
+            fs.writeFileSync(file, content);
+            store.after(file, content);
+        }
+
+        const [cp] = store.list('s1');
+        expect(cp.files.map((f: any) => f.before)).toEqual(['one\ntwo\n', null]);
+        expect(store.conflicts(cp)).toEqual([]);
+
+        fs.appendFileSync(edited, 'user edit\n');
+        expect(store.conflicts(cp)).toEqual([edited]);
+
+        expect(store.undo(cp)).toEqual({ restored: [edited], deleted: [created] });
+        expect(fs.readFileSync(edited, 'utf8')).toBe('one\ntwo\n');
+        expect(fs.existsSync(created)).toBe(false);
+        expect(store.list('s1')[0].undoneAt).toBeDefined();
+    });
+
+    test('unified diff', () => {
+        expect(unifiedDiff('a\nb\nc\n', 'a\nB\nc\nd\n', 'f.txt')).toBe(
+            '--- a/f.txt\n+++ b/f.txt\n@@ -1,3 +1,4 @@\n a\n-b\n+B\n c\n+d'
+        );
+        expect(unifiedDiff(null, 'x\n', 'new.txt')).toBe('--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,1 @@\n+x');
+        expect(unifiedDiff('same', 'same', 'f')).toBe('');
+    });
+});
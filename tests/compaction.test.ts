@@ -0,0 +1,23 @@
+import { Council } from '../src/council';
+import { ConfigManager } from '../src/config';
+import { HistoryManager } from '../src/history';
+import { estimateTokens } from '../src/providers';
+import { jest, describe, test, expect, afterEach } from '@jest/globals';
+
+describe('Council compaction', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('measures only the history the chair sees', async () => {
+        jest.spyOn(ConfigManager.prototype, 'load' as any).mockImplementation(() => {});
+        const history = new HistoryManager({ persist: false });
+        const council = new Council(new ConfigManager({ persist: false }), history);
+
+        history.add({ role: 'user', text: 'Fix the build', timestamp: 1 });
+        history.add({ role: 'assistant', text: 'Done.\n```bash\n' + 'x'.repeat(100000) + '\n```', timestamp: 2 });
+
+        const result = await council.compactHistory({ keepCount: 100 });
+        expect(result.tokensBefore).toBe(estimateTokens('Fix the build') + estimateTokens('Done.\n[Tool Executed]'));
+    });
+});
@@ -0,0 +1,91 @@
+import { jest, describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+
+const tempHome = `/tmp/council-test-teams-${Date.now()}`;
+
+jest.unstable_mockModule('node:os', () => ({
+    __esModule: true,
+    default: {
+        homedir: () => tempHome,
+        platform: () => 'darwin',
+        release: () => '1.0.0',
+        arch: () => 'x64',
+        tmpdir: () => '/tmp'
+    }
+}));
+
+describe('ConfigManager team presets', () => {
+    let ConfigManager: any;
+
+    beforeAll(async () => {
+        const configDir = path.join(tempHome, '.council-ai');
+        fs.mkdirSync(configDir, { recursive: true });
+        fs.writeFileSync(path.join(configDir, 'config_v2.json'), JSON.stringify({
+            apiKeys: { 'openai': 'sk-test', 'anthropic': 'sk-ant' },
+            agents: [
+                { id: 'a', name: 'GPT', providerType: 'openai', model: 'gpt-4o', enabled: true },
+                { id: 'b', name: 'Claude', providerType: 'anthropic', model: 'claude-3-5-sonnet', enabled: true },
+                { id: 'c', name: 'Mini', providerType: 'openai', model: 'gpt-4o-mini', enabled: false }
+            ],
+            chairAgentId: 'a',
+            permissions: {}
+        }));
+
+        const module = await import('../src/config.js');
+        ConfigManager = module.ConfigManager;
+    });
+
+    afterAll(() => {
+        try {
+            fs.rmSync(tempHome, { recursive: true, force: true });
+        } catch {}
+    });
+
+    test('create, switch and keep the active team in sync', () => {
+        const config = new ConfigManager();
+
+        const full = config.createTeam('Full');
+        expect(full.memberIds).toEqual(['a', 'b']);
+
+        // Новый состав: дешевый Председатель без Совета
+        config.updateAgent('a', { enabled: false });
+        config.updateAgent('b', { enabled: false });
+        config.updateAgent('c', { enabled: true });
+        config.setChairId('c');
+        // Изменения ушли в активную команду
+        expect(config.getTeam(full.id).chairAgentId).toBe('c');
+
+        config.switchTeam(full.id);
+        config.renameTeam(full.id, 'Cheap');
+        const cheap = config.findTeam('cheap');
+        expect(cheap.id).toBe(full.id);
+
+        const copy = config.cloneTeam(full.id, 'Copy');
+        expect(copy.memberIds).toEqual(['c']);
+        expect(config.getActiveTeam().id).toBe(full.id);
+    });
+
+    test('switching applies chair and membership; deleted agents are pruned', () => {
+        const config = new ConfigManager();
+        config.deleteTeam(config.getActiveTeam().id);
+        expect(config.getActiveTeam()).toBeUndefined();
+
+        config.setChairId('a');
+        config.updateAgent('a', { enabled: true });
+        config.updateAgent('b', { enabled: true });
+        config.updateAgent('c', { enabled: false });
+        const duo = config.createTeam('Duo');
+
+        config.switchTeam(config.findTeam('Copy').id);
+        expect(config.getChairId()).toBe('c');
+        expect(config.getAgents().filter((a: any) => a.enabled).map((a: any) => a.id)).toEqual(['c']);
+
+        config.removeAgent('b');
+        expect(config.getTeam(duo.id).memberIds).toEqual(['a']);
+
+        config.switchTeam(duo.id);
+        expect(config.getChairId()).toBe('a');
+        expect(config.getAgent('c').enabled).toBe(false);
+    });
+});
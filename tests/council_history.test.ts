@@ -0,0 +1,45 @@
+import { Council } from '../src/council';
+import { ConfigManager } from '../src/config';
+import { HistoryManager } from '../src/history';
+import { estimateTokens } from '../src/providers';
+import { jest, describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+
+describe('Council history visibility', () => {
+    let council: Council;
+
+    beforeEach(() => {
+        jest.spyOn(ConfigManager.prototype, 'load' as any).mockImplementation(() => {});
+        const history = new HistoryManager({ persist: false });
+        council = new Council(new ConfigManager({ persist: false }), history);
+
+        history.add({ role: 'user', text: 'Which DB?', timestamp: 1, askId: 'q1' });
+        history.add({ role: 'council', text: 'Postgres', providerId: 'a', round: 1, askId: 'q1', timestamp: 2 });
+        history.add({ role: 'council', text: 'SQLite', providerId: 'b', round: 1, askId: 'q1', timestamp: 3 });
+        history.add({ role: 'council', text: 'Postgres, with pgbouncer', providerId: 'a', round: 2, askId: 'q1', timestamp: 4 });
+        history.add({ role: 'council', text: 'Согласен', providerId: 'b', round: 2, askId: 'q1', timestamp: 5 });
+        history.add({ role: 'council', text: '', error: 'timeout', providerId: 'c', round: 1, askId: 'q1', timestamp: 6 });
+        history.add({ role: 'assistant', text: 'Use Postgres', providerId: 'chair', askId: 'q1', timestamp: 7 });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const view = (viewerId?: string) => (council as any).getCleanHistory(viewerId).map((m: any) => m.text);
+
+    test('the chair sees no stored opinions', () => {
+        expect(view()).toEqual(['Which DB?', 'Use Postgres']);
+    });
+
+    test('a member sees only its own latest position', () => {
+        expect(view('a')).toEqual(['Which DB?', 'Postgres, with pgbouncer', 'Use Postgres']);
+        expect(view('b')).toEqual(['Which DB?', 'SQLite', 'Use Postgres']);
+        expect(view('c')).toEqual(['Which DB?', 'Use Postgres']);
+    });
+
+    test('compaction measures only the history the chair sees', async () => {
+        (council as any).history.add({ role: 'council', text: 'x'.repeat(100000), providerId: 'a', round: 1, askId: 'q2', timestamp: 8 });
+        const result = await council.compactHistory({ keepCount: 100 });
+        expect(result.tokensBefore).toBe(estimateTokens('Which DB?') + estimateTokens('Use Postgres'));
+    });
+});
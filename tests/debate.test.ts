@@ -0,0 +1,131 @@
+import { jest, describe, test, expect, beforeAll, beforeEach, afterEach, afterAll } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+
+const tempHome = `/tmp/council-test-debate-${Date.now()}`;
+const mockSendToProvider = jest.fn<any>();
+
+jest.unstable_mockModule('../src/providers', () => ({
+    sendToProvider: mockSendToProvider,
+    estimateTokens: (t: string) => Math.ceil(t.length / 2.5)
+}));
+
+// Журнал аудита пишется в домашнюю папку
+jest.unstable_mockModule('node:os', () => ({
+    __esModule: true,
+    ...os,
+    homedir: () => tempHome,
+    default: { ...os, homedir: () => tempHome }
+}));
+
+describe('council debate', () => {
+    let Council: any;
+    let ConfigManager: any;
+    let HistoryManager: any;
+    let council: any;
+    let config: any;
+
+    // answers[agentId][round - 1]: текст или { error }
+    const respondWith = (answers: Record<string, (string | { error: string })[]>) =>
+        mockSendToProvider.mockImplementation(async (agent: any, _key: any, prompt: string) => {
+            if (agent.id === 'chair') return { providerId: 'chair', model: agent.model, text: 'Decision.' };
+            const round = Number(prompt.match(/Раунд дебатов (\d+)/)?.[1] || 1);
+            const answer = answers[agent.id][round - 1];
+            return typeof answer === 'string'
+                ? { providerId: agent.id, model: agent.model, text: answer }
+                : { providerId: agent.id, model: agent.model, text: '', error: answer.error };
+        });
+    const callsOf = (agentId: string) => (mockSendToProvider.mock.calls as any[][]).filter(c => c[0].id === agentId);
+    const chairPrompt = () => callsOf('chair')[0][2] as string;
+
+    beforeAll(async () => {
+        fs.mkdirSync(tempHome, { recursive: true });
+        ({ Council } = await import('../src/council.js'));
+        ({ ConfigManager } = await import('../src/config.js'));
+        ({ HistoryManager } = await import('../src/history.js'));
+    });
+
+    beforeEach(() => {
+        mockSendToProvider.mockReset();
+        jest.spyOn(ConfigManager.prototype, 'load').mockImplementation(() => {});
+        config = new ConfigManager({ persist: false });
+        jest.spyOn(config, 'getAgents').mockReturnValue([
+            { id: 'chair', name: 'Chair', providerType: 'openai', model: 'gpt-4o', enabled: true },
+            { id: 'a', name: 'Alpha', providerType: 'anthropic', model: 'claude', enabled: true },
+            { id: 'b', name: 'Beta', providerType: 'gemini', model: 'gemini', enabled: true }
+        ]);
+        jest.spyOn(config, 'getChairId').mockReturnValue('chair');
+        council = new Council(config, new HistoryManager({ persist: false }));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    afterAll(() => {
+        fs.rmSync(tempHome, { recursive: true, force: true });
+    });
+
+    test('stops early once every member agrees', async () => {
+        config.setDebateRounds(4);
+        respondWith({
+            a: ['Use Postgres', 'Postgres, with pgbouncer', 'Согласен.'],
+            b: ['Use SQLite', 'Agreed', 'Agreed']
+        });
+
+        await council.ask('Which DB?');
+
+        expect(callsOf('a')).toHaveLength(3);
+        expect(callsOf('b')).toHaveLength(3);
+        expect(callsOf('a')[1][2]).toContain('[Beta]: Use SQLite');
+        expect(chairPrompt()).toContain('Раундов проведено: 3 из 4.');
+        expect(chairPrompt()).toContain('Alpha: изменил позицию (раунд 2)');
+        expect(chairPrompt()).toContain('Beta: остался при своем мнении.');
+        expect(chairPrompt()).toContain('[Alpha (ID: a)]: Postgres, with pgbouncer');
+    });
+
+    test('without the convergence check it runs to the round limit', async () => {
+        config.setDebateRounds(3);
+        config.setDebateConvergence(false);
+        respondWith({ a: ['A1', 'Согласен', 'Согласен'], b: ['B1', 'Согласен', 'B3'] });
+
+        await council.ask('Which DB?');
+
+        expect(callsOf('a')).toHaveLength(3);
+        expect(chairPrompt()).toContain('Раундов проведено: 3 из 3.');
+        expect(chairPrompt()).toContain('[Beta (ID: b)]: B3');
+    });
+
+    test('a member failing mid-debate keeps its last position and the debate goes on', async () => {
+        config.setDebateRounds(3);
+        respondWith({
+            a: ['A1', 'A2', 'A3'],
+            b: ['B1', { error: 'timeout' }, 'Согласен']
+        });
+
+        await council.ask('Which DB?');
+
+        expect(callsOf('b')).toHaveLength(3);
+        // В третьем раунде Alpha видит прежнюю позицию Beta, а не ошибку
+        expect(callsOf('a')[2][2]).toContain('[Beta]: B1');
+        expect(chairPrompt()).toContain('[Beta (ID: b)]: B1');
+        expect(chairPrompt()).toContain('[Alpha (ID: a)]: A3');
+    });
+
+    test('a member failing in the first round leaves nobody to debate with', async () => {
+        config.setDebateRounds(3);
+        respondWith({ a: ['A1'], b: [{ error: 'no key' }] });
+
+        await council.ask('Which DB?');
+
+        expect(callsOf('a')).toHaveLength(1);
+        expect(chairPrompt()).toContain('Раундов проведено: 1 из 3.');
+    });
+
+    test('short agreement replies count as agreement, longer ones do not', () => {
+        expect(council.isAgreement('Согласен.')).toBe(true);
+        expect(council.isAgreement('**I agree!**')).toBe(true);
+        expect(council.isAgreement('Agreed, but the index on user_id is still missing and that matters')).toBe(false);
+        expect(council.isAgreement('Disagree')).toBe(false);
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, test, expect } from '@jest/globals';
+import { buildTranscript, toMarkdown, toHtml, defaultExportName } from '../src/export';
+
+const meta = { id: 's1', title: 'Why is <CI> red?', created: 1000, updated: 9000, cwd: '/work' };
+const agents: Record<string, { name: string; model: string }> = {
+    a: { name: 'Chair', model: 'gpt-x' },
+    b: { name: 'Critic', model: 'claude-y' }
+};
+
+const messages: any[] = [
+    { role: 'summary', text: 'Earlier: set up CI', timestamp: 500 },
+    { role: 'user', text: 'Why is <CI> red?', timestamp: 1000, askId: 'q1', images: ['iVBORw0KGgo='] },
+    { role: 'council', text: 'Flaky test', reasoning: 'Looked at logs', providerId: 'b', model: 'claude-y', round: 1, askId: 'q1', durationMs: 1500, timestamp: 2500 },
+    { role: 'assistant', text: 'Checking', providerId: 'a', askId: 'q1', durationMs: 800, timestamp: 3300,
+        toolCalls: [{ id: 'c1', name: 'read', args: { path: 'ci.yml' } }] },
+    { role: 'tool', text: '--- TOOL OUTPUTS (Turn 1) ---\nruns-on: ubuntu', askId: 'q1', timestamp: 3400 },
+    { role: 'assistant', text: 'The test is flaky', providerId: 'a', askId: 'q1', durationMs: 600, timestamp: 4000 },
+    // Старая сессия без askId
+    { role: 'user', text: 'Thanks', timestamp: 5000 },
+    { role: 'assistant', text: 'You are welcome', providerId: 'a', timestamp: 6000 }
+];
+
+const usage: any[] = [
+    { askId: 'q1', role: 'council', turn: 1, agentId: 'b', cost: 0.002 },
+    { askId: 'q1', role: 'chair', turn: 1, agentId: 'a', cost: 0.01 },
+    { askId: 'q1', role: 'chair', turn: 2, agentId: 'a', cost: 0.02 },
+    { askId: 'other', role: 'chair', turn: 1, agentId: 'a', cost: 5 }
+];
+
+describe('session export', () => {
+    const transcript = buildTranscript(meta, messages, usage, id => agents[id], 10000);
+
+    test('groups messages into turns with opinions, tool steps, cost and latency', () => {
+        expect(transcript.summaries).toEqual(['Earlier: set up CI']);
+        expect(transcript.turns).toHaveLength(2);
+
+        const [first, second] = transcript.turns;
+        expect(first.council).toEqual([expect.objectContaining({ agent: 'Critic', reasoning: 'Looked at logs', cost: 0.002, durationMs: 1500 })]);
+        expect(first.steps.map(s => s.kind)).toEqual(['chair', 'tool', 'chair']);
+        expect(first.steps[2]).toMatchObject({ turn: 2, cost: 0.02 });
+        expect(first.answer).toBe('The test is flaky');
+        expect(first.cost).toBeCloseTo(0.032);
+        expect(first.durationMs).toBe(3000);
+
+        expect(second).toMatchObject({ question: 'Thanks', answer: 'You are welcome', cost: 0 });
+    });
+
+    test('markdown links saved images, html embeds them and escapes text', () => {
+        const saved: string[] = [];
+        const md = toMarkdown(transcript, img => { saved.push(img); return `s1_files/image-${saved.length}.png`; });
+        expect(saved).toEqual(['iVBORw0KGgo=']);
+        expect(md).toContain('](s1_files/image-1.png)');
+        expect(md).toContain('read {"path":"ci.yml"}');
+        expect(md).toContain('Looked at logs');
+
+        const html = toHtml(transcript);
+        expect(html).toContain('src="data:image/png;base64,iVBORw0KGgo="');
+        expect(html).toContain('Why is &lt;CI&gt; red?');
+        expect(html).not.toContain('<CI>');
+    });
+
+    test('default file name comes from the title', () => {
+        expect(defaultExportName(meta, 'html')).toBe('hause-why-is-ci-red.html');
+        expect(defaultExportName({ ...meta, title: '' }, 'md')).toBe('hause-s1.md');
+    });
+});
@@ -0,0 +1,119 @@
+import { jest, describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+
+const tempHome = `/tmp/council-test-sessions-${Date.now()}`;
+
+jest.unstable_mockModule('node:os', () => ({
+    __esModule: true,
+    default: {
+        homedir: () => tempHome,
+        platform: () => 'darwin',
+        release: () => '1.0.0',
+        arch: () => 'x64',
+        tmpdir: () => '/tmp'
+    }
+}));
+
+describe('HistoryManager sessions', () => {
+    let HistoryManager: any;
+
+    beforeAll(async () => {
+        const configDir = path.join(tempHome, '.council-ai');
+        fs.mkdirSync(configDir, { recursive: true });
+        // Старый формат: одна общая история
+        fs.writeFileSync(path.join(configDir, 'history.json'), JSON.stringify([
+            { role: 'user', text: 'Old question about Docker', timestamp: 1000 },
+            { role: 'assistant', text: 'Old answer', timestamp: 2000 }
+        ]));
+        HistoryManager = (await import('../src/history.js')).HistoryManager;
+    });
+
+    afterAll(() => {
+        try {
+            fs.rmSync(tempHome, { recursive: true, force: true });
+        } catch {}
+    });
+
+    test('migrates legacy history.json into a session', () => {
+        const history = new HistoryManager();
+        const sessions = history.listSessions();
+        expect(sessions).toHaveLength(1);
+        expect(sessions[0]).toMatchObject({ title: 'Old question about Docker', messageCount: 2, created: 1000 });
+        expect(fs.existsSync(path.join(tempHome, '.council-ai', 'history.json'))).toBe(false);
+    });
+
+    test('creates, lists, searches, renames and deletes sessions', () => {
+        const history = new HistoryManager();
+        history.newSession('review');
+        expect(history.listSessions()).toHaveLength(1); // Пустая сессия не сохраняется
+
+        history.add({ role: 'user', text: 'How do I rotate   Postgres logs?', timestamp: Date.now() });
+        const meta = history.getMeta();
+        expect(meta).toMatchObject({ title: 'How do I rotate Postgres logs?', team: 'review', cwd: process.cwd() });
+
+        const list = history.listSessions();
+        expect(list.map((s: any) => s.id)[0]).toBe(meta.id);
+        expect(history.searchSessions('old answer')).toHaveLength(1);
+        expect(history.searchSessions('postgres')[0].id).toBe(meta.id);
+
+        const legacyId = list[1].id;
+        history.renameSession(legacyId, 'Docker notes');
+        expect(history.searchSessions('docker notes')[0]).toMatchObject({ id: legacyId, titleSource: 'user' });
+
+        expect(history.load(legacyId)).toBe(true);
+        expect(history.getMessages()).toHaveLength(2);
+        history.deleteSession(legacyId);
+        expect(history.getMessages()).toHaveLength(0);
+        expect(history.listSessions().map((s: any) => s.id)).toEqual([meta.id]);
+    });
+
+    test('summary replaces old messages and expands back from the archive', () => {
+        const history = new HistoryManager();
+        history.newSession();
+        for (let i = 0; i < 6; i++) history.add({ role: i % 2 ? 'assistant' : 'user', text: `m${i}`, timestamp: i });
+
+        history.replaceWithSummary(4, 'summary 1');
+        expect(history.getMessages().map((m: any) => m.text)).toEqual(['summary 1', 'm4', 'm5']);
+
+        // Вторая сводка включает первую
+        history.add({ role: 'user', text: 'm6', timestamp: 6 });
+        history.replaceWithSummary(2, 'summary 2');
+        expect(history.getMessages().map((m: any) => m.role)).toEqual(['summary', 'assistant', 'user']);
+
+        // Архив читается и из файла (новый менеджер той же сессии)
+        const reopened = new HistoryManager();
+        reopened.load(history.getMeta().id);
+        expect(reopened.expandSummary()).toBe(2);
+        expect(reopened.getMessages().map((m: any) => m.text)).toEqual(['summary 1', 'm4', 'm5', 'm6']);
+        expect(reopened.expandSummary()).toBe(4);
+        expect(reopened.getMessages()).toHaveLength(7);
+        expect(reopened.expandSummary()).toBe(0);
+    });
+
+    test('rewinds and branches into a session tree', async () => {
+        const { questionIndexes, sessionTree } = await import('../src/history.js');
+        const history = new HistoryManager();
+        history.newSession();
+        history.add({ role: 'user', text: 'q1', timestamp: 1, askId: 'a1' });
+        history.add({ role: 'assistant', text: 'calling tool', timestamp: 2, askId: 'a1' });
+        history.add({ role: 'user', text: '\n\n--- TOOL OUTPUTS (Turn 1) ---\nok', timestamp: 3, askId: 'a1' });
+        history.add({ role: 'assistant', text: 'a1', timestamp: 4, askId: 'a1' });
+        history.add({ role: 'user', text: 'q2', timestamp: 5, askId: 'a2' });
+        history.add({ role: 'assistant', text: 'a2', timestamp: 6, askId: 'a2' });
+        expect(questionIndexes(history.getMessages())).toEqual([0, 4]);
+
+        const parent = history.getMeta();
+        const branch = history.branch(4, 'Alternative');
+        expect(branch).toMatchObject({ parentId: parent.id, parentIndex: 4, title: 'Alternative' });
+        expect(history.getMessages()).toHaveLength(4);
+
+        history.load(parent.id);
+        history.truncate(4);
+        expect(history.getMessages().map((m: any) => m.text).pop()).toBe('a1');
+
+        const tree = sessionTree(history.listSessions());
+        const parentPos = tree.findIndex((n: any) => n.session.id === parent.id);
+        expect(tree[parentPos + 1]).toMatchObject({ session: { id: branch.id }, depth: 1 });
+    });
+});
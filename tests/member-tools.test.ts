@@ -0,0 +1,87 @@
+import { jest, describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const tempHome = `/tmp/council-test-member-tools-${Date.now()}`;
+const mockSendToProvider = jest.fn<any>();
+
+jest.unstable_mockModule('../src/providers', () => ({
+    sendToProvider: mockSendToProvider,
+    estimateTokens: (t: string) => Math.ceil(t.length / 2.5)
+}));
+
+// Журнал аудита пишется в домашнюю папку
+jest.unstable_mockModule('node:os', () => ({
+    __esModule: true,
+    ...os,
+    homedir: () => tempHome,
+    default: { ...os, homedir: () => tempHome }
+}));
+
+describe('council member tools', () => {
+    let dir: string;
+
+    beforeAll(() => {
+        fs.mkdirSync(tempHome, { recursive: true });
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'council-member-'));
+        fs.writeFileSync(path.join(dir, 'a.txt'), 'the answer is 42\n');
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(dir, { recursive: true, force: true });
+        fs.rmSync(tempHome, { recursive: true, force: true });
+    });
+
+    test('members read files within their turn limit and the Chair gets what they found', async () => {
+        const { Council } = await import('../src/council.js');
+        const { ConfigManager } = await import('../src/config.js');
+        const { HistoryManager } = await import('../src/history.js');
+        const { ToolManager } = await import('../src/tools.js');
+        const { AuditLog } = await import('../src/audit.js');
+
+        jest.spyOn(ConfigManager.prototype as any, 'load').mockImplementation(() => {});
+        const config = new ConfigManager({ persist: false });
+        jest.spyOn(config, 'getAgents').mockReturnValue([
+            { id: 'chair', name: 'Chair', providerType: 'openai', model: 'gpt-4o', enabled: true },
+            { id: 'member', name: 'Member', providerType: 'anthropic', model: 'claude', enabled: true }
+        ]);
+        jest.spyOn(config, 'getChairId').mockReturnValue('chair');
+        jest.spyOn(config, 'getPermissions').mockReturnValue({ allow_file_read: true, allow_command: true, allow_file_write: true });
+        config.setCouncilToolTurns(1);
+
+        const council: any = new Council(config, new HistoryManager({ persist: false }));
+        council.launchDir = dir;
+        council.tools = new ToolManager(dir);
+
+        const memberReplies = [
+            // bash-блок в мнении — совет Председателю, а не вызов
+            'Let me look.\n```read:a.txt```\n```bash\nrm a.txt\n```',
+            // Лимит исчерпан: блок остается текстом мнения
+            '```read:a.txt```'
+        ];
+        mockSendToProvider.mockImplementation(async (agent: any) => ({
+            providerId: agent.id,
+            model: agent.model,
+            text: agent.id === 'chair' ? 'Final.' : memberReplies.shift()
+        }));
+
+        await council.ask('What does a.txt say?');
+
+        const calls = mockSendToProvider.mock.calls as any[][];
+        const memberCalls = calls.filter(c => c[0].id === 'member');
+        // Один ход с инструментами, затем итоговое мнение без них
+        expect(memberCalls).toHaveLength(2);
+        expect(memberCalls[0][4]).toContain('[ИНСТРУМЕНТЫ ЧТЕНИЯ]');
+        expect(memberCalls[1][2]).toContain('the answer is 42');
+        expect(memberCalls[1][2]).toContain('Лимит инструментов исчерпан');
+        expect(fs.existsSync(path.join(dir, 'a.txt'))).toBe(true);
+
+        const chairPrompt = calls.find(c => c[0].id === 'chair')![2];
+        expect(chairPrompt).toContain('[Изучено инструментами]\n- read: a.txt → the answer is 42\n\n```read:a.txt```');
+
+        const events = new AuditLog().read({ tool: 'read' });
+        expect(events.map(e => [e.agentId, e.decision])).toEqual([['member', 'allowed']]);
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, test, expect } from '@jest/globals';
+import { parseAskArgs } from '../src/oneshot';
+
+const noStdin = async () => '';
+
+describe('hause ask arguments', () => {
+    test('joins positionals and parses flags', async () => {
+        const opts = await parseAskArgs(['--team', 'cheap', '--json', '--max-turns', '2', '--allow', 'read,command', 'why', 'is', 'CI', 'red?'], noStdin);
+        expect(opts).toMatchObject({
+            question: 'why is CI red?',
+            team: 'cheap',
+            json: true,
+            mute: false,
+            maxTurns: 2,
+            allow: ['allow_file_read', 'allow_command'],
+            deny: []
+        });
+    });
+
+    test('reads the question from stdin with "-"', async () => {
+        const opts = await parseAskArgs(['-', '--no-tools', '-m'], async () => 'review this diff\n');
+        expect(opts?.question).toBe('review this diff');
+        expect(opts?.mute).toBe(true);
+        expect(opts?.deny).toHaveLength(6);
+    });
+
+    test('rejects bad input', async () => {
+        await expect(parseAskArgs(['-'], noStdin)).rejects.toThrow();
+        await expect(parseAskArgs(['q', '--deny', 'network'], noStdin)).rejects.toThrow();
+        await expect(parseAskArgs(['q', '--max-turns', '0'], noStdin)).rejects.toThrow();
+        await expect(parseAskArgs(['q', '--unknown'], noStdin)).rejects.toThrow();
+        expect(await parseAskArgs(['--help'], noStdin)).toBeNull();
+    });
+});
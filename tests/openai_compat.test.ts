@@ -0,0 +1,47 @@
+import { describe, test, expect } from '@jest/globals';
+import { fromOpenAIMessages, modelList } from '../src/openai_compat';
+
+describe('OpenAI-compatible messages', () => {
+    test('splits history and question, keeps system instructions and images', () => {
+        const { history, question } = fromOpenAIMessages([
+            { role: 'system', content: 'Answer briefly' },
+            { role: 'user', content: 'What is 2+2?' },
+            { role: 'assistant', content: '4' },
+            { role: 'user', content: [
+                { type: 'text', text: 'And this?' },
+                { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }
+            ] }
+        ], 1000);
+
+        expect(question).toBe('And this?');
+        expect(history.map(m => [m.role, m.text])).toEqual([
+            ['user', 'System instructions:\nAnswer briefly'],
+            ['user', 'What is 2+2?'],
+            ['assistant', '4'],
+            ['user', '[attached images]']
+        ]);
+        expect(history[3].images).toEqual(['AAAA']);
+        expect(history.map(m => m.timestamp)).toEqual([...history.map(m => m.timestamp)].sort());
+    });
+
+    test('client tool calls become text', () => {
+        const { history } = fromOpenAIMessages([
+            { role: 'user', content: 'weather?' },
+            { role: 'assistant', content: null, tool_calls: [{ id: '1', function: { name: 'get_weather', arguments: '{"city":"Riga"}' } }] },
+            { role: 'tool', tool_call_id: '1', content: 'sunny' },
+            { role: 'user', content: 'thanks' }
+        ]);
+        expect(history[1].text).toBe('[tool call get_weather({"city":"Riga"})]');
+        expect(history[2]).toMatchObject({ role: 'user', text: '[tool result]\nsunny' });
+    });
+
+    test('rejects conversations without a user message', () => {
+        expect(() => fromOpenAIMessages([])).toThrow();
+        expect(() => fromOpenAIMessages([{ role: 'system', content: 'x' }])).toThrow();
+    });
+
+    test('teams are listed as models', () => {
+        const list = modelList([{ id: 't1', name: 'review', memberIds: [] }], 1);
+        expect(list.data.map(m => m.id)).toEqual(['hause', 'review']);
+    });
+});
@@ -1,6 +1,9 @@
 import { Council } from '../src/council';
 import { ConfigManager } from '../src/config';
 import { HistoryManager } from '../src/history';
+import { toolCallToParsed } from '../src/tools';
+import { composeSystemPrompt } from '../src/personas';
+import { t } from '../src/i18n';
 import { jest, describe, test, expect, beforeEach, afterEach } from '@jest/globals';
 
 describe('Council Tool Parser', () => {
@@ -72,3 +75,39 @@ Now read the file:
     expect(tools).toHaveLength(0);
   });
 });
+
+describe('Native tool calls', () => {
+  test('maps edit_file call to the same shape as an edit block', () => {
+    const tool = toolCallToParsed({ id: 'call_1', name: 'edit_file', args: { path: 'src/main.ts', search: 'old', replace: 'new' } });
+    expect(tool).toEqual({
+      type: 'edit',
+      arg: 'src/main.ts',
+      content: '<<<<<<< SEARCH\nold\n=======\nnew\n>>>>>>>'
+    });
+  });
+
+  test('maps read_file line range and search path', () => {
+    expect(toolCallToParsed({ id: '1', name: 'read_file', args: { path: 'a.ts', start_line: 2, end_line: 5 } })?.content).toBe('a.ts:2-5');
+    expect(toolCallToParsed({ id: '2', name: 'search_smart', args: { query: 'init app', path: 'src' } })?.content).toBe('"init app" src');
+  });
+
+  test('returns null for unknown tools', () => {
+    expect(toolCallToParsed({ id: '1', name: 'rm_rf', args: {} })).toBeNull();
+  });
+});
+
+describe('Agent personas', () => {
+  test('composes persona and custom instructions after the base prompt', () => {
+    const prompt = composeSystemPrompt(
+      { id: 'a', name: 'a', providerType: 'openai', model: 'gpt-4o', enabled: true, persona: 'security', systemPrompt: 'Focus on auth.' },
+      'BASE'
+    );
+    expect(prompt.startsWith('BASE')).toBe(true);
+    expect(prompt).toContain(t('persona_security_prompt'));
+    expect(prompt).toContain('Focus on auth.');
+  });
+
+  test('ignores unknown persona ids', () => {
+    expect(composeSystemPrompt({ id: 'a', name: 'a', providerType: 'openai', model: 'm', enabled: true, persona: 'nope' }, 'BASE')).toBe('BASE');
+  });
+});
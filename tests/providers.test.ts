@@ -0,0 +1,223 @@
+import { jest, describe, test, expect, beforeAll, beforeEach } from '@jest/globals';
+import { Readable } from 'stream';
+
+const mockPost = jest.fn<any>();
+const mockGet = jest.fn<any>();
+
+jest.unstable_mockModule('axios', () => ({
+    default: { post: mockPost, get: mockGet, isCancel: () => false }
+}));
+
+describe('provider requests', () => {
+    let sendToProvider: any;
+    let fetchModels: any;
+    let endpointUrl: any;
+    let parseHeaders: any;
+    let Redactor: any;
+
+    const agent = { id: 'gpt', name: 'GPT', providerType: 'openai', model: 'gpt-4o', enabled: true };
+    const ok = { data: { choices: [{ message: { content: 'ok' } }] } };
+    // Тело запроса из n-го вызова axios.post
+    const bodyOf = (n: number) => JSON.stringify((mockPost.mock.calls[n] as any[])[1]);
+
+    beforeAll(async () => {
+        ({ sendToProvider, fetchModels, endpointUrl } = await import('../src/providers.js'));
+        ({ parseHeaders } = await import('../src/commands.js'));
+        ({ Redactor } = await import('../src/redaction.js'));
+    });
+
+    beforeEach(() => {
+        mockPost.mockReset();
+        mockPost.mockResolvedValue(ok);
+        mockGet.mockReset();
+    });
+
+    test('tool call arguments are redacted value by value, escapes stay valid', async () => {
+        const redactor = new Redactor();
+        const secret = 'Zx8Qp2Lw9Rt4Vn6Ks1Hy3Jm7Bc5Df0Ga';
+        // В JSON перевод строки — "\n": маска по сериализованной строке съела бы "n" и сломала экранирование
+        const history = [
+            { role: 'user', text: 'write it', timestamp: 1 },
+            { role: 'assistant', text: '', timestamp: 2, toolCalls: [{ id: 'c1', name: 'write_file', args: { path: 'a.txt', content: `line\n${secret}`, lines: [`"${secret}"`] } }] },
+            { role: 'tool', text: '', timestamp: 3, toolResults: [{ id: 'c1', name: 'write_file', output: 'saved' }] }
+        ];
+
+        const res = await sendToProvider(agent, 'key', 'next', history, 'system', { redact: (text: string) => redactor.redact(text) });
+
+        expect(res.error).toBeUndefined();
+        expect(bodyOf(0)).not.toContain(secret);
+        expect(bodyOf(0)).toContain('[REDACTED:high_entropy:');
+    });
+
+    test('endpoint URLs keep the query string after the API path', () => {
+        expect(endpointUrl('http://localhost:11434/v1/', '/models')).toBe('http://localhost:11434/v1/models');
+        expect(endpointUrl(' https://x.openai.azure.com/openai/deployments/gpt4/?api-version=2024-06-01 ', '/chat/completions'))
+            .toBe('https://x.openai.azure.com/openai/deployments/gpt4/chat/completions?api-version=2024-06-01');
+        expect(endpointUrl('https://host/v1?api-version=1&x=2', '/models')).toBe('https://host/v1/models?api-version=1&x=2');
+    });
+
+    test('header input skips malformed pairs', () => {
+        expect(parseHeaders('X-Org: team; api-key: secret')).toEqual({ 'X-Org': 'team', 'api-key': 'secret' });
+        expect(parseHeaders('Referer: http://a:8080/x\nno-colon;: value; empty: ;  ;')).toEqual({ Referer: 'http://a:8080/x' });
+        expect(parseHeaders('')).toEqual({});
+    });
+
+    test('custom endpoints work without an API key', async () => {
+        const custom = { id: 'local', name: 'Ollama', providerType: 'custom', model: 'llama3', customProviderId: 'ollama', enabled: true };
+        const endpoint = { id: 'ollama', name: 'Ollama', baseUrl: 'http://localhost:11434/v1', headers: { 'X-Org': 'team' } };
+
+        const res = await sendToProvider(custom, '', 'hi', [], 'system', { endpoint });
+        expect(res).toMatchObject({ text: 'ok' });
+        const [url, , { headers }] = mockPost.mock.calls[0] as any[];
+        expect(url).toBe('http://localhost:11434/v1/chat/completions');
+        expect(headers).toMatchObject({ 'X-Org': 'team' });
+        expect(headers.Authorization).toBeUndefined();
+
+        mockGet.mockResolvedValue({ data: { models: [{ name: 'qwen' }, { name: 'llama3' }] } });
+        expect(await fetchModels('custom', '', endpoint)).toEqual(['llama3', 'qwen']);
+        expect((await sendToProvider(custom, '', 'hi', [], 'system', {})).error).toBeTruthy();
+        expect(mockPost).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('provider streaming', () => {
+    let sendToProvider: any;
+
+    const agents: Record<string, any> = {
+        openai: { id: 'gpt', name: 'GPT', providerType: 'openai', model: 'gpt-4o', enabled: true },
+        anthropic: { id: 'claude', name: 'Claude', providerType: 'anthropic', model: 'claude-sonnet-4', enabled: true },
+        gemini: { id: 'gemini', name: 'Gemini', providerType: 'gemini', model: 'gemini-2.5-pro', enabled: true }
+    };
+
+    // Ответы без потока и те же ответы событиями SSE
+    const plain: Record<string, any> = {
+        openai: {
+            choices: [{ message: {
+                content: 'Привет, мир 👋',
+                reasoning_content: 'думаю',
+                tool_calls: [
+                    { id: 'call_a', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.txt"}' } },
+                    { id: 'call_b', type: 'function', function: { name: 'list_dir', arguments: '{"path":"src"}' } }
+                ]
+            } }],
+            usage: { prompt_tokens: 10, completion_tokens: 5 }
+        },
+        anthropic: {
+            content: [
+                { type: 'thinking', thinking: 'думаю' },
+                { type: 'text', text: 'Привет, мир 👋' },
+                { type: 'tool_use', id: 'toolu_1', name: 'read_file', input: { path: 'a.txt' } }
+            ],
+            usage: { input_tokens: 10, output_tokens: 5 }
+        },
+        gemini: {
+            candidates: [{ content: { parts: [
+                { text: 'думаю', thought: true },
+                { text: 'Привет, мир 👋' },
+                { functionCall: { name: 'read_file', args: { path: 'a.txt' } } }
+            ] } }],
+            usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5 }
+        }
+    };
+    const events: Record<string, any[]> = {
+        openai: [
+            { choices: [{ delta: { role: 'assistant', reasoning_content: 'думаю' } }] },
+            { choices: [{ delta: { content: 'Привет, ' } }] },
+            { choices: [{ delta: { content: 'мир 👋' } }] },
+            // Аргументы двух вызовов приходят вперемешку и собираются по index
+            { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_a', function: { name: 'read_file', arguments: '' } }] } }] },
+            { choices: [{ delta: { tool_calls: [{ index: 1, id: 'call_b', function: { name: 'list_dir', arguments: '{"path":' } }] } }] },
+            { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '{"path":"a.txt"}' } }] } }] },
+            { choices: [{ delta: { tool_calls: [{ index: 1, function: { arguments: '"src"}' } }] } }] },
+            { choices: [], usage: { prompt_tokens: 10, completion_tokens: 5 } },
+            '[DONE]'
+        ],
+        anthropic: [
+            { type: 'message_start', message: { usage: { input_tokens: 10, output_tokens: 1 } } },
+            { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'ду' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'маю' } },
+            { type: 'content_block_start', index: 1, content_block: { type: 'text', text: '' } },
+            { type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: 'Привет, ' } },
+            { type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: 'мир 👋' } },
+            { type: 'content_block_start', index: 2, content_block: { type: 'tool_use', id: 'toolu_1', name: 'read_file', input: {} } },
+            { type: 'content_block_delta', index: 2, delta: { type: 'input_json_delta', partial_json: '{"path":' } },
+            { type: 'content_block_delta', index: 2, delta: { type: 'input_json_delta', partial_json: '"a.txt"}' } },
+            { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 5 } },
+            { type: 'message_stop' }
+        ],
+        gemini: [
+            { candidates: [{ content: { parts: [{ text: 'думаю', thought: true }] } }], usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 1 } },
+            { candidates: [{ content: { parts: [{ text: 'Привет, ' }] } }], usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 3 } },
+            { candidates: [{ content: { parts: [{ text: 'мир 👋' }, { functionCall: { name: 'read_file', args: { path: 'a.txt' } } }] } }], usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5 } }
+        ]
+    };
+
+    // Тело SSE, нарезанное по size байт: строки и многобайтовые символы рвутся на границах чанков
+    const sse = (items: any[], size = 5) => {
+        const body = Buffer.from(items.map(item => typeof item === 'string'
+            ? `data: ${item}\r\n\r\n`
+            : `${item.type ? `event: ${item.type}\n` : ''}data: ${JSON.stringify(item)}\n\n`).join(''));
+        const chunks: Buffer[] = [];
+        for (let i = 0; i < body.length; i += size) chunks.push(body.subarray(i, i + size));
+        return Readable.from(chunks);
+    };
+    const respond = (provider: string, items = events[provider]) =>
+        mockPost.mockImplementation(async (_url: any, _body: any, config: any) =>
+            config?.responseType === 'stream' ? { data: sse(items) } : { data: plain[provider] });
+    // У Gemini id вызовов генерируются на месте
+    const stable = (res: any) => ({ ...res, toolCalls: res.toolCalls?.map((c: any) => ({ ...c, id: c.id.replace(/^call_\d+_/, 'call_') })) });
+
+    beforeAll(async () => {
+        ({ sendToProvider } = await import('../src/providers.js'));
+    });
+
+    beforeEach(() => {
+        mockPost.mockReset();
+    });
+
+    test.each(['openai', 'anthropic', 'gemini'])('%s: the streamed response equals the non-streamed one', async provider => {
+        respond(provider);
+        const tokens: any[] = [];
+        const streamed = await sendToProvider(agents[provider], 'key', 'hi', [], 'system', { onToken: (t: any) => tokens.push(t) });
+        const whole = await sendToProvider(agents[provider], 'key', 'hi', [], 'system', {});
+
+        expect(streamed.error).toBeUndefined();
+        expect(stable(streamed)).toEqual(stable(whole));
+        expect(streamed).toMatchObject({ text: 'Привет, мир 👋', reasoning: 'думаю', usage: { input: 10, output: 5 } });
+        expect(streamed.toolCalls[0]).toMatchObject({ name: 'read_file', args: { path: 'a.txt' } });
+        expect(tokens.map(t => t.text || '').join('')).toBe(streamed.text);
+        expect(tokens.map(t => t.reasoning || '').join('')).toBe(streamed.reasoning);
+        expect(tokens.length).toBeGreaterThan(2);
+        expect((mockPost.mock.calls[0] as any[])[2].responseType).toBe('stream');
+    });
+
+    test('openai tool call fragments are joined by index', async () => {
+        respond('openai');
+        const res = await sendToProvider(agents.openai, 'key', 'hi', [], 'system', { onToken: () => {} });
+        expect(res.toolCalls).toEqual([
+            { id: 'call_a', name: 'read_file', args: { path: 'a.txt' } },
+            { id: 'call_b', name: 'list_dir', args: { path: 'src' } }
+        ]);
+    });
+
+    test('gemini streams through alt=sse', async () => {
+        respond('gemini');
+        await sendToProvider(agents.gemini, 'key', 'hi', [], 'system', { onToken: () => {} });
+        expect((mockPost.mock.calls[0] as any[])[0]).toContain('/models/gemini-2.5-pro:streamGenerateContent?alt=sse&key=key');
+    });
+
+    test.each([
+        ['openai', { choices: [{ delta: { content: 'Hal' } }] }, { error: { message: 'Rate limit reached' } }],
+        ['anthropic', { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hal' } }, { type: 'error', error: { type: 'overloaded_error', message: 'Rate limit reached' } }],
+        ['gemini', { candidates: [{ content: { parts: [{ text: 'Hal' }] } }] }, { error: { code: 429, message: 'Rate limit reached' } }]
+    ])('%s: an error event inside the stream becomes the response error', async (provider, first, error) => {
+        respond(provider, [first, error]);
+        const tokens: any[] = [];
+        const res = await sendToProvider(agents[provider], 'key', 'hi', [], 'system', { onToken: (t: any) => tokens.push(t) });
+
+        expect(res).toMatchObject({ text: '', error: 'Rate limit reached' });
+        expect(tokens).toEqual([{ text: 'Hal' }]);
+        expect(mockPost).toHaveBeenCalledTimes(1);
+    });
+});
@@ -1,4 +1,7 @@
-import { jest, describe, test, expect, beforeEach, afterEach, beforeAll } from '@jest/globals';
+import { jest, describe, test, expect, beforeEach, afterEach, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 // Define the mock factory outside
 const mockSendToProvider = jest.fn<any>();
@@ -148,3 +151,80 @@ describe('Security Permissions', () => {
     expect(runDiagSpy).toHaveBeenCalled();
   });
 });
+
+describe('Workspace path jail', () => {
+  let council: any;
+  let config: any;
+  let ToolManager: any;
+  const base = fs.mkdtempSync(path.join(os.tmpdir(), 'council-jail-'));
+  const root = path.join(base, 'project');
+  const outside = path.join(base, 'secret');
+
+  const read = (target: string) => council.executeTool({ type: 'read', content: target, arg: '' }, { allow_file_read: true }, []);
+
+  beforeAll(async () => {
+    fs.mkdirSync(path.join(root, 'src'), { recursive: true });
+    fs.mkdirSync(outside, { recursive: true });
+    fs.writeFileSync(path.join(root, 'src', 'app.ts'), 'inside');
+    fs.writeFileSync(path.join(outside, 'key.txt'), 'outside');
+    fs.symlinkSync(outside, path.join(root, 'link'));
+
+    ({ ToolManager } = await import('../src/tools'));
+    const { Council } = await import('../src/council');
+    const { ConfigManager } = await import('../src/config');
+    const { HistoryManager } = await import('../src/history');
+    jest.spyOn(ConfigManager.prototype as any, 'load').mockImplementation(() => {});
+    config = new ConfigManager({ persist: false });
+    council = new Council(config, new HistoryManager({ persist: false }));
+    council.launchDir = root;
+    council.tools = new ToolManager(root);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(base, { recursive: true, force: true });
+  });
+
+  test('allows paths that stay inside the launch folder', async () => {
+    config.setWorkspace({ outside: 'deny' });
+    expect(await read('src/../src/app.ts')).toContain('inside');
+    expect(await read(path.join(root, 'src', 'app.ts'))).toContain('inside');
+  });
+
+  test('denies .. traversal, absolute paths and symlinks that leave the roots', async () => {
+    config.setWorkspace({ outside: 'deny' });
+    for (const target of ['../secret/key.txt', 'src/../../secret/key.txt', path.join(outside, 'key.txt'), 'link/key.txt']) {
+      const result = await read(target);
+      expect(result).toContain('is outside the workspace');
+      expect(result).not.toContain('outside\n');
+    }
+    const write = await council.executeTool({ type: 'file', content: 'x', arg: 'link/new.txt' }, { allow_file_write: true }, []);
+    expect(write).toContain('is outside the workspace');
+    expect(fs.existsSync(path.join(outside, 'new.txt'))).toBe(false);
+  });
+
+  test('extra roots and approval open access outside the launch folder', async () => {
+    config.setWorkspace({ roots: [outside], outside: 'deny' });
+    expect(await read('link/key.txt')).toContain('outside');
+
+    config.setWorkspace({ outside: 'ask' });
+    expect(await read('../secret/key.txt')).toContain('requires user approval');
+    council.setApprovalHandler(async () => ({ action: 'approve' }));
+    expect(await read('../secret/key.txt')).toContain('Content:\noutside');
+    council.setApprovalHandler(undefined);
+  });
+
+  test('~/.council-ai is blocked even when home is an allowed root', async () => {
+    config.setWorkspace({ roots: [os.homedir()] });
+    const handler = jest.fn(async () => ({ action: 'approve' }));
+    council.setApprovalHandler(handler);
+    for (const target of ['~/.council-ai/config_v2.json', path.join(root, '../../..', os.homedir(), '.council-ai')]) {
+      expect(await read(target)).toContain('~/.council-ai (settings and API keys) is never accessible');
+    }
+    expect(handler).not.toHaveBeenCalled();
+    council.setApprovalHandler(undefined);
+
+    const direct = await new ToolManager(root).readFile('~/.council-ai/config_v2.json');
+    expect(direct.error).toContain('Access denied');
+  });
+});
@@ -0,0 +1,146 @@
+import { jest, describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import * as realOs from 'os';
+import type { AddressInfo } from 'net';
+
+const tempHome = `/tmp/council-test-server-${Date.now()}`;
+
+// Провайдер отвечает потоком по частям: ходы Председателя из mockTurns по очереди, остальное — "Hello" из двух частей
+const mockTurns: string[][] = [];
+const chairTurn = /Дай финальный ответ|^Продолжай\.$/;
+jest.unstable_mockModule('../src/providers', () => ({
+    sendToProvider: jest.fn(async (agent: any, _key: string, prompt: string, _history: any[], _system: string, options: any = {}) => {
+        const parts = (chairTurn.test(prompt) && mockTurns.shift()) || ['Hel', 'lo'];
+        for (const text of parts) options.onToken?.({ text });
+        return { providerId: agent.id, model: agent.model, text: parts.join('') };
+    }),
+    estimateTokens: (t: string) => Math.ceil(t.length / 2.5),
+    getMimeType: () => 'image/png',
+    testApiKey: jest.fn(),
+    getBalance: jest.fn(),
+    fetchModels: jest.fn(),
+    API_KEY_URLS: {}
+}));
+
+// Сервер тянет зависимости, которым нужны именованные экспорты node:os
+jest.unstable_mockModule('node:os', () => ({
+    ...realOs,
+    __esModule: true,
+    homedir: () => tempHome,
+    default: { ...realOs, homedir: () => tempHome }
+}));
+
+describe('HTTP API server', () => {
+    let server: any;
+    let base = '';
+    const token = 'test-token';
+    const auth = { Authorization: `Bearer ${token}` };
+
+    beforeAll(async () => {
+        const configDir = path.join(tempHome, '.council-ai');
+        fs.mkdirSync(configDir, { recursive: true });
+        fs.writeFileSync(path.join(configDir, 'config_v2.json'), JSON.stringify({
+            apiKeys: { 'openai': 'sk-test' },
+            agents: [
+                { id: 'a', name: 'GPT', providerType: 'openai', model: 'gpt-4o', enabled: true },
+                { id: 'b', name: 'Mini', providerType: 'openai', model: 'gpt-4o-mini', enabled: false }
+            ],
+            chairAgentId: 'a',
+            permissions: {}
+        }));
+
+        const { ConfigManager } = await import('../src/config.js');
+        const { createApiServer, createSession } = await import('../src/server.js');
+        const ctx = { config: new ConfigManager(), sessions: new Map(), token };
+        createSession(ctx, 'default');
+        server = createApiServer(ctx);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+        try {
+            fs.rmSync(tempHome, { recursive: true, force: true });
+        } catch {}
+    });
+
+    test('requires a bearer token except for /health', async () => {
+        expect((await fetch(`${base}/health`)).status).toBe(200);
+        expect((await fetch(`${base}/agents`)).status).toBe(401);
+        expect((await fetch(`${base}/agents`, { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+        expect((await fetch(`${base}/nope`, { headers: auth })).status).toBe(404);
+    });
+
+    test('lists and switches agents', async () => {
+        const list: any = await (await fetch(`${base}/agents`, { headers: auth })).json();
+        expect(list.agents.map((a: any) => a.role)).toEqual(['chair', 'disabled']);
+
+        const res = await fetch(`${base}/agents/b`, { method: 'PATCH', headers: auth, body: JSON.stringify({ role: 'chair' }) });
+        expect(((await res.json()) as any).role).toBe('chair');
+
+        const bad = await fetch(`${base}/agents/b`, { method: 'PATCH', headers: auth, body: JSON.stringify({ role: 'boss' }) });
+        expect(bad.status).toBe(400);
+    });
+
+    test('exposes OpenAI-compatible models and errors', async () => {
+        const models: any = await (await fetch(`${base}/v1/models`, { headers: auth })).json();
+        expect(models.data[0].id).toBe('hause');
+
+        const res = await fetch(`${base}/v1/chat/completions`, {
+            method: 'POST', headers: auth,
+            body: JSON.stringify({ model: 'missing-team', messages: [{ role: 'user', content: 'hi' }] })
+        });
+        expect(res.status).toBe(404);
+        expect(((await res.json()) as any).error.type).toBe('invalid_request_error');
+    });
+
+    test('streams the chair answer as several completion chunks', async () => {
+        const res = await fetch(`${base}/v1/chat/completions`, {
+            method: 'POST', headers: auth,
+            body: JSON.stringify({ stream: true, messages: [{ role: 'user', content: 'hi' }] })
+        });
+        const chunks = (await res.text()).split('\n')
+            .filter(line => line.startsWith('data: {'))
+            .map(line => JSON.parse(line.substring(6)).choices[0]);
+
+        const content = chunks.map(c => c.delta.content).filter(Boolean);
+        expect(content).toEqual(['Hel', 'lo']);
+        expect(chunks.at(-1).finish_reason).toBe('stop');
+    });
+
+    test('streams only the final turn of a tool loop, the same content as without stream', async () => {
+        const complete = (stream: boolean) => {
+            mockTurns.push(['Let me look.\n', '```read\npackage.json\n```'], ['Do', 'ne.']);
+            return fetch(`${base}/v1/chat/completions`, {
+                method: 'POST', headers: auth,
+                body: JSON.stringify({ stream, messages: [{ role: 'user', content: 'check the package' }] })
+            });
+        };
+
+        const plain: any = await (await complete(false)).json();
+        const events = await (await complete(true)).text();
+        const content = events.split('\n')
+            .filter(line => line.startsWith('data: {'))
+            .map(line => JSON.parse(line.substring(6)).choices[0].delta.content)
+            .filter(Boolean);
+
+        expect(plain.choices[0].message.content).toBe('Done.');
+        expect(content).toEqual(['Do', 'ne.']);
+        // Промежуточный ход виден только как SSE-комментарий
+        expect(events).toContain(': Let me look. ```read package.json ```');
+    });
+
+    test('manages sessions and validates ask', async () => {
+        const created: any = await (await fetch(`${base}/sessions`, { method: 'POST', headers: auth })).json();
+        const list: any = await (await fetch(`${base}/sessions`, { headers: auth })).json();
+        expect(list.sessions.map((s: any) => s.id)).toEqual(['default', created.id]);
+
+        const ask = await fetch(`${base}/ask`, { method: 'POST', headers: auth, body: JSON.stringify({ session: created.id }) });
+        expect(ask.status).toBe(400);
+
+        expect((await fetch(`${base}/sessions/${created.id}`, { method: 'DELETE', headers: auth })).status).toBe(204);
+        expect((await fetch(`${base}/sessions/${created.id}`, { headers: auth })).status).toBe(404);
+    });
+});
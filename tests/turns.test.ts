@@ -0,0 +1,135 @@
+import { jest, describe, test, expect, beforeAll, beforeEach, afterEach, afterAll } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const tempHome = `/tmp/council-test-turns-${Date.now()}`;
+const mockSendToProvider = jest.fn<any>();
+
+jest.unstable_mockModule('../src/providers', () => ({
+    sendToProvider: mockSendToProvider,
+    estimateTokens: (t: string) => Math.ceil(t.length / 2.5)
+}));
+
+// Журнал аудита пишется в домашнюю папку
+jest.unstable_mockModule('node:os', () => ({
+    __esModule: true,
+    ...os,
+    homedir: () => tempHome,
+    default: { ...os, homedir: () => tempHome }
+}));
+
+describe('chair turn limit', () => {
+    let StuckDetector: any;
+    let Council: any;
+    let ConfigManager: any;
+    let HistoryManager: any;
+    let ToolManager: any;
+    let council: any;
+    let config: any;
+    let dir: string;
+
+    const reply = (text: string) => ({ providerId: 'chair', model: 'gpt-4o', text });
+    // Текст запроса к Председателю в n-м вызове
+    const promptOf = (n: number) => (mockSendToProvider.mock.calls[n] as any[])[2];
+
+    beforeAll(async () => {
+        fs.mkdirSync(tempHome, { recursive: true });
+        ({ StuckDetector } = await import('../src/stuck.js'));
+        ({ Council } = await import('../src/council.js'));
+        ({ ConfigManager } = await import('../src/config.js'));
+        ({ HistoryManager } = await import('../src/history.js'));
+        ({ ToolManager } = await import('../src/tools.js'));
+    });
+
+    beforeEach(() => {
+        mockSendToProvider.mockReset();
+        jest.spyOn(ConfigManager.prototype, 'load').mockImplementation(() => {});
+        config = new ConfigManager({ persist: false });
+        jest.spyOn(config, 'getAgents').mockReturnValue([
+            { id: 'chair', name: 'Chair', providerType: 'openai', model: 'gpt-4o', enabled: true }
+        ]);
+        jest.spyOn(config, 'getChairId').mockReturnValue('chair');
+
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'council-turns-'));
+        council = new Council(config, new HistoryManager({ persist: false }));
+        council.launchDir = dir;
+        council.tools = new ToolManager(dir);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    afterAll(() => {
+        fs.rmSync(tempHome, { recursive: true, force: true });
+    });
+
+    test('the team limit stops the loop with a status summary and the task can be continued', async () => {
+        config.setMaxTurns(2);
+        expect(config.createTeam('small').maxTurns).toBe(2);
+
+        mockSendToProvider
+            .mockResolvedValueOnce(reply('```bash\necho one\n```'))
+            .mockResolvedValueOnce(reply('```bash\necho two\n```'))
+            .mockResolvedValueOnce(reply('Done: one, two. Left: three.'))
+            .mockResolvedValueOnce(reply('```bash\necho three\n```'))
+            .mockResolvedValueOnce(reply('All done.'));
+
+        const result = await council.ask('count to three');
+        expect(result.stopped).toEqual({ reason: 'turn_limit', turns: 2 });
+        expect(promptOf(2)).toContain('Лимит ходов с инструментами исчерпан (2)');
+        expect(result.chairResponse.text).toMatch(/^Done: one, two\. Left: three\.\n\n⚠️ /);
+
+        const next = await council.continueAsk(2);
+        expect(next.stopped).toBeUndefined();
+        expect(next.chairResponse.text).toBe('All done.');
+        expect(next.askId).toBe(result.askId);
+        expect(mockSendToProvider).toHaveBeenCalledTimes(5);
+        expect(promptOf(3)).toContain('Продолжай выполнение задачи');
+    });
+
+    test('with the budget spent, continuing stops before asking and leaves history untouched', async () => {
+        config.setMaxTurns(1);
+        mockSendToProvider
+            .mockResolvedValueOnce(reply('```bash\necho one\n```'))
+            .mockResolvedValueOnce(reply('Done: one.'));
+        expect((await council.ask('count')).stopped).toEqual({ reason: 'turn_limit', turns: 1 });
+
+        config.setBudget({ session: 0, policy: 'refuse' });
+        const messages = council.history.getMessages().length;
+        const next = await council.continueAsk(2);
+
+        expect(next.chairResponse.error).toContain('budget');
+        expect(mockSendToProvider).toHaveBeenCalledTimes(2);
+        expect(council.history.getMessages()).toHaveLength(messages);
+    });
+
+    test('identical tool calls stop the loop as stuck', async () => {
+        mockSendToProvider.mockImplementation(async (_agent: any, _key: any, prompt: string) =>
+            reply(prompt.startsWith('Цикл остановлен') ? 'Stuck on ls.' : '```bash\nls missing-dir\n```'));
+        config.setMaxTurns(10);
+
+        const result = await council.ask('list it');
+        expect(result.stopped).toMatchObject({ reason: 'stuck', turns: 3, stuck: { reason: 'repeated_calls', count: 3 } });
+        expect(result.chairResponse.text).toContain('Stuck on ls.');
+        expect(mockSendToProvider).toHaveBeenCalledTimes(4);
+    });
+
+    test('the same error across turns counts, different failures do not', () => {
+        const detector = new StuckDetector();
+        const run = (content: string) => [{ type: 'command', content, arg: '' }];
+        const fail = (test: string, ms: number) => `Command: npm test\nOutput: \nError: Command failed: npm test\nSTDERR: ${test} failed in ${ms}ms\n\n`;
+
+        expect(detector.check(run('npm test'), [fail('a', 10)])).toBeUndefined();
+        expect(detector.check(run('sed -i s/x/y/ a.ts'), ['Command: sed\nOutput: \nError: None\n\n'])).toBeUndefined();
+        expect(detector.check(run('npm test'), [fail('b', 12)])).toBeUndefined();
+        expect(detector.check(run('vi a.ts'), [fail('a', 31)])).toBeUndefined();
+        expect(detector.check(run('npm test'), [fail('a', 7)])).toEqual({
+            reason: 'repeated_error',
+            detail: 'Command failed: npm test',
+            count: 3
+        });
+    });
+});
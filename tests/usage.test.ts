@@ -0,0 +1,41 @@
+import { calculateCost, summarize, UsageRecord } from '../src/usage';
+
+const record = (agentId: string, providerType: string, input: number, output: number, cost: number): UsageRecord => ({
+  askId: 'a1',
+  sessionId: 's1',
+  timestamp: 0,
+  role: 'council',
+  agentId,
+  agentName: agentId,
+  providerType,
+  model: 'gpt-4o',
+  usage: { input, output, cached: 10 },
+  cost
+});
+
+describe('calculateCost', () => {
+  test('uses per-1M prices from MODEL_PRICING', () => {
+    // gpt-4o: $2.50 in / $10.00 out
+    expect(calculateCost('gpt-4o', { input: 1_000_000, output: 100_000 })).toBeCloseTo(3.5);
+  });
+
+  test('returns 0 for unknown models', () => {
+    expect(calculateCost('my-local-llama', { input: 5000, output: 5000 })).toBe(0);
+  });
+});
+
+describe('summarize', () => {
+  test('groups totals by agent and provider', () => {
+    const summary = summarize([
+      record('a', 'openai', 100, 50, 0.1),
+      record('a', 'openai', 200, 50, 0.2),
+      record('b', 'anthropic', 10, 5, 0.05)
+    ]);
+    expect(summary.total.calls).toBe(3);
+    expect(summary.total.input).toBe(310);
+    expect(summary.total.cached).toBe(30);
+    expect(summary.byAgent['a'].output).toBe(100);
+    expect(summary.byProvider['openai'].cost).toBeCloseTo(0.3);
+    expect(summary.byProvider['anthropic'].calls).toBe(1);
+  });
+});